@@ -1,23 +1,193 @@
-import React, { useRef, useEffect, useState, useCallback } from "react";
-import {
-  FaBold,
-  FaItalic,
-  FaUnderline,
-  FaStrikethrough,
-  FaAlignLeft,
-  FaAlignCenter,
-  FaAlignRight,
-  FaListOl,
-  FaListUl,
-  FaQuoteLeft,
-  FaLink,
-  FaImage,
-} from "react-icons/fa";
+import React, { forwardRef, useId, useImperativeHandle, useRef, useEffect, useState } from "react";
 import { cn } from "../lib/utils";
+import { isSafeUrl, sanitizeHtml, type SanitizeOptions } from "../lib/sanitize";
+import { documentToHtml, htmlToDocument, type EditorDocument } from "../lib/document";
+import { htmlToMarkdown, markdownToHtml } from "../lib/markdown";
+import { createHistory, type HistoryEntry } from "../lib/history";
+import { captureSelection, restoreSelection } from "../lib/selection";
+import { cleanPastedHtml, plainTextToHtml, type PasteContent, type PasteMode } from "../lib/paste";
+import { getContentHtml, getRangePosition, trapFocus, TRANSIENT_ATTRIBUTE } from "../lib/dom";
+import { applyBlockDirections, detectDirection, getBlockDirection, getDirectionBlock } from "../lib/bidi";
+import {
+  DEFAULT_ACCEPTED_IMAGE_TYPES,
+  createUploadPlaceholder,
+  getImageFiles,
+  markUploadFailed,
+  setUploadProgress,
+  validateImageFile,
+  type ImageUploadHandler,
+} from "../lib/imageUpload";
+import { getClosestCell, getTable, hasHeaderRow, type TableCell } from "../lib/table";
+import {
+  createMentionElement,
+  findMentionQuery,
+  getMentionIds,
+  lockMentions,
+  type MentionItem,
+  type MentionProvider,
+  type MentionQuery,
+} from "../lib/mention";
+import { filterSlashCommands, findSlashQuery, type SlashCommand, type SlashQuery } from "../lib/slashCommands";
+import {
+  type EditorCommand,
+  type EditorCommandContext,
+  type EditorDialog,
+  type EditorExtension,
+  type EditorLabel,
+  type EditorToolbarState,
+  type ToolbarItem,
+  type TextEditorSelectionFormats,
+} from "../lib/extensions";
+import { formatAriaShortcut, formatShortcut, matchShortcut, mergeKeymaps, type EditorKeymap } from "../lib/keymap";
+import { getMessages, isRtlLocale, type TextEditorMessages } from "../lib/messages";
+import { applyMarkRule, defaultInputRules, findInputRule, removeBlockPrefix, type InputRule } from "../lib/inputRules";
+import { createBlockDocument, createInitialOperations, type Block, type BlockDocument } from "../lib/crdt";
+import {
+  createClientId,
+  getCollaborationSelection,
+  readBlocks,
+  rebaseHistoryEntry,
+  renderBlocks,
+  setBlockIds,
+  stripBlockIds,
+  type CollaborationMessage,
+  type CollaborationOptions,
+  type CollaborationSelection,
+  type CollaborationTransport,
+} from "../lib/collaboration";
+import {
+  countLength,
+  getPlainText,
+  getTextStats,
+  replaceRangeText,
+  truncateHtml,
+  truncateText,
+  type LengthUnit,
+  type TextStats,
+} from "../lib/textStats";
+import { CONTENT_COLORS, getEditorThemeClasses, type EditorTheme } from "../lib/theme";
+import { exitCodeBlock, getCodeBlock, indentCode, insertCodeNewline } from "../lib/codeBlock";
+import { clearCodeHighlights, highlightCodeBlocks } from "../lib/highlight";
+import { getSelectedImage, selectImage } from "../lib/image";
+import {
+  getClassTextAlign,
+  migrateInlineStyles,
+  resolveOutputClassNames,
+  withOutputClasses,
+  type OutputClassNamesOptions,
+  type OutputStyle,
+} from "../lib/outputStyle";
+import { applyLinkAttributes, getLinkElement, isValidLinkUrl, normalizeLinkUrl, removeLink, type LinkOptions } from "../lib/link";
+import SuggestionMenu from "./editor/SuggestionMenu";
+import RemoteCursors, { type RemotePeer } from "./editor/RemoteCursors";
+import FindReplacePanel from "./editor/FindReplacePanel";
+import CodeLanguagePicker from "./editor/CodeLanguagePicker";
+import LinkPopover, { type LinkEdit } from "./editor/LinkPopover";
+import ImageControls from "./editor/ImageControls";
+import { defaultExtensions } from "./editor/defaultExtensions";
+
+const TABLE_PICKER_SIZE = 8;
+
+// Extensions with these names follow the matching `allowedFormats` switch.
+const FORMAT_EXTENSION_NAMES = [
+  "bold",
+  "italic",
+  "underline",
+  "strikethrough",
+  "alignment",
+  "lists",
+  "links",
+  "images",
+  "codeBlocks",
+  "quotes",
+  "colors",
+  "fontSize",
+  "headings",
+  "tables",
+  "direction",
+];
+
+export type { TextEditorSelectionFormats };
+
+const EMPTY_SELECTION_FORMATS: TextEditorSelectionFormats = {
+  bold: false,
+  italic: false,
+  underline: false,
+  strikeThrough: false,
+  alignLeft: false,
+  alignCenter: false,
+  alignRight: false,
+  orderedList: false,
+  unorderedList: false,
+  inTable: false,
+  tableHeaderRow: false,
+  multipleCells: false,
+  rtl: false,
+};
+
+export type TextEditorCommand =
+  | "bold"
+  | "italic"
+  | "underline"
+  | "strikethrough"
+  | "alignLeft"
+  | "alignCenter"
+  | "alignRight"
+  | "orderedList"
+  | "bulletList"
+  | "paragraph"
+  | "heading1"
+  | "heading2"
+  | "heading3"
+  | "quote"
+  | "codeBlock"
+  | "fontSize"
+  | "color"
+  | "backgroundColor";
+
+export interface TextEditorHandle {
+  focus: () => void;
+  blur: () => void;
+  /** Inserts HTML at the caret, or at the end when the editor has never had a selection. */
+  insertHTML: (html: string) => void;
+  insertText: (text: string) => void;
+  /** The current content as HTML, sanitized like `onChange` output. */
+  getHTML: () => string;
+  getText: () => string;
+  clear: () => void;
+  /** Runs a toolbar command or any command registered by an extension. `fontSize`, `color` and `backgroundColor` take a value. */
+  execute: (command: TextEditorCommand | (string & {}), value?: string) => void;
+  getSelectionFormats: () => TextEditorSelectionFormats;
+  undo: () => void;
+  redo: () => void;
+}
+
+export type TextEditorValueFormat = "html" | "json" | "markdown";
+
+type TextEditorValueProps =
+  | {
+      valueFormat?: "html" | "markdown";
+      /** @deprecated Use `valueFormat`. */
+      format?: "html" | "markdown";
+      value: string;
+      onChange: (value: string) => void;
+    }
+  | {
+      valueFormat: "json";
+      /** @deprecated Use `valueFormat`. */
+      format?: "json";
+      value: EditorDocument;
+      onChange: (value: EditorDocument) => void;
+    }
+  | {
+      valueFormat?: undefined;
+      /** @deprecated Use `valueFormat`. */
+      format: "json";
+      value: EditorDocument;
+      onChange: (value: EditorDocument) => void;
+    };
 
-interface TextEditorProps {
-  value: string;
-  onChange: (value: string) => void;
+type TextEditorProps = TextEditorValueProps & {
   placeholder?: string;
   className?: string;
   disabled?: boolean;
@@ -25,9 +195,50 @@ interface TextEditorProps {
   minHeight?: string;
   maxWidth?: string;
   showToolbar?: boolean;
+  /** `auto` follows the system color scheme. Inserted content adapts to the theme too. */
+  theme?: EditorTheme;
+  /** Shows word count, character count and reading time under the editor. */
+  showStatusBar?: boolean;
+  /** Stops typing and cuts pasted text once the content is this long, in `lengthUnit`s. */
+  maxLength?: number;
+  lengthUnit?: LengthUnit;
+  /** Called when the content reaches `maxLength`, and whenever the limit blocks or cuts short an input. */
+  onLimitReached?: (stats: TextStats) => void;
   autoFocus?: boolean;
   linkUrlHandler?: (url: string) => string;
+  /** How link URLs are completed and validated, and the `target` and `rel` new links get. */
+  linkOptions?: LinkOptions;
   imageUrlHandler?: (url: string) => string;
+  sanitize?: boolean;
+  sanitizeOptions?: Partial<SanitizeOptions>;
+  /**
+   * `classes` saves HTML with class names instead of inline styles and `<font>` tags, for
+   * content styled by a stylesheet. Only affects the `html` value format.
+   */
+  outputStyle?: OutputStyle;
+  /** Class names used by `outputStyle="classes"`, merged over the defaults. */
+  outputClassNames?: OutputClassNamesOptions;
+  /** Maximum number of undo steps. Lowering it drops the oldest steps. */
+  historyDepth?: number;
+  pasteMode?: PasteMode;
+  onPaste?: (content: PasteContent) => string | null | undefined | void;
+  onImageUpload?: ImageUploadHandler;
+  onImageUploadError?: (error: Error, file: File) => void;
+  maxImageSize?: number;
+  acceptedImageTypes?: string[];
+  failedUploadBehavior?: "remove" | "mark";
+  mentionProviders?: MentionProvider[];
+  onMentionsChange?: (ids: string[]) => void;
+  slashCommands?: SlashCommand[];
+  extensions?: EditorExtension[];
+  keymap?: EditorKeymap;
+  /** Edits the same document together with other editors connected through `collaboration.transport`. */
+  collaboration?: CollaborationOptions;
+  /** Markdown-style shortcuts converted while typing; pass `[]` to turn them off. */
+  inputRules?: InputRule[];
+  /** UI language; `en` and `ar` are built in, other locales fall back to English unless `messages` covers them. */
+  locale?: string;
+  messages?: Partial<TextEditorMessages>;
   allowedFormats?: {
     bold?: boolean;
     italic?: boolean;
@@ -42,22 +253,53 @@ interface TextEditorProps {
     colors?: boolean;
     fontSize?: boolean;
     headings?: boolean;
+    tables?: boolean;
+    direction?: boolean;
   };
-}
+};
 
-const TextEditor: React.FC<TextEditorProps> = ({
+const TextEditor = forwardRef<TextEditorHandle, TextEditorProps>(({
   value,
   onChange,
-  placeholder = "Start typing...",
+  valueFormat,
+  format,
+  placeholder,
   className = "",
   disabled = false,
   maxHeight = "600px",
   minHeight = "200px",
   maxWidth = "1424px",
   showToolbar = true,
+  theme = "light",
+  showStatusBar = false,
+  maxLength,
+  lengthUnit = "characters",
+  onLimitReached,
   autoFocus = false,
   linkUrlHandler,
+  linkOptions = {},
   imageUrlHandler,
+  sanitize = true,
+  sanitizeOptions: sanitizeOptionsProp,
+  outputStyle = "inline",
+  outputClassNames,
+  historyDepth = 100,
+  pasteMode = "clean",
+  onPaste,
+  onImageUpload,
+  onImageUploadError,
+  maxImageSize = 10 * 1024 * 1024,
+  acceptedImageTypes = DEFAULT_ACCEPTED_IMAGE_TYPES,
+  failedUploadBehavior = "remove",
+  mentionProviders,
+  onMentionsChange,
+  slashCommands = [],
+  extensions = defaultExtensions,
+  keymap,
+  inputRules = defaultInputRules,
+  collaboration,
+  locale = "en",
+  messages: messageOverrides,
   allowedFormats = {
     bold: true,
     italic: true,
@@ -72,43 +314,95 @@ const TextEditor: React.FC<TextEditorProps> = ({
     colors: true,
     fontSize: true,
     headings: true,
+    tables: true,
+    direction: true,
   },
-}) => {
+}, ref) => {
   const editorRef = useRef<HTMLDivElement>(null);
-  const linkDropdownRef = useRef<HTMLDivElement>(null);
-  const imageDropdownRef = useRef<HTMLDivElement>(null);
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const editorId = useId();
+  // Where focus goes back to when a dialog is dismissed: the toolbar button or the editor.
+  const dialogReturnFocusRef = useRef<HTMLElement | null>(null);
+  const imageFileInputRef = useRef<HTMLInputElement>(null);
+  const savedRangeRef = useRef<Range | null>(null);
+  const uploadCounterRef = useRef(0);
+  const lastValueRef = useRef<string | EditorDocument | null>(null);
+  const mentionQueryRef = useRef<MentionQuery | null>(null);
+  const dismissedMentionRef = useRef<{ node: Text; offset: number } | null>(null);
+  const mentionRequestRef = useRef(0);
+  const mentionIdsRef = useRef("");
+  const slashQueryRef = useRef<SlashQuery | null>(null);
+  const dismissedSlashRef = useRef<Text | null>(null);
+  const resolvedFormat: TextEditorValueFormat = valueFormat ?? format ?? "html";
+  const messages = getMessages(locale, messageOverrides);
+  const themeClasses = getEditorThemeClasses(theme);
+  const outputClasses = resolveOutputClassNames(outputClassNames);
+  // Class-based content is kept when loaded, whichever style the editor saves in.
+  const sanitizeOptions = withOutputClasses(sanitizeOptionsProp, outputClasses);
+  const resolveLabel = (label: EditorLabel) => (typeof label === "function" ? label(messages) : label);
+  const historyRef = useRef(createHistory({ depth: historyDepth }));
+  const [historyState, setHistoryState] = useState({ canUndo: false, canRedo: false });
   const [editorIsEmpty, setEditorIsEmpty] = useState(true);
-  const [showLinkDropdown, setShowLinkDropdown] = useState(false);
-  const [showImageDropdown, setShowImageDropdown] = useState(false);
+  const [activeDialog, setActiveDialog] = useState<EditorDialog | null>(null);
   const [linkUrl, setLinkUrl] = useState("");
   const [linkText, setLinkText] = useState("");
+  const [linkUrlInvalid, setLinkUrlInvalid] = useState(false);
   const [imageUrl, setImageUrl] = useState("");
   const [imageAlt, setImageAlt] = useState("");
-  const [textDirection, setTextDirection] = useState<'ltr' | 'rtl'>('ltr');
-
-  const [formattingState, setFormattingState] = useState({
-    bold: false,
-    italic: false,
-    underline: false,
-    strikeThrough: false,
-    alignLeft: false,
-    alignCenter: false,
-    alignRight: false,
-    orderedList: false,
-    unorderedList: false,
-  });
+  const [tablePickerSize, setTablePickerSize] = useState({ rows: 0, columns: 0 });
+  const [mentionMenu, setMentionMenu] = useState<{
+    items: MentionItem[];
+    activeIndex: number;
+    loading: boolean;
+    position: { top: number; left: number };
+  } | null>(null);
+  const [slashMenu, setSlashMenu] = useState<{
+    query: string;
+    activeIndex: number;
+    position: { top: number; left: number };
+  } | null>(null);
+  // Where dialogs open when there is no toolbar button to anchor them.
+  const [popupPosition, setPopupPosition] = useState<{ top: number; left: number } | undefined>();
+
+  const [formattingState, setFormattingState] = useState<TextEditorSelectionFormats>(EMPTY_SELECTION_FORMATS);
+  const [activeCommands, setActiveCommands] = useState<Record<string, boolean>>({});
+  // The toolbar control reached with Tab; arrow keys move between the others.
+  const [toolbarIndex, setToolbarIndex] = useState(0);
+  const collaborationRef = useRef<{
+    document: BlockDocument;
+    transport: CollaborationTransport;
+    clientId: string;
+    presence: string;
+    /** Set once local edits are sent; until then a new `value` is loaded as initial content. */
+    edited: boolean;
+  } | null>(null);
+  const [remotePeers, setRemotePeers] = useState<RemotePeer[]>([]);
+  const [findPanel, setFindPanel] = useState<{ replace: boolean; query: string; openCount: number } | null>(null);
+  const [textStats, setTextStats] = useState<TextStats>({ words: 0, characters: 0, readingTime: 0 });
+  const lengthRef = useRef(0);
+  const compositionLengthRef = useRef(0);
+  // Bumped on every content change so remote carets and search matches are found again.
+  const [contentRevision, setContentRevision] = useState(0);
+  const [activeCodeBlock, setActiveCodeBlock] = useState<HTMLPreElement | null>(null);
+  const [activeLink, setActiveLink] = useState<HTMLAnchorElement | null>(null);
+  const [selectedImage, setSelectedImage] = useState<HTMLImageElement | null>(null);
+
+  const enabledExtensions = extensions.filter(
+    extension =>
+      !FORMAT_EXTENSION_NAMES.includes(extension.name) ||
+      !!(allowedFormats as Record<string, boolean | undefined>)[extension.name],
+  );
+  // Later extensions replace earlier commands and shortcuts with the same name.
+  const commands: Record<string, EditorCommand> = Object.assign(
+    {},
+    ...enabledExtensions.map(extension => extension.commands || {}),
+  );
+  const shortcuts = mergeKeymaps(...enabledExtensions.map(extension => extension.shortcuts || {}), keymap || {});
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
-      if (linkDropdownRef.current && !linkDropdownRef.current.contains(event.target as Node)) {
-        setShowLinkDropdown(false);
-        setLinkUrl("");
-        setLinkText("");
-      }
-      if (imageDropdownRef.current && !imageDropdownRef.current.contains(event.target as Node)) {
-        setShowImageDropdown(false);
-        setImageUrl("");
-        setImageAlt("");
+      if (dialogRef.current && !dialogRef.current.contains(event.target as Node)) {
+        closeDialog();
       }
     };
 
@@ -118,6 +412,23 @@ const TextEditor: React.FC<TextEditorProps> = ({
     };
   }, []);
 
+  useEffect(() => {
+    if (!activeLink && !selectedImage) return;
+    // The link popover and image controls belong to the selection; hide them once the user works somewhere else on the page.
+    const handleOutside = (event: Event) => {
+      if (!editorRef.current?.parentElement?.contains(event.target as Node)) {
+        setActiveLink(null);
+        setSelectedImage(null);
+      }
+    };
+    document.addEventListener("mousedown", handleOutside);
+    document.addEventListener("focusin", handleOutside);
+    return () => {
+      document.removeEventListener("mousedown", handleOutside);
+      document.removeEventListener("focusin", handleOutside);
+    };
+  }, [activeLink, selectedImage]);
+
   useEffect(() => {
     if (autoFocus && editorRef.current) {
       editorRef.current.focus();
@@ -125,123 +436,407 @@ const TextEditor: React.FC<TextEditorProps> = ({
   }, [autoFocus]);
 
 
-  const handleChange = () => {
+  const syncHistoryState = () => {
+    setHistoryState({
+      canUndo: historyRef.current.canUndo(),
+      canRedo: historyRef.current.canRedo(),
+    });
+  };
+
+  useEffect(() => {
+    historyRef.current.setDepth(historyDepth);
+    syncHistoryState();
+  }, [historyDepth]);
+
+  const recordHistory = (group?: string) => {
+    if (!editorRef.current) return;
+    historyRef.current.record(
+      { html: getContentHtml(editorRef.current), selection: captureSelection(editorRef.current) },
+      group,
+    );
+    syncHistoryState();
+  };
+
+  const getOutputHtml = (style: OutputStyle = "inline") => {
+    if (!editorRef.current) return "";
+    const rawContent = enabledExtensions
+      .flatMap(extension => extension.serializeRules || [])
+      .reduce((html, rule) => rule(html), stripBlockIds(getContentHtml(editorRef.current)));
+    // The editor keeps inline styles while editing; classes are only written into the output.
+    const styledContent = style === "classes" ? migrateInlineStyles(rawContent, outputClasses) : rawContent;
+    return sanitize ? sanitizeHtml(styledContent, sanitizeOptions) : styledContent;
+  };
+
+  const handleChange = ({
+    record = true,
+    group,
+    remote = false,
+  }: { record?: boolean; group?: string; remote?: boolean } = {}) => {
     if (editorRef.current) {
-      const textContent = editorRef.current.textContent || "";
-      const content = editorRef.current.innerHTML;
-      
-      const arabicRegex = /[\u0600-\u06FF\u0750-\u077F]/;
-      if (arabicRegex.test(textContent)) {
-        setTextDirection('rtl');
-        editorRef.current.style.direction = 'rtl';
-        editorRef.current.style.textAlign = 'right';
-      } else {
-        setTextDirection('ltr');
-        editorRef.current.style.direction = 'ltr';
-        editorRef.current.style.textAlign = 'left';
+      lockMentions(editorRef.current);
+      applyBlockDirections(editorRef.current);
+      if (collaborationRef.current && !remote) {
+        publishChanges();
       }
-      
-      onChange(content);
+      setContentRevision(revision => revision + 1);
+      if (record) {
+        recordHistory(group);
+      }
+      updateTextStats(!remote);
+
+      const textContent = editorRef.current.textContent || "";
+      const content = getOutputHtml(resolvedFormat === "html" ? outputStyle : "inline");
+      const nextValue =
+        resolvedFormat === "json"
+          ? htmlToDocument(content)
+          : resolvedFormat === "markdown"
+            ? htmlToMarkdown(content)
+            : content;
+      lastValueRef.current = nextValue;
+      (onChange as (value: string | EditorDocument) => void)(nextValue);
       setEditorIsEmpty(textContent.trim() === "");
+
+      if (onMentionsChange) {
+        const mentionIds = getMentionIds(editorRef.current);
+        if (mentionIds.join("\n") !== mentionIdsRef.current) {
+          mentionIdsRef.current = mentionIds.join("\n");
+          onMentionsChange(mentionIds);
+        }
+      }
     }
   };
 
+  const getLength = (stats: TextStats) => (lengthUnit === "words" ? stats.words : stats.characters);
 
-  const wrapSelectionWithTag = (tagName: string) => {
-    if (!editorRef.current) return;
-    
-    const selection = window.getSelection();
-    
-    if (selection && selection.rangeCount > 0) {
-      const range = selection.getRangeAt(0);
+  const updateTextStats = (notify: boolean) => {
+    if (!editorRef.current || (!showStatusBar && maxLength === undefined)) return;
+    const stats = getTextStats(getPlainText(editorRef.current), locale);
+    const length = getLength(stats);
+    setTextStats(stats);
+    if (notify && maxLength !== undefined && length >= maxLength && lengthRef.current < maxLength) {
+      onLimitReached?.(stats);
+    }
+    lengthRef.current = length;
+  };
 
-      if (editorRef.current.contains(range.commonAncestorContainer)) {
-        const parentElement = range.commonAncestorContainer.parentElement;
-        
-        if (parentElement && parentElement.tagName.toLowerCase() === tagName.toLowerCase()) {
-          const parent = parentElement.parentNode;
-          if (parent) {
-            while (parentElement.firstChild) {
-              parent.insertBefore(parentElement.firstChild, parentElement);
-            }
-            parent.removeChild(parentElement);
-          }
-        } else {
-          if (!range.collapsed) {
-            const newNode = document.createElement(tagName);
-            newNode.appendChild(range.extractContents());
-            range.insertNode(newNode);
+  const notifyLimitReached = () => {
+    if (editorRef.current) onLimitReached?.(getTextStats(getPlainText(editorRef.current), locale));
+  };
 
-            selection.removeAllRanges();
-            const newRange = document.createRange();
-            newRange.selectNodeContents(newNode);
-            selection.addRange(newRange);
-          } else {
-            const newNode = document.createElement(tagName);
-            newNode.innerHTML = '&#8203;';
-            range.insertNode(newNode);
-            
-            const newRange = document.createRange();
-            newRange.selectNodeContents(newNode);
-            newRange.collapse(true);
-            selection.removeAllRanges();
-            selection.addRange(newRange);
-          }
-        }
+  /** How much longer the content may get when `range` is replaced, or `Infinity` without a limit. */
+  const getRemainingLength = (range: AbstractRange | null = getInsertionRange()): number => {
+    if (maxLength === undefined || !editorRef.current || !range) return Infinity;
+    return maxLength - countLength(replaceRangeText(editorRef.current, range, ""), lengthUnit, locale);
+  };
 
-        handleChange();
-        updateFormattingState();
+  /** Sends local edits to the other editors. */
+  const publishChanges = () => {
+    const session = collaborationRef.current;
+    if (!session || !editorRef.current) return;
+    const blocks = readBlocks(editorRef.current);
+    const { operations, ids } = session.document.update(blocks);
+    setBlockIds(blocks.map(block => block.element), ids);
+    if (operations.length > 0) {
+      session.edited = true;
+      session.transport.send({ type: "operations", clientId: session.clientId, operations });
+    }
+  };
+
+  /**
+   * Sends a `value` set before any local edit as initial content, so editors that load
+   * the same document after connecting merge it instead of each inserting a copy.
+   */
+  const publishLoadedValue = () => {
+    const session = collaborationRef.current;
+    if (!session || !editorRef.current) return;
+    const blocks = readBlocks(editorRef.current);
+    const { operations, ids } = session.document.load(blocks.map(block => block.html));
+    setBlockIds(blocks.map(block => block.element), ids);
+    session.transport.send({ type: "operations", clientId: session.clientId, operations });
+  };
+
+  const publishPresence = (
+    selection: CollaborationSelection | null = editorRef.current && getCollaborationSelection(editorRef.current),
+  ) => {
+    const session = collaborationRef.current;
+    if (!session || !collaboration) return;
+    const presence = JSON.stringify([collaboration.user, selection]);
+    if (presence === session.presence) return;
+    session.presence = presence;
+    session.transport.send({ type: "presence", clientId: session.clientId, user: collaboration.user, selection });
+  };
+
+  const getRenderedBlocks = (blocks: Block[]): Block[] =>
+    blocks.map(block => ({ id: block.id, html: sanitize ? sanitizeHtml(block.html, sanitizeOptions) : block.html }));
+
+  /** Shows remote changes; `previous` are the blocks before they were applied. */
+  const applyRemoteChanges = (previous: Block[]) => {
+    const session = collaborationRef.current;
+    if (!session || !editorRef.current) return;
+    const before = getRenderedBlocks(previous);
+    const blocks = getRenderedBlocks(session.document.blocks());
+    renderBlocks(editorRef.current, blocks);
+    handleChange({ record: false, remote: true });
+    // Undo steps are whole snapshots, so they take in the remote change and undo only local edits.
+    historyRef.current.map(entry => rebaseHistoryEntry(entry, before, blocks));
+    syncHistoryState();
+    updateFormattingState();
+  };
+
+  const handleCollaborationMessage = (message: CollaborationMessage) => {
+    const session = collaborationRef.current;
+    if (!session || message.clientId === session.clientId) return;
+
+    switch (message.type) {
+      case "hello":
+        session.transport.send({ type: "state", clientId: session.clientId, operations: session.document.snapshot() });
+        // Send presence again even if it did not change, for the newcomer.
+        session.presence = "";
+        publishPresence();
+        break;
+      case "operations":
+      case "state": {
+        const previous = session.document.blocks();
+        if (session.document.apply(message.operations)) applyRemoteChanges(previous);
+        break;
       }
-    } else {
-      editorRef.current.focus();
-      const newNode = document.createElement(tagName);
-      newNode.innerHTML = '&#8203;';
-      editorRef.current.appendChild(newNode);
-      
-      const newRange = document.createRange();
-      const newSelection = window.getSelection();
-      newRange.selectNodeContents(newNode);
-      newRange.collapse(true);
-      newSelection?.removeAllRanges();
-      newSelection?.addRange(newRange);
-      
-      handleChange();
-      updateFormattingState();
+      case "presence":
+        setRemotePeers(peers => [
+          ...peers.filter(peer => peer.clientId !== message.clientId),
+          { clientId: message.clientId, user: message.user, selection: message.selection },
+        ]);
+        break;
+      case "leave":
+        setRemotePeers(peers => peers.filter(peer => peer.clientId !== message.clientId));
+        break;
     }
   };
+  const collaborationHandlerRef = useRef(handleCollaborationMessage);
+  collaborationHandlerRef.current = handleCollaborationMessage;
 
-  const toggleBold = () => wrapSelectionWithTag("strong");
-  const toggleItalic = () => wrapSelectionWithTag("em");
-  const toggleUnderline = () => wrapSelectionWithTag("u");
-  const toggleStrikethrough = () => wrapSelectionWithTag("s");
+  const closeMentionMenu = () => {
+    mentionQueryRef.current = null;
+    mentionRequestRef.current += 1;
+    setMentionMenu(null);
+  };
 
-  const applyAlignment = (alignment: string) => {
-    applyFormat(
-      `justify${alignment.charAt(0).toUpperCase() + alignment.slice(1)}`,
-    );
+  const updateMentionMenu = () => {
+    if (!editorRef.current || !mentionProviders || mentionProviders.length === 0) return;
+    const match = findMentionQuery(editorRef.current, mentionProviders.map(provider => provider.trigger));
+    const dismissed = dismissedMentionRef.current;
+    if (!match || (dismissed && dismissed.node === match.node && dismissed.offset === match.offset)) {
+      if (mentionQueryRef.current) closeMentionMenu();
+      return;
+    }
+
+    const previous = mentionQueryRef.current;
+    mentionQueryRef.current = match;
+    const sameTrigger = previous && previous.node === match.node && previous.offset === match.offset;
+    if (sameTrigger && previous.query === match.query) return;
+
+    const provider = mentionProviders.find(candidate => candidate.trigger === match.trigger)!;
+    const triggerRange = document.createRange();
+    triggerRange.setStart(match.node, match.offset);
+    const position = getRangePosition(triggerRange, editorRef.current.parentElement!) || { top: 0, left: 0 };
+    const requestId = ++mentionRequestRef.current;
+
+    setMentionMenu(menu => ({
+      items: sameTrigger && menu ? menu.items : [],
+      activeIndex: 0,
+      loading: true,
+      position: sameTrigger && menu ? menu.position : position,
+    }));
+
+    provider
+      .search(match.query)
+      .catch(() => [] as MentionItem[])
+      .then(items => {
+        // A newer query has started or the menu was closed in the meantime.
+        if (requestId !== mentionRequestRef.current) return;
+        setMentionMenu(menu => menu && { ...menu, items, activeIndex: 0, loading: false });
+      });
   };
 
-  const toggleList = (
-    listType: "insertOrderedList" | "insertUnorderedList",
-  ) => {
-    applyFormat(listType);
+  const selectMention = (index: number) => {
+    const match = mentionQueryRef.current;
+    const item = mentionMenu?.items[index];
+    if (!match || !item || !match.node.isConnected) {
+      closeMentionMenu();
+      return;
+    }
+
+    const range = document.createRange();
+    range.setStart(match.node, match.offset);
+    range.setEnd(match.node, Math.min(match.node.length, match.offset + 1 + match.query.length));
+    range.deleteContents();
+
+    const mention = createMentionElement(item, match.trigger);
+    const space = document.createTextNode(" ");
+    range.insertNode(space);
+    range.insertNode(mention);
+    range.setStart(space, 1);
+    range.collapse(true);
+    const selection = window.getSelection();
+    selection?.removeAllRanges();
+    selection?.addRange(range);
+
+    closeMentionMenu();
+    handleChange();
+  };
+
+
+  const getSlashCommands = (): SlashCommand[] => [
+    ...enabledExtensions.flatMap(extension =>
+      (extension.slashCommands || []).map(({ command, value, label, description, ...item }) => ({
+        ...item,
+        label: resolveLabel(label),
+        description: description && resolveLabel(description),
+        run: () => {
+          runCommand(command, value);
+        },
+      })),
+    ),
+    ...slashCommands,
+  ];
+
+  const slashItems = slashMenu ? filterSlashCommands(getSlashCommands(), slashMenu.query) : [];
+
+  const closeSlashMenu = () => {
+    slashQueryRef.current = null;
+    setSlashMenu(null);
+  };
+
+  const updateSlashMenu = () => {
+    if (!editorRef.current) return;
+    const match = findSlashQuery(editorRef.current);
+    if (!match || match.node === dismissedSlashRef.current) {
+      if (slashQueryRef.current) closeSlashMenu();
+      return;
+    }
+
+    const previous = slashQueryRef.current;
+    slashQueryRef.current = match;
+    if (previous && previous.node === match.node) {
+      setSlashMenu(menu => menu && (menu.query === match.query ? menu : { ...menu, query: match.query, activeIndex: 0 }));
+      return;
+    }
+    const range = document.createRange();
+    range.setStart(match.node, 0);
+    const position = getRangePosition(range, editorRef.current.parentElement!) || { top: 0, left: 0 };
+    setSlashMenu({ query: match.query, activeIndex: 0, position });
+  };
+
+  const runSlashCommand = (command: SlashCommand | undefined) => {
+    const match = slashQueryRef.current;
+    closeSlashMenu();
+    if (!command || !match || !editorRef.current || !match.node.isConnected) return;
+
+    // Replace the typed "/query" with an empty line for the command to work on.
+    const lineBreak = document.createElement("br");
+    match.node.replaceWith(lineBreak);
+    const range = document.createRange();
+    range.setStartBefore(lineBreak);
+    range.collapse(true);
+    const selection = window.getSelection();
+    selection?.removeAllRanges();
+    selection?.addRange(range);
+
+    command.run({
+      element: editorRef.current,
+      insertHTML: html => {
+        document.execCommand("insertHTML", false, sanitize ? sanitizeHtml(html, sanitizeOptions) : html);
+      },
+    });
+    handleChange();
+    updateFormattingState();
+  };
+
+  const closeDialog = () => {
+    setActiveDialog(null);
+    setLinkUrl("");
+    setLinkText("");
+    setLinkUrlInvalid(false);
+    setImageUrl("");
+    setImageAlt("");
+    setTablePickerSize({ rows: 0, columns: 0 });
   };
 
-  const createLink = () => {
-    setShowLinkDropdown(true);
+  const openDialog = (dialog: EditorDialog) => {
+    if (dialog === "find" || dialog === "replace") {
+      // Start from the selected text, like a browser's find bar.
+      const selected = window.getSelection()?.toString() || "";
+      const query = selected && !selected.includes("\n") ? selected : "";
+      setFindPanel(current => ({
+        replace: dialog === "replace",
+        query: query || current?.query || "",
+        openCount: (current?.openCount ?? 0) + 1,
+      }));
+      return;
+    }
     const selection = window.getSelection();
-    if (selection && selection.toString()) {
-      setLinkText(selection.toString());
+    if (selection && selection.rangeCount > 0 && editorRef.current?.contains(selection.getRangeAt(0).commonAncestorContainer)) {
+      savedRangeRef.current = selection.getRangeAt(0).cloneRange();
+      if (dialog === "link" && selection.toString()) {
+        setLinkText(selection.toString());
+      }
+    }
+    const range = getInsertionRange();
+    if (range && editorRef.current) {
+      setPopupPosition(getRangePosition(range, editorRef.current.parentElement!) ?? undefined);
+    }
+    dialogReturnFocusRef.current = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    setActiveDialog(dialog);
+  };
+
+  /** Closes the dialog without applying it, and puts focus back where the dialog was opened from. */
+  const dismissDialog = () => {
+    closeDialog();
+    const returnFocus = dialogReturnFocusRef.current;
+    if (returnFocus && returnFocus !== editorRef.current && returnFocus.isConnected) {
+      returnFocus.focus();
+      return;
+    }
+    editorRef.current?.focus();
+    if (savedRangeRef.current) {
+      const selection = window.getSelection();
+      selection?.removeAllRanges();
+      selection?.addRange(savedRangeRef.current);
+    }
+  };
+
+  const handleDialogKeyDown = (event: React.KeyboardEvent<HTMLElement>) => {
+    if (event.key === "Escape") {
+      event.preventDefault();
+      dismissDialog();
+      return;
     }
+    trapFocus(event, event.currentTarget);
+  };
+
+  /** Completes the URL as typed and runs it through `linkUrlHandler`; null when it is not a valid link. */
+  const prepareLinkUrl = (url: string): string | null => {
+    const normalized = normalizeLinkUrl(url, linkOptions.defaultScheme);
+    const processedUrl = linkUrlHandler ? linkUrlHandler(normalized) : normalized;
+    if (!isValidLinkUrl(processedUrl, sanitizeOptions)) return null;
+    if (linkOptions.validate && !linkOptions.validate(processedUrl)) return null;
+    return processedUrl;
   };
 
   const insertLink = () => {
     if (linkUrl && linkText && editorRef.current) {
-      const processedUrl = linkUrlHandler ? linkUrlHandler(linkUrl) : linkUrl;
+      const processedUrl = prepareLinkUrl(linkUrl);
+      if (!processedUrl) {
+        setLinkUrlInvalid(true);
+        return;
+      }
       
       editorRef.current.focus();
 
-      const linkHTML = `<a href="${processedUrl}" style="color: #3b82f6; text-decoration: underline;" target="_blank" rel="noopener noreferrer">${linkText}</a>`;
+      const linkElement = document.createElement("a");
+      applyLinkAttributes(linkElement, processedUrl, linkOptions);
+      linkElement.style.color = CONTENT_COLORS.accent;
+      linkElement.style.textDecoration = "underline";
+      linkElement.textContent = linkText;
       
       try {
         const selection = window.getSelection();
@@ -250,40 +845,100 @@ const TextEditor: React.FC<TextEditorProps> = ({
           
           if (editorRef.current.contains(range.commonAncestorContainer)) {
             range.deleteContents();
-            
-            const tempDiv = document.createElement('div');
-            tempDiv.innerHTML = linkHTML;
-            const linkElement = tempDiv.firstChild as HTMLElement;
-            
             range.insertNode(linkElement);
             range.setStartAfter(linkElement);
             range.collapse(true);
             selection.removeAllRanges();
             selection.addRange(range);
           } else {
-            editorRef.current.insertAdjacentHTML('beforeend', linkHTML);
+            editorRef.current.appendChild(linkElement);
           }
         } else {
-          editorRef.current.insertAdjacentHTML('beforeend', linkHTML);
+          editorRef.current.appendChild(linkElement);
         }
       } catch {
-        editorRef.current.insertAdjacentHTML('beforeend', linkHTML);
+        editorRef.current.appendChild(linkElement);
       }
       
-      setShowLinkDropdown(false);
-      setLinkUrl("");
-      setLinkText("");
+      closeDialog();
       handleChange();
     }
   };
 
+  const selectLinkContents = (nodes: Node[], collapse: boolean) => {
+    if (nodes.length === 0) return;
+    const range = document.createRange();
+    range.setStartBefore(nodes[0]);
+    range.setEndAfter(nodes[nodes.length - 1]);
+    if (collapse) range.collapse(false);
+    const selection = window.getSelection();
+    selection?.removeAllRanges();
+    selection?.addRange(range);
+  };
+
+  const updateLink = (link: HTMLAnchorElement, edit: LinkEdit): boolean => {
+    const processedUrl = prepareLinkUrl(edit.url);
+    if (!processedUrl || !editorRef.current) return false;
+    applyLinkAttributes(link, processedUrl, linkOptions, edit.newTab);
+    // Setting the text drops formatting inside the link, so only do it when the text was changed.
+    if (edit.text.trim() && edit.text !== link.textContent) link.textContent = edit.text;
+    editorRef.current.focus();
+    selectLinkContents(Array.from(link.childNodes), true);
+    handleChange();
+    updateFormattingState();
+    return true;
+  };
+
+  const unlink = (link: HTMLAnchorElement) => {
+    if (!editorRef.current) return;
+    const contents = Array.from(link.childNodes);
+    removeLink(link);
+    editorRef.current.focus();
+    selectLinkContents(contents, false);
+    handleChange();
+    updateFormattingState();
+  };
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
+    const target = e.target as HTMLElement;
+    if (disabled || !commands.image || target.tagName !== "IMG" || !editorRef.current) return;
+    // Upload placeholders show a preview image that is not content yet.
+    if (target.closest(`[${TRANSIENT_ATTRIBUTE}]`)) return;
+    // Select the image as a whole, instead of putting the caret next to it or starting a drag.
+    e.preventDefault();
+    editorRef.current.focus();
+    selectImage(target as HTMLImageElement);
+  };
+
+  const changeImage = (image: HTMLImageElement, change: () => void) => {
+    if (!editorRef.current) return;
+    change();
+    handleChange();
+    editorRef.current.focus();
+    selectImage(image);
+    updateFormattingState();
+  };
+
+  const createImageElement = (src: string, alt: string) => {
+    const imageElement = document.createElement("img");
+    imageElement.src = src;
+    imageElement.alt = alt || messages.image;
+    imageElement.style.maxWidth = "100%";
+    imageElement.style.height = "auto";
+    imageElement.style.borderRadius = "8px";
+    imageElement.style.margin = "10px 0";
+    imageElement.style.display = "block";
+    return imageElement;
+  };
+
   const insertImage = () => {
     if (imageUrl && editorRef.current) {
       const processedUrl = imageUrlHandler ? imageUrlHandler(imageUrl) : imageUrl;
+      if (!isSafeUrl(processedUrl, sanitizeOptions, "image")) return;
       
       editorRef.current.focus();
       
-      const imgHTML = `<img src="${processedUrl}" alt="${imageAlt || 'Image'}" style="max-width: 100%; height: auto; border-radius: 8px; margin: 10px 0; display: block;" />`;
+      const imageElement = createImageElement(processedUrl, imageAlt);
       
       try {
         const selection = window.getSelection();
@@ -292,11 +947,6 @@ const TextEditor: React.FC<TextEditorProps> = ({
           
           if (editorRef.current.contains(range.commonAncestorContainer)) {
             range.deleteContents();
-            
-            const tempDiv = document.createElement('div');
-            tempDiv.innerHTML = imgHTML;
-            const imageElement = tempDiv.firstChild as HTMLElement;
-            
             range.insertNode(imageElement);
             
             range.setStartAfter(imageElement);
@@ -304,235 +954,380 @@ const TextEditor: React.FC<TextEditorProps> = ({
             selection.removeAllRanges();
             selection.addRange(range);
           } else {
-            editorRef.current.insertAdjacentHTML('beforeend', imgHTML);
+            editorRef.current.appendChild(imageElement);
           }
         } else {
-          editorRef.current.insertAdjacentHTML('beforeend', imgHTML);
+          editorRef.current.appendChild(imageElement);
         }
       } catch {
-        editorRef.current.insertAdjacentHTML('beforeend', imgHTML);
+        editorRef.current.appendChild(imageElement);
       }
       
-      setShowImageDropdown(false);
-      setImageUrl("");
-      setImageAlt("");
+      closeDialog();
       handleChange();
     }
   };
 
-  const insertBlockquote = () => {
-    if (!editorRef.current) return;
-    
+  const getInsertionRange = (): Range | null => {
+    if (!editorRef.current) return null;
     const selection = window.getSelection();
     if (selection && selection.rangeCount > 0) {
       const range = selection.getRangeAt(0);
-      
       if (editorRef.current.contains(range.commonAncestorContainer)) {
-        const blockquoteElement = document.createElement("blockquote");
-        blockquoteElement.style.borderLeft = "4px solid #3b82f6";
-        blockquoteElement.style.paddingLeft = "16px";
-        blockquoteElement.style.margin = "16px 0";
-        blockquoteElement.style.fontStyle = "italic";
-        blockquoteElement.style.color = "#6b7280";
-        
-        if (!range.collapsed) {
-          // There's selected text
-          blockquoteElement.appendChild(range.extractContents());
-        } else {
-          blockquoteElement.innerHTML = "Quote text here...";
-        }
+        return range;
+      }
+    }
+    if (savedRangeRef.current && editorRef.current.contains(savedRangeRef.current.commonAncestorContainer)) {
+      return savedRangeRef.current;
+    }
+    const range = document.createRange();
+    range.selectNodeContents(editorRef.current);
+    range.collapse(false);
+    return range;
+  };
 
-        range.deleteContents();
-        range.insertNode(blockquoteElement);
+  const uploadImages = (files: File[], targetRange?: Range | null) => {
+    if (!onImageUpload || !editorRef.current || disabled) return;
 
-        selection.removeAllRanges();
-        const newRange = document.createRange();
-        newRange.selectNodeContents(blockquoteElement);
-        selection.addRange(newRange);
+    const range = targetRange || getInsertionRange();
+    if (!range) return;
+    range.deleteContents();
 
-        handleChange();
+    files.forEach(file => {
+      const error = validateImageFile(file, { maxSize: maxImageSize, acceptedTypes: acceptedImageTypes });
+      if (error) {
+        onImageUploadError?.(new Error(error), file);
+        return;
       }
-    } else {
-      editorRef.current.focus();
-      const blockquoteElement = document.createElement("blockquote");
-      blockquoteElement.style.borderLeft = "4px solid #3b82f6";
-      blockquoteElement.style.paddingLeft = "16px";
-      blockquoteElement.style.margin = "16px 0";
-      blockquoteElement.style.fontStyle = "italic";
-      blockquoteElement.style.color = "#6b7280";
-      blockquoteElement.innerHTML = "Quote text here...";
-      
-      editorRef.current.appendChild(blockquoteElement);
-      
-      const newRange = document.createRange();
-      const newSelection = window.getSelection();
-      newRange.selectNodeContents(blockquoteElement);
-      newSelection?.removeAllRanges();
-      newSelection?.addRange(newRange);
-      
-      handleChange();
-    }
-  };
 
-  const changeFontSize = (size: string) => {
-    if (!editorRef.current) return;
-    
-    editorRef.current.focus();
-    
-    if (editorRef.current.innerHTML.trim() === '') {
-      editorRef.current.innerHTML = '<span>Text</span>';
-      const range = document.createRange();
-      const selection = window.getSelection();
-      range.selectNodeContents(editorRef.current.firstChild!);
-      selection?.removeAllRanges();
-      selection?.addRange(range);
-    }
-    
-    applyFormat("fontSize", size);
+      uploadCounterRef.current += 1;
+      const uploadId = `upload-${uploadCounterRef.current}`;
+      const previewUrl = URL.createObjectURL(file);
+      const placeholder = createUploadPlaceholder(uploadId, previewUrl, messages);
+
+      range.insertNode(placeholder);
+      range.setStartAfter(placeholder);
+      range.collapse(true);
+
+      onImageUpload(file, { onProgress: percent => setUploadProgress(placeholder, percent, messages) })
+        .then(url => {
+          const processedUrl = imageUrlHandler ? imageUrlHandler(url) : url;
+          if (!isSafeUrl(processedUrl, sanitizeOptions, "image")) {
+            throw new Error(`Upload returned an unsafe URL for "${file.name}".`);
+          }
+          // The placeholder may be gone if the user deleted it or undid past it.
+          if (!placeholder.isConnected) return;
+          placeholder.replaceWith(createImageElement(processedUrl, file.name));
+          handleChange();
+        })
+        .catch((uploadError: unknown) => {
+          const failure = uploadError instanceof Error ? uploadError : new Error(String(uploadError));
+          onImageUploadError?.(failure, file);
+          if (!placeholder.isConnected) return;
+          if (failedUploadBehavior === "mark") {
+            markUploadFailed(placeholder, failure.message, messages);
+            placeholder.addEventListener("click", () => placeholder.remove());
+          } else {
+            placeholder.remove();
+          }
+        })
+        .finally(() => URL.revokeObjectURL(previewUrl));
+    });
+
+    const selection = window.getSelection();
+    selection?.removeAllRanges();
+    selection?.addRange(range);
   };
 
-  const changeFontColor = (color: string) => {
-    if (!editorRef.current) return;
-    
-    editorRef.current.focus();
-    
-    if (editorRef.current.innerHTML.trim() === '') {
-      editorRef.current.innerHTML = '<span>Text</span>';
-      const range = document.createRange();
-      const selection = window.getSelection();
-      range.selectNodeContents(editorRef.current.firstChild!);
-      selection?.removeAllRanges();
-      selection?.addRange(range);
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (onImageUpload && Array.from(e.dataTransfer.types).includes("Files")) {
+      e.preventDefault();
+      e.dataTransfer.dropEffect = "copy";
     }
-    
-    applyFormat("foreColor", color);
   };
 
-  const changeBackgroundColor = (color: string) => {
-    if (!editorRef.current) return;
-    
-    editorRef.current.focus();
-    
-    if (editorRef.current.innerHTML.trim() === '') {
-      editorRef.current.innerHTML = '<span>Text</span>';
-      const range = document.createRange();
-      const selection = window.getSelection();
-      range.selectNodeContents(editorRef.current.firstChild!);
-      selection?.removeAllRanges();
-      selection?.addRange(range);
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    const files = getImageFiles(e.dataTransfer.files);
+    if (!onImageUpload || files.length === 0) return;
+    e.preventDefault();
+
+    let range: Range | null = null;
+    if (document.caretRangeFromPoint) {
+      range = document.caretRangeFromPoint(e.clientX, e.clientY);
+    } else if ("caretPositionFromPoint" in document) {
+      const position = (document as Document & {
+        caretPositionFromPoint: (x: number, y: number) => { offsetNode: Node; offset: number } | null;
+      }).caretPositionFromPoint(e.clientX, e.clientY);
+      if (position) {
+        range = document.createRange();
+        range.setStart(position.offsetNode, position.offset);
+        range.collapse(true);
+      }
     }
-    
-    applyFormat("hiliteColor", color);
+    if (range && !editorRef.current?.contains(range.commonAncestorContainer)) {
+      range = null;
+    }
+    uploadImages(files, range);
   };
 
-  const insertCodeBlock = () => {
-    const selection = window.getSelection();
-    if (selection && selection.rangeCount > 0) {
-      const range = selection.getRangeAt(0);
-      if (
-        editorRef.current &&
-        editorRef.current.contains(range.commonAncestorContainer)
-      ) {
-        const codeElement = document.createElement("code");
-        codeElement.appendChild(range.extractContents());
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (slashMenu) {
+      const count = slashItems.length;
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        if (count === 0) return;
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setSlashMenu({ ...slashMenu, activeIndex: (slashMenu.activeIndex + step + count) % count });
+        return;
+      }
+      if ((e.key === "Enter" || e.key === "Tab") && count > 0) {
+        e.preventDefault();
+        runSlashCommand(slashItems[slashMenu.activeIndex]);
+        return;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        dismissedSlashRef.current = slashQueryRef.current?.node ?? null;
+        closeSlashMenu();
+        return;
+      }
+    }
 
-        const preElement = document.createElement("pre");
-        preElement.style.backgroundColor = "#f3f4f6";
-        preElement.style.padding = "12px";
-        preElement.style.borderRadius = "6px";
-        preElement.style.overflow = "auto";
-        preElement.appendChild(codeElement);
+    if (mentionMenu) {
+      const count = mentionMenu.items.length;
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        if (count === 0) return;
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setMentionMenu({ ...mentionMenu, activeIndex: (mentionMenu.activeIndex + step + count) % count });
+        return;
+      }
+      if ((e.key === "Enter" || e.key === "Tab") && count > 0) {
+        e.preventDefault();
+        selectMention(mentionMenu.activeIndex);
+        return;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        const match = mentionQueryRef.current;
+        dismissedMentionRef.current = match ? { node: match.node, offset: match.offset } : null;
+        closeMentionMenu();
+        return;
+      }
+    }
 
-        range.deleteContents();
-        range.insertNode(preElement);
+    if (activeLink && e.key === "Escape") {
+      e.preventDefault();
+      setActiveLink(null);
+      return;
+    }
 
-        selection.removeAllRanges();
-        const newRange = document.createRange();
-        newRange.selectNodeContents(preElement);
-        selection.addRange(newRange);
+    if (selectedImage && e.key === "Escape") {
+      e.preventDefault();
+      // Leave the image with the caret just after it.
+      window.getSelection()?.collapseToEnd();
+      return;
+    }
 
+    // Code blocks take Tab and Enter before the keymap, so Tab indents there instead of moving between cells.
+    const codeBlock =
+      commands.codeBlock && editorRef.current
+        ? getCodeBlock(window.getSelection()?.anchorNode ?? null, editorRef.current)
+        : null;
+    if (codeBlock && !disabled && !e.nativeEvent.isComposing && !e.ctrlKey && !e.metaKey && !e.altKey) {
+      const result =
+        e.key === "Tab"
+          ? indentCode(codeBlock, e.shiftKey)
+          : e.key === "Enter" && !e.shiftKey
+            ? insertCodeNewline(codeBlock)
+            : false;
+      if (result) {
+        e.preventDefault();
+        if (result === "exit") exitCodeBlock(codeBlock);
         handleChange();
         updateFormattingState();
+        return;
       }
-    } else {
-      const preElement = document.createElement("pre");
-      preElement.style.backgroundColor = "#f3f4f6";
-      preElement.style.padding = "12px";
-      preElement.style.borderRadius = "6px";
-      preElement.style.overflow = "auto";
-      
-      const codeElement = document.createElement("code");
-      codeElement.innerHTML = "<br>";
-      preElement.appendChild(codeElement);
+    }
 
-      if (editorRef.current) {
-        const range = document.createRange();
-        const sel = window.getSelection();
+    // Handled here rather than on `document` so each editor on a page only sees its own keys.
+    const handled = Object.entries(shortcuts).some(
+      ([shortcut, command]) => matchShortcut(e.nativeEvent, shortcut) && runCommand(command),
+    );
+    if (handled) {
+      e.preventDefault();
+    }
+  };
 
-        if (sel && sel.rangeCount > 0) {
-          range.setStart(sel.anchorNode!, sel.anchorOffset);
-        } else {
-          range.setStart(
-            editorRef.current,
-            editorRef.current.childNodes.length,
-          );
-        }
-        range.collapse(true);
-        range.insertNode(preElement);
-        range.setStart(codeElement, 0);
-        range.collapse(true);
-        sel?.removeAllRanges();
-        sel?.addRange(range);
 
-        handleChange();
-        updateFormattingState();
-      }
-    }
+  const applyHistoryEntry = (entry: HistoryEntry | null) => {
+    if (!entry || !editorRef.current) return;
+    editorRef.current.focus();
+    editorRef.current.innerHTML = entry.html;
+    restoreSelection(editorRef.current, entry.selection);
+    syncHistoryState();
+    handleChange({ record: false });
+    updateFormattingState();
   };
 
+  const undo = () => {
+    if (disabled) return;
+    applyHistoryEntry(historyRef.current.undo());
+  };
+
+  const redo = () => {
+    if (disabled) return;
+    applyHistoryEntry(historyRef.current.redo());
+  };
+
+  // The typed characters are already recorded, so one undo turns the conversion back into them.
+  const applyInputRules = () => {
+    if (!editorRef.current) return;
+    const rules = inputRules.filter(
+      rule =>
+        (!rule.format || !!(allowedFormats as Record<string, boolean | undefined>)[rule.format]) &&
+        (rule.type === "mark" || !!commands[rule.command]),
+    );
+    const match = findInputRule(editorRef.current, rules);
+    if (!match) return;
+
+    historyRef.current.breakGroup();
+    if (match.rule.type === "block") {
+      removeBlockPrefix(match);
+      if (!runCommand(match.rule.command, match.rule.value)) handleChange();
+    } else {
+      applyMarkRule(match, match.rule.tagName);
+      handleChange();
+    }
+    updateFormattingState();
+  };
 
-  const undo = useCallback(() => applyFormat("undo"), []);
-  const redo = useCallback(() => applyFormat("redo"), []);
+  const handleInput = (e: React.FormEvent<HTMLDivElement>) => {
+    const inputType = (e.nativeEvent as InputEvent).inputType || "";
+    // Typing and deleting are grouped into one undo step per burst; everything else is its own step.
+    const group = inputType.startsWith("insertText")
+      ? "typing"
+      : inputType.startsWith("delete")
+        ? "deleting"
+        : undefined;
+    handleChange({ group });
+    if ((e.nativeEvent as InputEvent).data === " ") {
+      historyRef.current.breakGroup();
+    }
+    if (inputType === "insertText" && !(e.nativeEvent as InputEvent).isComposing) {
+      applyInputRules();
+    }
+    updateMentionMenu();
+    updateSlashMenu();
+  };
 
   const handlePaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
     e.preventDefault();
     const pastedText = e.clipboardData.getData("text/plain");
-    document.execCommand("insertText", false, pastedText);
-  };
+    const pastedHtml = e.clipboardData.getData("text/html");
+    const pastedImages = getImageFiles(e.clipboardData.files);
+
+    // Office apps also put a picture of the copied text on the clipboard, so only
+    // treat the paste as an image when there is no text alongside it.
+    if (onImageUpload && pastedImages.length > 0 && !pastedText.trim()) {
+      uploadImages(pastedImages);
+      return;
+    }
 
+    const remaining = getRemainingLength();
+    if (remaining <= 0) {
+      if (pastedText || pastedHtml) notifyLimitReached();
+      return;
+    }
+    const limitHtml = (html: string) => {
+      if (remaining === Infinity) return html;
+      const truncated = truncateHtml(html, remaining, lengthUnit, locale);
+      if (truncated !== html) notifyLimitReached();
+      return truncated;
+    };
 
-  const applyFormat = (command: string, value: any = null) => {
-    if (disabled) return;
-    
-    if (!editorRef.current) return;
-    
-    editorRef.current.focus();
-    
-    if (command.startsWith('justify') && editorRef.current.innerHTML.trim() === '') {
-      editorRef.current.innerHTML = '<div><br></div>';
-      const range = document.createRange();
-      const selection = window.getSelection();
-      range.selectNodeContents(editorRef.current.firstChild!);
-      range.collapse(true);
-      selection?.removeAllRanges();
-      selection?.addRange(range);
+    if (pasteMode === "plain" || (pasteMode === "clean" && !pastedHtml)) {
+      const transformed = onPaste?.({ html: plainTextToHtml(pastedText), text: pastedText, mode: pasteMode });
+      if (typeof transformed === "string") {
+        const html = sanitize ? sanitizeHtml(transformed, sanitizeOptions) : transformed;
+        document.execCommand("insertHTML", false, limitHtml(html));
+      } else {
+        const text = remaining === Infinity ? pastedText : truncateText(pastedText, remaining, lengthUnit, locale);
+        if (text !== pastedText) notifyLimitReached();
+        document.execCommand("insertText", false, text);
+      }
+      return;
     }
-    
-    if ((command === 'insertOrderedList' || command === 'insertUnorderedList') && editorRef.current.innerHTML.trim() === '') {
-      editorRef.current.innerHTML = '<div>List item</div>';
-      const range = document.createRange();
-      const selection = window.getSelection();
-      range.selectNodeContents(editorRef.current.firstChild!);
-      selection?.removeAllRanges();
-      selection?.addRange(range);
+
+    const html = enabledExtensions
+      .flatMap(extension => extension.pasteRules || [])
+      .reduce((current, rule) => rule(current), pasteMode === "clean" ? cleanPastedHtml(pastedHtml) : pastedHtml);
+    const transformed = onPaste?.({ html, text: pastedText, mode: pasteMode });
+    const result = typeof transformed === "string" ? transformed : html || plainTextToHtml(pastedText);
+
+    if (result) {
+      document.execCommand("insertHTML", false, limitHtml(sanitize ? sanitizeHtml(result, sanitizeOptions) : result));
     }
-    
+  };
+
+  const handleCompositionEnd = (e: React.CompositionEvent<HTMLDivElement>) => {
+    // IME input can't be cancelled while composing, so cut the committed text back to the limit instead.
+    const editor = editorRef.current;
+    const selection = window.getSelection();
+    const node = selection?.focusNode;
+    if (maxLength === undefined || !editor || !e.data || !node || node.nodeType !== Node.TEXT_NODE) return;
+    const length = countLength(getPlainText(editor), lengthUnit, locale);
+    if (length <= maxLength || length <= compositionLengthRef.current) return;
+
+    const text = node as Text;
+    const end = selection!.focusOffset;
+    const start = end - e.data.length;
+    if (start < 0 || text.data.slice(start, end) !== e.data) return;
+    text.deleteData(start, e.data.length);
+    const remaining = maxLength - countLength(getPlainText(editor), lengthUnit, locale);
+    const kept = truncateText(e.data, remaining, lengthUnit, locale);
+    text.insertData(start, kept);
+    selection!.collapse(text, start + kept.length);
+    handleChange();
+    notifyLimitReached();
+  };
+
+
+  const applyFormat = (command: string, value?: string) => {
+    if (disabled || !editorRef.current) return;
+    editorRef.current.focus();
     document.execCommand(command, false, value);
     handleChange();
     updateFormattingState();
   };
 
-  const updateFormattingState = () => {
+  const getCommandContext = (element: HTMLDivElement): EditorCommandContext => ({
+    element,
+    getRange: getInsertionRange,
+    execCommand: applyFormat,
+    insertHTML: html => {
+      document.execCommand("insertHTML", false, sanitize ? sanitizeHtml(html, sanitizeOptions) : html);
+      handleChange();
+      updateFormattingState();
+    },
+    commit: () => {
+      handleChange();
+      updateFormattingState();
+    },
+    openDialog,
+    undo,
+    redo,
+    messages,
+  });
+
+  /** Runs a registered command; returns `false` when it is unknown or did not apply. */
+  const runCommand = (name: string, value?: string): boolean => {
+    const command = commands[name];
+    if (disabled || !command || !editorRef.current) return false;
+    return command(getCommandContext(editorRef.current), value) !== false;
+  };
+
+  const readSelectionFormats = (): TextEditorSelectionFormats | null => {
     if (editorRef.current) {
       const selection = window.getSelection();
       if (selection && selection.rangeCount > 0) {
@@ -547,6 +1342,7 @@ const TextEditor: React.FC<TextEditorProps> = ({
         let isAlignRight = false;
         let isOrderedList = false;
         let isUnorderedList = false;
+        let tableCell: TableCell | null = null;
 
         if (anchorNode) {
           let currentNode: Node | null = anchorNode;
@@ -567,13 +1363,14 @@ const TextEditor: React.FC<TextEditorProps> = ({
               if (tagName === "s" || tagName === "strike") {
                 isStrikeThrough = true;
               }
-              if (element.style.textAlign === "left") {
+              const textAlign = element.style.textAlign || getClassTextAlign(element, outputClasses);
+              if (textAlign === "left") {
                 isAlignLeft = true;
               }
-              if (element.style.textAlign === "center") {
+              if (textAlign === "center") {
                 isAlignCenter = true;
               }
-              if (element.style.textAlign === "right") {
+              if (textAlign === "right") {
                 isAlignRight = true;
               }
               if (tagName === "ol") {
@@ -582,12 +1379,21 @@ const TextEditor: React.FC<TextEditorProps> = ({
               if (tagName === "ul") {
                 isUnorderedList = true;
               }
+              if (!tableCell && (tagName === "td" || tagName === "th")) {
+                tableCell = element as TableCell;
+              }
             }
             currentNode = currentNode.parentNode;
           }
         }
 
-        setFormattingState({
+        const focusCell = getClosestCell(selection.focusNode, editorRef.current);
+        const directionBlock = getDirectionBlock(anchorNode, editorRef.current);
+        const direction = directionBlock
+          ? getBlockDirection(directionBlock)
+          : detectDirection(editorRef.current.textContent || "");
+
+        return {
           bold: isBold,
           italic: isItalic,
           underline: isUnderline,
@@ -597,9 +1403,38 @@ const TextEditor: React.FC<TextEditorProps> = ({
           alignRight: isAlignRight,
           orderedList: isOrderedList,
           unorderedList: isUnorderedList,
-        });
+          inTable: !!tableCell,
+          tableHeaderRow: !!tableCell && hasHeaderRow(getTable(tableCell)!),
+          multipleCells: !!tableCell && !!focusCell && focusCell !== tableCell,
+          rtl: direction === "rtl",
+        };
       }
     }
+    return null;
+  };
+
+  const updateFormattingState = () => {
+    const formats = readSelectionFormats();
+    const selection = window.getSelection();
+    if (!formats || !selection || !editorRef.current) return;
+    setFormattingState(formats);
+
+    const ancestors: HTMLElement[] = [];
+    for (let node = selection.anchorNode; node && node !== editorRef.current; node = node.parentNode) {
+      if (node.nodeType === Node.ELEMENT_NODE) ancestors.push(node as HTMLElement);
+    }
+    setActiveCodeBlock(commands.codeLanguage ? getCodeBlock(selection.anchorNode, editorRef.current) : null);
+    setActiveLink(commands.link && selection.isCollapsed ? getLinkElement(selection.anchorNode, editorRef.current) : null);
+    setSelectedImage(commands.image ? getSelectedImage(selection, editorRef.current) : null);
+
+    const context = { element: editorRef.current, selection, ancestors, formats };
+    const active: Record<string, boolean> = {};
+    enabledExtensions.forEach(extension => {
+      Object.entries(extension.isActive || {}).forEach(([name, isActive]) => {
+        active[name] = isActive(context);
+      });
+    });
+    setActiveCommands(active);
   };
 
   const getButtonClassName = (isActive: boolean) => {
@@ -607,69 +1442,597 @@ const TextEditor: React.FC<TextEditorProps> = ({
       "rounded px-2 py-1.5 text-sm transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500",
       isActive 
         ? "bg-blue-500 text-white shadow-md" 
-        : "bg-gray-100 hover:bg-gray-200 text-gray-700 hover:scale-105",
+        : cn(themeClasses.button, "hover:scale-105"),
       disabled && "opacity-50 cursor-not-allowed"
     );
   };
 
   const getTooltipClassName = () => {
-    return "absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 px-2 py-1 text-xs text-white bg-gray-800 rounded opacity-0 group-hover:opacity-100 transition-opacity duration-200 pointer-events-none whitespace-nowrap z-10";
+    // Shown on hover, and when the control is reached with the keyboard.
+    return "absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 px-2 py-1 text-xs text-white bg-gray-800 rounded opacity-0 group-hover:opacity-100 group-has-[>:focus-visible]:opacity-100 transition-opacity duration-200 pointer-events-none whitespace-nowrap z-10";
+  };
+
+  const renderLinkDropdown = (position?: { top: number; left: number }) => (
+    <div 
+      ref={dialogRef}
+      role="dialog"
+      aria-modal="true"
+      aria-label={messages.insertLink}
+      onKeyDown={handleDialogKeyDown}
+      className={cn(
+        "absolute p-4 border rounded-lg shadow-lg z-20 w-80",
+        themeClasses.popover,
+        !position && "top-full start-0 mt-2"
+      )}
+      style={position}
+    >
+      <div className="space-y-3">
+        <div>
+          <label htmlFor={`${editorId}-link-text`} className="block text-sm font-medium mb-1">{messages.linkText}</label>
+          <input
+            autoFocus
+            type="text"
+            id={`${editorId}-link-text`}
+            value={linkText}
+            onChange={(e) => setLinkText(e.target.value)}
+            placeholder={messages.linkTextPlaceholder}
+            className={cn(
+              "w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500",
+              themeClasses.field
+            )}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                insertLink();
+              }
+            }}
+          />
+        </div>
+        <div>
+          <label htmlFor={`${editorId}-link-url`} className="block text-sm font-medium mb-1">{messages.linkUrl}</label>
+          <input
+            type="url"
+            id={`${editorId}-link-url`}
+            value={linkUrl}
+            aria-invalid={linkUrlInvalid}
+            onChange={(e) => {
+              setLinkUrl(e.target.value);
+              setLinkUrlInvalid(false);
+            }}
+            placeholder={messages.linkUrlPlaceholder}
+            className={cn(
+              "w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500",
+              themeClasses.field,
+              linkUrlInvalid && "border-red-500"
+            )}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                insertLink();
+              }
+            }}
+          />
+          {linkUrlInvalid && <p className="mt-1 text-xs text-red-600">{messages.invalidLinkUrl}</p>}
+        </div>
+        <div className="flex justify-end space-x-2">
+          <button
+            type="button"
+            onClick={dismissDialog}
+            className={cn("px-3 py-2 text-sm rounded-md transition-colors", themeClasses.secondaryButton)}
+          >
+            {messages.cancel}
+          </button>
+          <button
+            type="button"
+            onClick={insertLink}
+            disabled={!linkUrl || !linkText}
+            className="px-3 py-2 text-sm bg-blue-500 text-white rounded-md hover:bg-blue-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {messages.insert}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+
+  const renderImageDropdown = (position?: { top: number; left: number }) => (
+    <div 
+      ref={dialogRef}
+      role="dialog"
+      aria-modal="true"
+      aria-label={messages.insertImage}
+      onKeyDown={handleDialogKeyDown}
+      className={cn(
+        "absolute p-4 border rounded-lg shadow-lg z-20 w-80",
+        themeClasses.popover,
+        !position && "top-full start-0 mt-2"
+      )}
+      style={position}
+    >
+      <div className="space-y-3">
+        <div>
+          <label htmlFor={`${editorId}-image-url`} className="block text-sm font-medium mb-1">{messages.imageUrl}</label>
+          <input
+            autoFocus
+            type="url"
+            id={`${editorId}-image-url`}
+            value={imageUrl}
+            onChange={(e) => setImageUrl(e.target.value)}
+            placeholder={messages.imageUrlPlaceholder}
+            className={cn(
+              "w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500",
+              themeClasses.field
+            )}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                insertImage();
+              }
+            }}
+          />
+        </div>
+        <div>
+          <label htmlFor={`${editorId}-image-alt`} className="block text-sm font-medium mb-1">{messages.imageAlt}</label>
+          <input
+            type="text"
+            id={`${editorId}-image-alt`}
+            value={imageAlt}
+            onChange={(e) => setImageAlt(e.target.value)}
+            placeholder={messages.imageAltPlaceholder}
+            className={cn(
+              "w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500",
+              themeClasses.field
+            )}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                insertImage();
+              }
+            }}
+          />
+        </div>
+        {onImageUpload && (
+          <div>
+            <input
+              ref={imageFileInputRef}
+              type="file"
+              accept={acceptedImageTypes.join(",")}
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                const files = getImageFiles(e.target.files);
+                e.target.value = "";
+                closeDialog();
+                editorRef.current?.focus();
+                uploadImages(files, savedRangeRef.current);
+              }}
+            />
+            <button
+              type="button"
+              onClick={() => imageFileInputRef.current?.click()}
+              className={cn(
+                "w-full px-3 py-2 text-sm border border-dashed rounded-md transition-colors",
+                themeClasses.outlineButton
+              )}
+            >
+              {messages.uploadFromDevice}
+            </button>
+          </div>
+        )}
+        <div className="flex justify-end space-x-2">
+          <button
+            type="button"
+            onClick={dismissDialog}
+            className={cn("px-3 py-2 text-sm rounded-md transition-colors", themeClasses.secondaryButton)}
+          >
+            {messages.cancel}
+          </button>
+          <button
+            type="button"
+            onClick={insertImage}
+            disabled={!imageUrl}
+            className="px-3 py-2 text-sm bg-blue-500 text-white rounded-md hover:bg-blue-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {messages.insert}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+
+  const renderTablePicker = (position?: { top: number; left: number }) => (
+    <div
+      ref={dialogRef}
+      role="dialog"
+      aria-modal="true"
+      aria-label={messages.insertTable}
+      onKeyDown={handleDialogKeyDown}
+      className={cn(
+        "absolute p-3 border rounded-lg shadow-lg z-20",
+        themeClasses.popover,
+        !position && "top-full start-0 mt-2"
+      )}
+      style={position}
+      onMouseLeave={() => setTablePickerSize({ rows: 0, columns: 0 })}
+    >
+      <div
+        className="grid gap-1"
+        style={{ gridTemplateColumns: `repeat(${TABLE_PICKER_SIZE}, minmax(0, 1fr))` }}
+      >
+        {Array.from({ length: TABLE_PICKER_SIZE * TABLE_PICKER_SIZE }, (_, index) => {
+          const row = Math.floor(index / TABLE_PICKER_SIZE) + 1;
+          const column = (index % TABLE_PICKER_SIZE) + 1;
+          const isSelected = row <= tablePickerSize.rows && column <= tablePickerSize.columns;
+          return (
+            <button
+              key={index}
+              autoFocus={index === 0}
+              type="button"
+              onMouseEnter={() => setTablePickerSize({ rows: row, columns: column })}
+              onFocus={() => setTablePickerSize({ rows: row, columns: column })}
+              onClick={() => {
+                closeDialog();
+                runCommand("insertTable", `${row}x${column}`);
+              }}
+              className={cn(
+                "h-4 w-4 rounded-sm border transition-colors",
+                isSelected ? "border-blue-500 bg-blue-100" : themeClasses.field
+              )}
+              aria-label={messages.tableCellLabel(row, column)}
+            />
+          );
+        })}
+      </div>
+      <div className={cn("mt-2 text-center text-xs", themeClasses.muted)}>
+        {tablePickerSize.rows
+          ? messages.tableSize(tablePickerSize.rows, tablePickerSize.columns)
+          : messages.selectTableSize}
+      </div>
+    </div>
+  );
+
+  const getCommandLabel = (command: string) => {
+    for (const extension of enabledExtensions) {
+      const item =
+        extension.toolbar?.find(candidate => candidate.type === "button" && candidate.command === command) ||
+        extension.slashCommands?.find(candidate => candidate.command === command && candidate.value === undefined);
+      const label = item?.label ?? extension.labels?.[command];
+      if (label) return resolveLabel(label);
+    }
+    const words = command.replace(/([A-Z])/g, " $1").toLowerCase();
+    return words.charAt(0).toUpperCase() + words.slice(1);
+  };
+
+  const renderShortcutHelp = (position?: { top: number; left: number }) => {
+    const bindings: Record<string, string[]> = {};
+    Object.entries(shortcuts).forEach(([shortcut, command]) => {
+      if (!commands[command]) return;
+      (bindings[command] = bindings[command] || []).push(shortcut);
+    });
+
+    return (
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label={messages.keyboardShortcuts}
+        className={cn(
+          "absolute p-4 border rounded-lg shadow-lg z-20 w-80",
+          themeClasses.popover,
+          !position && "top-full end-0 mt-2"
+        )}
+        style={position}
+        onKeyDown={handleDialogKeyDown}
+      >
+        <div className="mb-2 flex items-center justify-between">
+          <span className="text-sm font-medium">{messages.keyboardShortcuts}</span>
+          <button
+            autoFocus
+            type="button"
+            onClick={dismissDialog}
+            className={cn("px-2 py-1 text-xs rounded-md transition-colors", themeClasses.secondaryButton)}
+          >
+            {messages.close}
+          </button>
+        </div>
+        <ul className="max-h-72 overflow-y-auto text-sm">
+          {Object.entries(bindings).map(([command, chords]) => (
+            <li key={command} className="flex items-center justify-between gap-2 py-1">
+              <span>{getCommandLabel(command)}</span>
+              <span className="flex flex-wrap justify-end gap-1">
+                {chords.map(chord => (
+                  <kbd key={chord} className={cn("rounded border px-1.5 py-0.5 font-mono text-xs", themeClasses.kbd)}>
+                    {formatShortcut(chord)}
+                  </kbd>
+                ))}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  };
+
+  const renderDialog = (dialog: EditorDialog, position?: { top: number; left: number }) => {
+    switch (dialog) {
+      case "link":
+        return renderLinkDropdown(position);
+      case "image":
+        return renderImageDropdown(position);
+      case "table":
+        return renderTablePicker(position);
+      case "shortcuts":
+        return renderShortcutHelp(position);
+    }
+  };
+
+  const toolbarState: EditorToolbarState = {
+    formats: formattingState,
+    active: activeCommands,
+    canUndo: historyState.canUndo,
+    canRedo: historyState.canRedo,
+  };
+  const toolbarItems = enabledExtensions
+    .flatMap(extension => extension.toolbar || [])
+    .filter(item => !item.isVisible || item.isVisible(toolbarState));
+  // Dialogs without a toolbar button to hang from open at the caret instead.
+  const anchoredDialogs = showToolbar
+    ? toolbarItems.flatMap(item => (item.type === "button" && item.dialog ? [item.dialog] : []))
+    : [];
+
+  const getShortcutBindings = (command: string) =>
+    Object.keys(shortcuts).filter(shortcut => shortcuts[shortcut] === command);
+
+  const getShortcutLabel = (command: string) =>
+    getShortcutBindings(command).map(shortcut => formatShortcut(shortcut)).join(" / ");
+
+  // Only one toolbar control is in the tab order at a time (a roving tabindex).
+  const toolbarFocusable = toolbarItems.map(item => !disabled && (!item.isEnabled || item.isEnabled(toolbarState)));
+  const rovingIndex = toolbarFocusable[toolbarIndex] ? toolbarIndex : toolbarFocusable.indexOf(true);
+
+  const handleToolbarKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    const target = event.target as HTMLElement;
+    // Keys typed in a dialog opened from the toolbar belong to the dialog.
+    if (target.closest('[role="dialog"]')) return;
+    const controls = Array.from(event.currentTarget.querySelectorAll<HTMLElement>("[data-toolbar-index]")).filter(
+      control => !control.matches(":disabled"),
+    );
+    const current = controls.indexOf(target);
+    if (current === -1) return;
+
+    const rtl = isRtlLocale(locale);
+    let next: number;
+    if (event.key === (rtl ? "ArrowLeft" : "ArrowRight")) next = (current + 1) % controls.length;
+    else if (event.key === (rtl ? "ArrowRight" : "ArrowLeft")) next = (current - 1 + controls.length) % controls.length;
+    else if (event.key === "Home") next = 0;
+    else if (event.key === "End") next = controls.length - 1;
+    else return;
+    event.preventDefault();
+    controls[next].focus();
+  };
+
+  const renderToolbarItem = (item: ToolbarItem, index: number) => {
+    const isEnabled = !item.isEnabled || item.isEnabled(toolbarState);
+    const label = resolveLabel(item.label);
+    const rovingProps = {
+      "data-toolbar-index": index,
+      tabIndex: index === rovingIndex ? 0 : -1,
+      onFocus: () => setToolbarIndex(index),
+    };
+
+    if (item.type === "dropdown") {
+      return (
+        <select
+          {...rovingProps}
+          onChange={e => runCommand(item.command, e.target.value)}
+          disabled={disabled || !isEnabled}
+          className={cn(
+            "rounded px-2 py-1 text-sm border focus:outline-none focus:ring-2 focus:ring-blue-500",
+            themeClasses.field,
+            (disabled || !isEnabled) && "opacity-50 cursor-not-allowed"
+          )}
+          aria-label={label}
+          defaultValue={item.defaultValue}
+        >
+          {item.options.map(option => (
+            <option key={option.value} value={option.value}>{resolveLabel(option.label)}</option>
+          ))}
+        </select>
+      );
+    }
+
+    if (item.type === "colorPicker") {
+      return (
+        <div className="relative group">
+          <input
+            {...rovingProps}
+            type="color"
+            onChange={e => runCommand(item.command, e.target.value)}
+            disabled={disabled || !isEnabled}
+            aria-label={label}
+            className={cn(
+              "w-8 h-8 rounded cursor-pointer border",
+              themeClasses.field,
+              (disabled || !isEnabled) && "opacity-50 cursor-not-allowed"
+            )}
+            title={label}
+          />
+          <div className={getTooltipClassName()}>{label}</div>
+        </div>
+      );
+    }
+
+    const isActive = !!activeCommands[item.command];
+    const shortcut = getShortcutLabel(item.command);
+    return (
+      <div className="relative group">
+        <button
+          {...rovingProps}
+          type="button"
+          // Keep the editor selection so the command applies to it.
+          onMouseDown={e => e.preventDefault()}
+          onClick={() => runCommand(item.command, item.value)}
+          disabled={disabled || !isEnabled}
+          className={cn(getButtonClassName(isActive), !isEnabled && "opacity-50 cursor-not-allowed")}
+          aria-label={label}
+          aria-keyshortcuts={getShortcutBindings(item.command).map(shortcut => formatAriaShortcut(shortcut)).join(" ") || undefined}
+          {...(item.dialog
+            ? { "aria-haspopup": "dialog" as const, "aria-expanded": activeDialog === item.dialog }
+            : { "aria-pressed": item.command in activeCommands ? isActive : undefined })}
+        >
+          {item.icon ?? label}
+          {(item.icon || shortcut) && (
+            <div className={getTooltipClassName()}>{shortcut ? `${label} (${shortcut})` : label}</div>
+          )}
+        </button>
+
+        {item.dialog && activeDialog === item.dialog && renderDialog(item.dialog)}
+      </div>
+    );
   };
 
   useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (
-        (e.ctrlKey || e.metaKey) &&
-        editorRef.current &&
-        document.activeElement === editorRef.current
+    if (!editorRef.current || value === lastValueRef.current) return;
+
+    const incoming =
+      typeof value !== "string"
+        ? documentToHtml(value)
+        : resolvedFormat === "markdown"
+          ? markdownToHtml(value)
+          : value;
+    const html = sanitize ? sanitizeHtml(incoming, sanitizeOptions) : incoming;
+    const isInitialValue = lastValueRef.current === null;
+    lastValueRef.current = value;
+    if (html !== editorRef.current.innerHTML) {
+      editorRef.current.innerHTML = html;
+      lockMentions(editorRef.current);
+      applyBlockDirections(editorRef.current);
+      const textContent = editorRef.current.textContent || "";
+      setEditorIsEmpty(textContent.trim() === "");
+    }
+    // Mentions already in the value were reported by whoever set it.
+    mentionIdsRef.current = getMentionIds(editorRef.current).join("\n");
+
+    if (!isInitialValue) {
+      if (collaborationRef.current && !collaborationRef.current.edited) publishLoadedValue();
+      else publishChanges();
+    }
+    updateTextStats(false);
+
+    const entry = { html: getContentHtml(editorRef.current), selection: null };
+    if (isInitialValue) {
+      historyRef.current.reset(entry);
+    } else {
+      historyRef.current.record(entry);
+    }
+    syncHistoryState();
+  }, [value]);
+
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!collaboration || !editor) return;
+    const { transport } = collaboration;
+    const clientId = createClientId();
+    const blockDocument = createBlockDocument(clientId);
+
+    // Editors that start from the same content agree on its block ids, so it is not duplicated.
+    const blocks = readBlocks(editor);
+    const initialOperations = createInitialOperations(blocks.map(block => block.html));
+    blockDocument.apply(initialOperations);
+    setBlockIds(
+      blocks.map(block => block.element),
+      initialOperations.map(operation => operation.id),
+    );
+    collaborationRef.current = { document: blockDocument, transport, clientId, presence: "", edited: false };
+
+    const unsubscribe = transport.subscribe(message => collaborationHandlerRef.current(message));
+    transport.send({ type: "hello", clientId });
+    transport.send({ type: "state", clientId, operations: blockDocument.snapshot() });
+
+    const leave = () => transport.send({ type: "leave", clientId });
+    window.addEventListener("pagehide", leave);
+    return () => {
+      window.removeEventListener("pagehide", leave);
+      leave();
+      unsubscribe();
+      collaborationRef.current = null;
+      setRemotePeers([]);
+    };
+  }, [collaboration?.transport]);
+
+  useEffect(() => {
+    if (editorRef.current) highlightCodeBlocks(editorRef.current);
+  }, [contentRevision, value]);
+
+  useEffect(() => {
+    const editor = editorRef.current;
+    return () => {
+      if (editor) clearCodeHighlights(editor);
+    };
+  }, []);
+
+  const remotePeerIds = remotePeers.map(peer => peer.clientId).join("\n");
+  useEffect(() => {
+    collaboration?.onPeersChange?.(remotePeers.map(peer => peer.user));
+  }, [remotePeerIds]);
+
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editor) return;
+
+    // Route the browser's own undo/redo (context menu, Edit menu) through the editor history.
+    const handleBeforeInput = (e: InputEvent) => {
+      if (e.inputType === "historyUndo") {
+        e.preventDefault();
+        undo();
+      } else if (e.inputType === "historyRedo") {
+        e.preventDefault();
+        redo();
+      } else if (
+        maxLength !== undefined &&
+        (e.inputType === "insertText" || e.inputType === "insertReplacementText" || e.inputType === "insertFromDrop")
       ) {
-        switch (e.key.toLowerCase()) {
-          case "b":
-            e.preventDefault();
-            toggleBold();
-            break;
-          case "i":
-            e.preventDefault();
-            toggleItalic();
-            break;
-          case "u":
-            e.preventDefault();
-            toggleUnderline();
-            break;
-          case "z":
-            e.preventDefault();
-            undo();
-            break;
-          case "y":
-            e.preventDefault();
-            redo();
-            break;
+        const text = e.data ?? e.dataTransfer?.getData("text/plain") ?? "";
+        const range = e.getTargetRanges()[0] ?? getInsertionRange();
+        const length = range ? countLength(replaceRangeText(editor, range, text), lengthUnit, locale) : 0;
+        // Content already over the limit, e.g. from `value`, can still be edited as long as it doesn't grow.
+        if (length > maxLength && length > lengthRef.current) {
+          e.preventDefault();
+          notifyLimitReached();
         }
       }
     };
 
-    document.addEventListener("keydown", handleKeyDown);
-
+    editor.addEventListener("beforeinput", handleBeforeInput);
     return () => {
-      document.removeEventListener("keydown", handleKeyDown);
+      editor.removeEventListener("beforeinput", handleBeforeInput);
     };
-  }, [toggleBold, toggleItalic, toggleUnderline, undo, redo]);
+  });
 
   useEffect(() => {
-    if (editorRef.current && value !== editorRef.current.innerHTML) {
-      editorRef.current.innerHTML = value;
-      const textContent = editorRef.current.textContent || "";
-      setEditorIsEmpty(textContent.trim() === "");
-    }
-  }, [value]);
+    if (!mentionMenu && !slashMenu) return;
+    // Close or refilter the open menu when the caret moves away from its query.
+    const handleSelectionChange = () => {
+      if (mentionMenu) updateMentionMenu();
+      if (slashMenu) updateSlashMenu();
+    };
+    document.addEventListener("selectionchange", handleSelectionChange);
+    return () => {
+      document.removeEventListener("selectionchange", handleSelectionChange);
+    };
+  });
 
   useEffect(() => {
     const handleSelectionChange = () => {
+      const selection = window.getSelection();
       if (
         editorRef.current &&
-        editorRef.current.contains(window.getSelection()?.anchorNode ?? null)
+        editorRef.current.contains(selection?.anchorNode ?? null)
       ) {
+        // Remember the caret so commands run from outside the editor land where the user left off.
+        savedRangeRef.current = selection!.getRangeAt(0).cloneRange();
         updateFormattingState();
+        publishPresence();
       }
     };
 
@@ -678,608 +2041,270 @@ const TextEditor: React.FC<TextEditorProps> = ({
     return () => {
       document.removeEventListener("selectionchange", handleSelectionChange);
     };
-  }, []);
-
-
-  return (
-    <div className={cn("stockfish-components", className)}>
-      <div className="mx-auto p-4" style={{ maxWidth }}>
-        {showToolbar && (
-          <div className="flex flex-wrap items-center gap-2 rounded-t-md border border-gray-300 bg-gray-50 p-2">
-
-            <div className="relative group">
-              <button
-                type="button"
-                onClick={undo}
-                disabled={disabled}
-                className={getButtonClassName(false)}
-                aria-label="Undo"
-              >
-                <svg
-                  className="h-4 w-4"
-                  viewBox="0 0 24 24"
-                  fill="none"
-                  stroke="currentColor"
-                  strokeWidth="2"
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                >
-                  <polyline points="1 4 1 10 7 10" />
-                  <path d="M3.51 15a9 9 0 1 0 2.13-9.36L1 10" />
-                </svg>
-                <div className={getTooltipClassName()}>Undo (Ctrl+Z)</div>
-              </button>
-            </div>
-            
-            <div className="relative group">
-              <button
-                type="button"
-                onClick={redo}
-                disabled={disabled}
-                className={getButtonClassName(false)}
-                aria-label="Redo"
-              >
-                <svg
-                  className="h-4 w-4"
-                  viewBox="0 0 24 24"
-                  fill="none"
-                  stroke="currentColor"
-                  strokeWidth="2"
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                >
-                  <polyline points="23 4 23 10 17 10" />
-                  <path d="M20.49 15a9 9 0 1 1-2.12-9.36L23 10" />
-                </svg>
-                <div className={getTooltipClassName()}>Redo (Ctrl+Y)</div>
-              </button>
-            </div>
+  });
 
-            <div className="w-px h-6 bg-gray-300 mx-1"/>
-
-            {allowedFormats.headings && (
-              <select
-                onChange={e => {
-                  if (!editorRef.current) return;
-                  
-                  editorRef.current.focus();
-                  
-                  if (editorRef.current.innerHTML.trim() === '') {
-                    editorRef.current.innerHTML = '<div>Heading text</div>';
-                    const range = document.createRange();
-                    const selection = window.getSelection();
-                    range.selectNodeContents(editorRef.current.firstChild!);
-                    selection?.removeAllRanges();
-                    selection?.addRange(range);
-                  }
-                  
-                  applyFormat("formatBlock", e.target.value);
-                }}
-                disabled={disabled}
-                className={cn(
-                  "rounded px-2 py-1 text-sm border border-gray-300 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500",
-                  disabled && "opacity-50 cursor-not-allowed"
-                )}
-                aria-label="Text format"
-              >
-                <option value="<p>">Paragraph</option>
-                <option value="<h1>">Heading 1</option>
-                <option value="<h2>">Heading 2</option>
-                <option value="<h3>">Heading 3</option>
-              </select>
-            )}
-            
-            {allowedFormats.fontSize && (
-              <select
-                onChange={e => {
-                  if (!editorRef.current) return;
-                  
-                  editorRef.current.focus();
-                  
-                  if (editorRef.current.innerHTML.trim() === '') {
-                    editorRef.current.innerHTML = '<span>Text</span>';
-                    const range = document.createRange();
-                    const selection = window.getSelection();
-                    range.selectNodeContents(editorRef.current.firstChild!);
-                    selection?.removeAllRanges();
-                    selection?.addRange(range);
-                  }
-                  
-                  changeFontSize(e.target.value);
-                }}
-                disabled={disabled}
-                className={cn(
-                  "rounded px-2 py-1 text-sm border border-gray-300 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500",
-                  disabled && "opacity-50 cursor-not-allowed"
-                )}
-                aria-label="Font size"
-                defaultValue="3"
-              >
-                <option value="1">Small</option>
-                <option value="3">Normal</option>
-                <option value="5">Large</option>
-                <option value="7">Huge</option>
-              </select>
-            )}
-            
-            {(allowedFormats.headings || allowedFormats.fontSize) && (
-              <div className="w-px h-6 bg-gray-300 mx-1"></div>
-            )}
 
-            {allowedFormats.bold && (
-              <div className="relative group">
-                <button
-                  type="button"
-                  onClick={toggleBold}
-                  disabled={disabled}
-                  className={getButtonClassName(formattingState.bold)}
-                  aria-label="Bold"
-                >
-                  <FaBold size={14} />
-                  <div className={getTooltipClassName()}>Bold (Ctrl+B)</div>
-                </button>
-              </div>
-            )}
-            
-            {allowedFormats.italic && (
-              <div className="relative group">
-                <button
-                  type="button"
-                  onClick={toggleItalic}
-                  disabled={disabled}
-                  className={getButtonClassName(formattingState.italic)}
-                  aria-label="Italic"
-                >
-                  <FaItalic size={14} />
-                  <div className={getTooltipClassName()}>Italic (Ctrl+I)</div>
-                </button>
-              </div>
-            )}
-            
-            {allowedFormats.underline && (
-              <div className="relative group">
-                <button
-                  type="button"
-                  onClick={toggleUnderline}
-                  disabled={disabled}
-                  className={getButtonClassName(formattingState.underline)}
-                  aria-label="Underline"
-                >
-                  <FaUnderline size={14} />
-                  <div className={getTooltipClassName()}>Underline (Ctrl+U)</div>
-                </button>
-              </div>
-            )}
-            
-            {allowedFormats.strikethrough && (
-              <div className="relative group">
-                <button
-                  type="button"
-                  onClick={toggleStrikethrough}
-                  disabled={disabled}
-                  className={getButtonClassName(formattingState.strikeThrough)}
-                  aria-label="Strikethrough"
-                >
-                  <FaStrikethrough size={14} />
-                  <div className={getTooltipClassName()}>Strikethrough</div>
-                </button>
-              </div>
-            )}
+  const insertNodeAtCaret = (node: Node) => {
+    if (disabled || !editorRef.current) return;
+    const range = getInsertionRange();
+    if (!range) return;
+    editorRef.current.focus();
 
-            {allowedFormats.alignment && (
-              <>
-                <div className="w-px h-6 bg-gray-300 mx-1"></div>
-                <div className="relative group">
-                  <button
-                    type="button"
-                    onClick={() => applyAlignment("left")}
-                    disabled={disabled}
-                    className={getButtonClassName(formattingState.alignLeft)}
-                    aria-label="Align left"
-                  >
-                    <FaAlignLeft size={14} />
-                    <div className={getTooltipClassName()}>Align Left</div>
-                  </button>
-                </div>
-                
-                <div className="relative group">
-                  <button
-                    type="button"
-                    onClick={() => applyAlignment("center")}
-                    disabled={disabled}
-                    className={getButtonClassName(formattingState.alignCenter)}
-                    aria-label="Align center"
-                  >
-                    <FaAlignCenter size={14} />
-                    <div className={getTooltipClassName()}>Align Center</div>
-                  </button>
-                </div>
-                
-                <div className="relative group">
-                  <button
-                    type="button"
-                    onClick={() => applyAlignment("right")}
-                    disabled={disabled}
-                    className={getButtonClassName(formattingState.alignRight)}
-                    aria-label="Align right"
-                  >
-                    <FaAlignRight size={14} />
-                    <div className={getTooltipClassName()}>Align Right</div>
-                  </button>
-                </div>
-              </>
-            )}
+    range.deleteContents();
+    const lastNode = node.nodeType === Node.DOCUMENT_FRAGMENT_NODE ? node.lastChild : node;
+    range.insertNode(node);
+    if (lastNode) {
+      range.setStartAfter(lastNode);
+    }
+    range.collapse(true);
+    const selection = window.getSelection();
+    selection?.removeAllRanges();
+    selection?.addRange(range);
 
-            {allowedFormats.lists && (
-              <>
-                <div className="w-px h-6 bg-gray-300 mx-1"></div>
-                <div className="relative group">
-                  <button
-                    type="button"
-                    onClick={() => toggleList("insertOrderedList")}
-                    disabled={disabled}
-                    className={getButtonClassName(formattingState.orderedList)}
-                    aria-label="Ordered list"
-                  >
-                    <FaListOl size={14} />
-                    <div className={getTooltipClassName()}>Numbered List</div>
-                  </button>
-                </div>
-                
-                <div className="relative group">
-                  <button
-                    type="button"
-                    onClick={() => toggleList("insertUnorderedList")}
-                    disabled={disabled}
-                    className={getButtonClassName(formattingState.unorderedList)}
-                    aria-label="Unordered list"
-                  >
-                    <FaListUl size={14} />
-                    <div className={getTooltipClassName()}>Bullet List</div>
-                  </button>
-                </div>
-              </>
-            )}
+    handleChange();
+    updateFormattingState();
+  };
 
-            {(allowedFormats.links || allowedFormats.images) && (
-              <div className="w-px h-6 bg-gray-300 mx-1"></div>
-            )}
+  useImperativeHandle(ref, () => ({
+    focus: () => {
+      if (!editorRef.current) return;
+      editorRef.current.focus();
+      const range = savedRangeRef.current;
+      if (range && editorRef.current.contains(range.commonAncestorContainer)) {
+        const selection = window.getSelection();
+        selection?.removeAllRanges();
+        selection?.addRange(range);
+      }
+    },
+    blur: () => editorRef.current?.blur(),
+    insertHTML: (html: string) => {
+      if (!editorRef.current) return;
+      const safeHtml = sanitize ? sanitizeHtml(html, sanitizeOptions) : html;
+      insertNodeAtCaret(document.createRange().createContextualFragment(safeHtml));
+    },
+    insertText: (text: string) => insertNodeAtCaret(document.createTextNode(text)),
+    getHTML: () => getOutputHtml(outputStyle),
+    getText: () => editorRef.current?.innerText || "",
+    clear: () => {
+      if (disabled || !editorRef.current) return;
+      editorRef.current.innerHTML = "";
+      savedRangeRef.current = null;
+      handleChange();
+      updateFormattingState();
+    },
+    execute: (command: string, value?: string) => {
+      if (disabled || !editorRef.current) return;
+      const range = getInsertionRange();
+      editorRef.current.focus();
+      if (range) {
+        const selection = window.getSelection();
+        selection?.removeAllRanges();
+        selection?.addRange(range);
+      }
+      runCommand(command, value);
+    },
+    getSelectionFormats: () => {
+      const anchorNode = window.getSelection()?.anchorNode ?? null;
+      if (!editorRef.current || !editorRef.current.contains(anchorNode)) {
+        return { ...EMPTY_SELECTION_FORMATS };
+      }
+      return readSelectionFormats() || { ...EMPTY_SELECTION_FORMATS };
+    },
+    undo,
+    redo,
+  }));
 
-            {allowedFormats.links && (
-              <div className="relative group">
-                <button
-                  type="button"
-                  onClick={createLink}
-                  disabled={disabled}
-                  className={getButtonClassName(false)}
-                  aria-label="Insert link"
-                >
-                  <FaLink size={14} />
-                  <div className={getTooltipClassName()}>Insert Link</div>
-                </button>
-                
-                {showLinkDropdown && (
-                  <div 
-                    ref={linkDropdownRef}
-                    className="absolute top-full left-0 mt-2 p-4 bg-white border border-gray-300 rounded-lg shadow-lg z-20 w-80"
-                  >
-                    <div className="space-y-3">
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-1">Link Text</label>
-                        <input
-                          type="text"
-                          value={linkText}
-                          onChange={(e) => setLinkText(e.target.value)}
-                          placeholder="Enter link text"
-                          className={cn(
-                            "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                          )}
-                          onKeyDown={(e) => {
-                            if (e.key === 'Enter') {
-                              e.preventDefault();
-                              insertLink();
-                            } else if (e.key === 'Escape') {
-                              setShowLinkDropdown(false);
-                              setLinkUrl("");
-                              setLinkText("");
-                            }
-                          }}
-                        />
-                      </div>
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-1">URL</label>
-                        <input
-                          type="url"
-                          value={linkUrl}
-                          onChange={(e) => setLinkUrl(e.target.value)}
-                          placeholder="https://example.com"
-                          className={cn(
-                            "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                          )}
-                          onKeyDown={(e) => {
-                            if (e.key === 'Enter') {
-                              e.preventDefault();
-                              insertLink();
-                            } else if (e.key === 'Escape') {
-                              setShowLinkDropdown(false);
-                              setLinkUrl("");
-                              setLinkText("");
-                            }
-                          }}
-                        />
-                      </div>
-                      <div className="flex justify-end space-x-2">
-                        <button
-                          type="button"
-                          onClick={() => {
-                            setShowLinkDropdown(false);
-                            setLinkUrl("");
-                            setLinkText("");
-                          }}
-                          className="px-3 py-2 text-sm bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors"
-                        >
-                          Cancel
-                        </button>
-                        <button
-                          type="button"
-                          onClick={insertLink}
-                          disabled={!linkUrl || !linkText}
-                          className="px-3 py-2 text-sm bg-blue-500 text-white rounded-md hover:bg-blue-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                        >
-                          Insert
-                        </button>
-                      </div>
-                    </div>
-                  </div>
-                )}
-              </div>
-            )}
-            
-            {allowedFormats.images && (
-              <div className="relative group">
-                <button
-                  type="button"
-                  onClick={() => setShowImageDropdown(true)}
-                  disabled={disabled}
-                  className={getButtonClassName(false)}
-                  aria-label="Insert image"
-                >
-                  <FaImage size={14} />
-                  <div className={getTooltipClassName()}>Insert Image</div>
-                </button>
-                
-                {showImageDropdown && (
-                  <div 
-                    ref={imageDropdownRef}
-                    className="absolute top-full left-0 mt-2 p-4 bg-white border border-gray-300 rounded-lg shadow-lg z-20 w-80"
-                  >
-                    <div className="space-y-3">
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-1">Image URL</label>
-                        <input
-                          type="url"
-                          value={imageUrl}
-                          onChange={(e) => setImageUrl(e.target.value)}
-                          placeholder="https://example.com/image.jpg"
-                          className={cn(
-                            "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                          )}
-                          onKeyDown={(e) => {
-                            if (e.key === 'Enter') {
-                              e.preventDefault();
-                              insertImage();
-                            } else if (e.key === 'Escape') {
-                              setShowImageDropdown(false);
-                              setImageUrl("");
-                              setImageAlt("");
-                            }
-                          }}
-                        />
-                      </div>
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-1">Alt Text (Optional)</label>
-                        <input
-                          type="text"
-                          value={imageAlt}
-                          onChange={(e) => setImageAlt(e.target.value)}
-                          placeholder="Describe the image"
-                          className={cn(
-                            "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                          )}
-                          onKeyDown={(e) => {
-                            if (e.key === 'Enter') {
-                              e.preventDefault();
-                              insertImage();
-                            } else if (e.key === 'Escape') {
-                              setShowImageDropdown(false);
-                              setImageUrl("");
-                              setImageAlt("");
-                            }
-                          }}
-                        />
-                      </div>
-                      <div className="flex justify-end space-x-2">
-                        <button
-                          type="button"
-                          onClick={() => {
-                            setShowImageDropdown(false);
-                            setImageUrl("");
-                            setImageAlt("");
-                          }}
-                          className="px-3 py-2 text-sm bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 transition-colors"
-                        >
-                          Cancel
-                        </button>
-                        <button
-                          type="button"
-                          onClick={insertImage}
-                          disabled={!imageUrl}
-                          className="px-3 py-2 text-sm bg-blue-500 text-white rounded-md hover:bg-blue-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                        >
-                          Insert
-                        </button>
-                      </div>
-                    </div>
-                  </div>
+  return (
+    <div className={cn("stockfish-components", className)} data-theme={theme}>
+      {/* The UI follows the locale; the content sets its own direction per block. */}
+      <div className="mx-auto p-4" style={{ maxWidth }} dir={isRtlLocale(locale) ? "rtl" : "ltr"}>
+        {showToolbar && (
+          <div
+            role="toolbar"
+            aria-label={messages.toolbar}
+            aria-controls={editorId}
+            onKeyDown={handleToolbarKeyDown}
+            className={cn("flex flex-wrap items-center gap-2 rounded-t-md border p-2", themeClasses.toolbar)}
+          >
+            {toolbarItems.map((item, index) => (
+              <React.Fragment key={`${item.command}-${index}`}>
+                {index > 0 && item.group !== toolbarItems[index - 1].group && (
+                  <div role="separator" aria-orientation="vertical" className={cn("w-px h-6 mx-1", themeClasses.divider)}></div>
                 )}
-              </div>
-            )}
-
-            {(allowedFormats.codeBlocks || allowedFormats.quotes) && (
-              <div className="w-px h-6 bg-gray-300 mx-1"></div>
-            )}
-
-            {allowedFormats.codeBlocks && (
-              <div className="relative group">
-                <button
-                  type="button"
-                  onClick={insertCodeBlock}
-                  disabled={disabled}
-                  className={getButtonClassName(false)}
-                  aria-label="Insert code block"
-                >
-                  <svg
-                    className="h-4 w-4"
-                    width="24"
-                    height="24"
-                    viewBox="0 0 24 24"
-                    strokeWidth="2"
-                    stroke="currentColor"
-                    fill="none"
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                  >
-                    <path stroke="none" d="M0 0h24v24H0z" />
-                    <polyline points="7 8 3 12 7 16" />
-                    <polyline points="17 8 21 12 17 16" />
-                    <line x1="14" y1="4" x2="10" y2="20" />
-                  </svg>
-                  <div className={getTooltipClassName()}>Code Block</div>
-                </button>
-              </div>
-            )}
-            
-            {allowedFormats.quotes && (
-              <div className="relative group">
-                <button
-                  type="button"
-                  onClick={insertBlockquote}
-                  disabled={disabled}
-                  className={getButtonClassName(false)}
-                  aria-label="Insert quote"
-                >
-                  <FaQuoteLeft size={14} />
-                  <div className={getTooltipClassName()}>Quote</div>
-                </button>
-              </div>
-            )}
-            
-            {allowedFormats.colors && (
-              <>
-                <div className="w-px h-6 bg-gray-300 mx-1"></div>
-                <div className="relative group">
-                  <input
-                    type="color"
-                    onChange={e => {
-                      if (!editorRef.current) return;
-                      
-                      editorRef.current.focus();
-                      
-                      if (editorRef.current.innerHTML.trim() === '') {
-                        editorRef.current.innerHTML = '<span>Text</span>';
-                        const range = document.createRange();
-                        const selection = window.getSelection();
-                        range.selectNodeContents(editorRef.current.firstChild!);
-                        selection?.removeAllRanges();
-                        selection?.addRange(range);
-                      }
-                      
-                      changeFontColor(e.target.value);
-                    }}
-                    disabled={disabled}
-                    aria-label="Font color"
-                    className={cn(
-                      "w-8 h-8 rounded cursor-pointer border border-gray-300",
-                      disabled && "opacity-50 cursor-not-allowed"
-                    )}
-                    title="Text Color"
-                  />
-                  <div className={getTooltipClassName()}>Text Color</div>
-                </div>
-                
-                <div className="relative group">
-                  <input
-                    type="color"
-                    onChange={e => {
-                      if (!editorRef.current) return;
-                      
-                      editorRef.current.focus();
-                      
-                      if (editorRef.current.innerHTML.trim() === '') {
-                        editorRef.current.innerHTML = '<span>Text</span>';
-                        const range = document.createRange();
-                        const selection = window.getSelection();
-                        range.selectNodeContents(editorRef.current.firstChild!);
-                        selection?.removeAllRanges();
-                        selection?.addRange(range);
-                      }
-                      
-                      changeBackgroundColor(e.target.value);
-                    }}
-                    disabled={disabled}
-                    aria-label="Background color"
-                    className={cn(
-                      "w-8 h-8 rounded cursor-pointer border border-gray-300",
-                      disabled && "opacity-50 cursor-not-allowed"
-                    )}
-                    title="Background Color"
-                  />
-                  <div className={getTooltipClassName()}>Background Color</div>
-                </div>
-              </>
-            )}
+                {renderToolbarItem(item, index)}
+              </React.Fragment>
+            ))}
           </div>
         )}
 
         <div className="relative">
           <div
             ref={editorRef}
+            id={editorId}
             contentEditable={!disabled}
+            role="textbox"
+            aria-multiline="true"
+            aria-label={messages.editor}
+            aria-placeholder={placeholder ?? messages.placeholder}
+            aria-disabled={disabled || undefined}
+            dir="auto"
             className={cn(
-              "editor-content break-words cursor-text border border-gray-300 p-4 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200",
-              showToolbar ? 'rounded-b-md border-t-0' : 'rounded-md',
-              textDirection === 'rtl' ? 'text-right' : 'text-left',
-              disabled ? 'bg-gray-100 cursor-not-allowed' : 'bg-white'
+              "editor-content break-words cursor-text border p-4 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200",
+              showToolbar ? 'border-t-0' : 'rounded-t-md',
+              !showStatusBar && 'rounded-b-md',
+              disabled ? cn(themeClasses.contentDisabled, 'cursor-not-allowed') : themeClasses.content
             )}
             style={{ 
-              whiteSpace: "pre-wrap",
-              direction: textDirection,
-              lineHeight: "1.6",
               minHeight,
               maxHeight,
               overflowY: "auto"
             }}
-            onInput={handleChange}
+            onInput={handleInput}
             onFocus={() => setEditorIsEmpty(false)}
             onBlur={() => {
               const textContent = editorRef.current?.textContent || "";
               setEditorIsEmpty(textContent.trim() === "");
+              if (mentionMenu) closeMentionMenu();
+              if (slashMenu) closeSlashMenu();
+              publishPresence(null);
+            }}
+            onKeyDown={handleKeyDown}
+            onMouseDown={handleMouseDown}
+            onCompositionStart={() => {
+              compositionLengthRef.current = lengthRef.current;
             }}
+            onCompositionEnd={handleCompositionEnd}
             onPaste={handlePaste}
+            onDragOver={handleDragOver}
+            onDrop={handleDrop}
             suppressContentEditableWarning={true}
           />
           {editorIsEmpty && (
-            <div className={cn(
-              "pointer-events-none absolute left-0 top-0 p-4 text-gray-400",
-              textDirection === 'rtl' ? 'text-right' : 'text-left'
-            )}>
-              {placeholder}
+            <div dir="auto" className={cn("pointer-events-none absolute inset-x-0 top-0 p-4 text-start", themeClasses.placeholder)}>
+              {placeholder ?? messages.placeholder}
             </div>
           )}
+          {mentionMenu && (
+            <SuggestionMenu
+              label={messages.mentionSuggestions}
+              items={mentionMenu.items.map(item => ({ key: item.id, label: item.label, description: item.description }))}
+              activeIndex={mentionMenu.activeIndex}
+              position={mentionMenu.position}
+              loading={mentionMenu.loading}
+              loadingText={messages.loading}
+              emptyText={messages.noResults}
+              themeClasses={themeClasses}
+              onSelect={selectMention}
+              onActiveIndexChange={index => setMentionMenu({ ...mentionMenu, activeIndex: index })}
+            />
+          )}
+          {slashMenu && (
+            <SuggestionMenu
+              label={messages.insertBlock}
+              items={slashItems.map(command => ({ key: command.id, label: command.label, description: command.description }))}
+              activeIndex={slashMenu.activeIndex}
+              position={slashMenu.position}
+              emptyText={messages.noMatchingBlocks}
+              themeClasses={themeClasses}
+              onSelect={index => runSlashCommand(slashItems[index])}
+              onActiveIndexChange={index => setSlashMenu({ ...slashMenu, activeIndex: index })}
+            />
+          )}
+          {findPanel && editorRef.current && (
+            <FindReplacePanel
+              editor={editorRef.current}
+              messages={messages}
+              themeClasses={themeClasses}
+              replace={findPanel.replace}
+              initialQuery={findPanel.query}
+              openCount={findPanel.openCount}
+              revision={contentRevision}
+              readOnly={disabled}
+              onReplace={change => {
+                if (disabled) return;
+                change();
+                handleChange();
+              }}
+              onClose={() => {
+                setFindPanel(null);
+                editorRef.current?.focus();
+              }}
+            />
+          )}
+          {activeCodeBlock?.isConnected && !disabled && editorRef.current && (
+            <CodeLanguagePicker
+              editor={editorRef.current}
+              block={activeCodeBlock}
+              messages={messages}
+              themeClasses={themeClasses}
+              revision={contentRevision}
+              onChange={language => {
+                editorRef.current?.focus();
+                if (savedRangeRef.current) {
+                  const selection = window.getSelection();
+                  selection?.removeAllRanges();
+                  selection?.addRange(savedRangeRef.current);
+                }
+                runCommand("codeLanguage", language);
+              }}
+            />
+          )}
+          {activeLink?.isConnected && !activeDialog && !disabled && editorRef.current && (
+            <LinkPopover
+              editor={editorRef.current}
+              link={activeLink}
+              messages={messages}
+              themeClasses={themeClasses}
+              revision={contentRevision}
+              onSave={edit => updateLink(activeLink, edit)}
+              onRemove={() => unlink(activeLink)}
+              onReturnFocus={() => {
+                editorRef.current?.focus();
+                selectLinkContents(Array.from(activeLink.childNodes), true);
+              }}
+            />
+          )}
+          {selectedImage?.isConnected && !activeDialog && !disabled && editorRef.current && (
+            <ImageControls
+              editor={editorRef.current}
+              image={selectedImage}
+              messages={messages}
+              themeClasses={themeClasses}
+              revision={contentRevision}
+              alignClassNames={outputClasses.imageAlign}
+              onChange={change => changeImage(selectedImage, change)}
+              onReturnFocus={() => {
+                editorRef.current?.focus();
+                selectImage(selectedImage);
+              }}
+            />
+          )}
+          {collaboration && <RemoteCursors peers={remotePeers} editor={editorRef.current} revision={contentRevision} />}
+          {activeDialog && !anchoredDialogs.includes(activeDialog) && renderDialog(activeDialog, popupPosition)}
         </div>
+
+        {showStatusBar && (
+          <div
+            className={cn(
+              "flex flex-wrap items-center gap-x-4 gap-y-1 rounded-b-md border border-t-0 px-3 py-1.5 text-xs",
+              themeClasses.statusBar
+            )}
+          >
+            <span>{messages.wordCount(textStats.words)}</span>
+            <span>{messages.characterCount(textStats.characters)}</span>
+            <span>{messages.readingTime(textStats.readingTime)}</span>
+            {maxLength !== undefined && (
+              <span className={cn("ms-auto tabular-nums", getLength(textStats) >= maxLength && "font-medium text-red-600")}>
+                {messages.lengthLimit(getLength(textStats), maxLength)}
+              </span>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
-};
+});
+
+TextEditor.displayName = "TextEditor";
 
 export default TextEditor;
\ No newline at end of file
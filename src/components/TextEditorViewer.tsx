@@ -0,0 +1,73 @@
+import React, { useEffect, useMemo, useRef } from "react";
+import { cn } from "../lib/utils";
+import { sanitizeHtml, type SanitizeOptions } from "../lib/sanitize";
+import { documentToHtml, type EditorDocument } from "../lib/document";
+import { markdownToHtml } from "../lib/markdown";
+import { prepareViewerHtml } from "../lib/viewer";
+import { resolveOutputClassNames, withOutputClasses, type OutputClassNamesOptions } from "../lib/outputStyle";
+import type { EditorTheme } from "../lib/theme";
+import { clearCodeHighlights, highlightCodeBlocks } from "../lib/highlight";
+import type { TextEditorValueFormat } from "./TextEditor";
+
+interface TextEditorViewerProps {
+  /** Content saved from a `TextEditor`, in the shape given by `valueFormat`. */
+  value: string | EditorDocument;
+  valueFormat?: TextEditorValueFormat;
+  className?: string;
+  /** Colors for quotes, code blocks, links and tables; the text color comes from the page. */
+  theme?: EditorTheme;
+  sanitize?: boolean;
+  sanitizeOptions?: Partial<SanitizeOptions>;
+  /** The class names the editor saved with `outputStyle="classes"`, if they were customized. */
+  outputClassNames?: OutputClassNamesOptions;
+  /** Give headings an `id` and a `#` link, so sections can be linked to. */
+  headingAnchors?: boolean;
+  /** Put before every heading `id` (default `"heading-"`), so they don't clash with ids on the page. */
+  headingIdPrefix?: string;
+  /** Open links to other pages in a new tab (default `true`). Links always get `rel="noopener noreferrer"`. */
+  openLinksInNewTab?: boolean;
+}
+
+/** Displays editor output read-only, with the editor's typography and sanitization. */
+const TextEditorViewer: React.FC<TextEditorViewerProps> = ({
+  value,
+  valueFormat = "html",
+  className = "",
+  theme = "light",
+  sanitize = true,
+  sanitizeOptions,
+  outputClassNames,
+  headingAnchors = false,
+  headingIdPrefix = "heading-",
+  openLinksInNewTab = true,
+}) => {
+  const contentRef = useRef<HTMLDivElement>(null);
+
+  const html = useMemo(() => {
+    const incoming =
+      typeof value !== "string"
+        ? documentToHtml(value)
+        : valueFormat === "markdown"
+          ? markdownToHtml(value)
+          : value;
+    const safeHtml = sanitize
+      ? sanitizeHtml(incoming, withOutputClasses(sanitizeOptions, resolveOutputClassNames(outputClassNames)))
+      : incoming;
+    return prepareViewerHtml(safeHtml, { headingAnchors, headingIdPrefix, openLinksInNewTab });
+  }, [value, valueFormat, sanitize, sanitizeOptions, outputClassNames, headingAnchors, headingIdPrefix, openLinksInNewTab]);
+
+  useEffect(() => {
+    const content = contentRef.current;
+    if (!content) return;
+    highlightCodeBlocks(content);
+    return () => clearCodeHighlights(content);
+  }, [html]);
+
+  return (
+    <div className={cn("stockfish-components", className)} data-theme={theme}>
+      <div ref={contentRef} dir="auto" className="editor-content break-words" dangerouslySetInnerHTML={{ __html: html }} />
+    </div>
+  );
+};
+
+export default TextEditorViewer;
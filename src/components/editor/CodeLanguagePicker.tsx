@@ -0,0 +1,78 @@
+import React, { useEffect, useLayoutEffect, useState } from "react";
+import { cn } from "../../lib/utils";
+import type { TextEditorMessages } from "../../lib/messages";
+import type { EditorThemeClasses } from "../../lib/theme";
+import { getCodeLanguage } from "../../lib/codeBlock";
+import { codeLanguages, resolveCodeLanguage } from "../../lib/highlight";
+
+interface CodeLanguagePickerProps {
+  editor: HTMLElement;
+  /** The `<pre>` holding the caret. */
+  block: HTMLElement;
+  messages: TextEditorMessages;
+  themeClasses: EditorThemeClasses;
+  /** Changes whenever the content does, so the picker follows its block. */
+  revision: number;
+  onChange: (language: string) => void;
+}
+
+/** A language select shown in the top corner of the code block being edited. */
+const CodeLanguagePicker: React.FC<CodeLanguagePickerProps> = ({
+  editor,
+  block,
+  messages,
+  themeClasses,
+  revision,
+  onChange,
+}) => {
+  const [position, setPosition] = useState<{ top: number; left: number } | null>(null);
+  const [viewport, setViewport] = useState(0);
+
+  useLayoutEffect(() => {
+    // Relative to the editor's wrapper, which the picker is rendered in.
+    const origin = editor.parentElement!.getBoundingClientRect();
+    const bounds = editor.getBoundingClientRect();
+    const rect = block.getBoundingClientRect();
+    const visible = rect.bottom > bounds.top && rect.top < bounds.bottom;
+    setPosition(visible ? { top: Math.max(rect.top, bounds.top) - origin.top + 4, left: rect.right - origin.left - 4 } : null);
+  }, [editor, block, revision, viewport]);
+
+  useEffect(() => {
+    const handleViewportChange = () => setViewport(current => current + 1);
+    editor.addEventListener("scroll", handleViewportChange);
+    window.addEventListener("resize", handleViewportChange);
+    return () => {
+      editor.removeEventListener("scroll", handleViewportChange);
+      window.removeEventListener("resize", handleViewportChange);
+    };
+  }, [editor]);
+
+  if (!position) return null;
+
+  const stored = getCodeLanguage(block);
+  const language = resolveCodeLanguage(stored)?.id ?? stored;
+
+  return (
+    <select
+      value={language}
+      aria-label={messages.codeLanguage}
+      title={messages.codeLanguage}
+      onChange={e => onChange(e.target.value)}
+      className={cn(
+        "absolute z-10 -translate-x-full rounded border px-1 py-0.5 text-xs opacity-80 hover:opacity-100 focus:opacity-100 focus:outline-none focus:ring-2 focus:ring-blue-500",
+        themeClasses.field,
+      )}
+      style={position}
+    >
+      <option value="">{messages.plainText}</option>
+      {language && !resolveCodeLanguage(language) && <option value={language}>{language}</option>}
+      {codeLanguages.map(option => (
+        <option key={option.id} value={option.id}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  );
+};
+
+export default CodeLanguagePicker;
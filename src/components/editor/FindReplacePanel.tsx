@@ -0,0 +1,257 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { FaChevronDown, FaChevronUp, FaTimes } from "react-icons/fa";
+import { cn } from "../../lib/utils";
+import type { TextEditorMessages } from "../../lib/messages";
+import type { EditorThemeClasses } from "../../lib/theme";
+import {
+  createSearchPattern,
+  findMatches,
+  replaceMatch,
+  setSearchHighlights,
+  type SearchOptions,
+} from "../../lib/search";
+
+interface FindReplacePanelProps {
+  editor: HTMLElement;
+  messages: TextEditorMessages;
+  themeClasses: EditorThemeClasses;
+  /** Whether the replace row is shown. */
+  replace: boolean;
+  initialQuery: string;
+  /** Changes each time the panel is opened again, to focus and select the query. */
+  openCount: number;
+  /** Changes whenever the content does, so matches are searched again. */
+  revision: number;
+  readOnly: boolean;
+  /** Runs a change to the content as one undo step. */
+  onReplace: (change: () => void) => void;
+  onClose: () => void;
+}
+
+
+const FindReplacePanel: React.FC<FindReplacePanelProps> = ({
+  editor,
+  messages,
+  themeClasses,
+  replace,
+  initialQuery,
+  openCount,
+  revision,
+  readOnly,
+  onReplace,
+  onClose,
+}) => {
+  const queryInputRef = useRef<HTMLInputElement>(null);
+  const [query, setQuery] = useState(initialQuery);
+  const [replacement, setReplacement] = useState("");
+  const [options, setOptions] = useState<SearchOptions>({ caseSensitive: false, wholeWord: false, regex: false });
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const optionButtonClass = (active: boolean) =>
+    cn(
+      "rounded px-1.5 py-0.5 font-mono text-xs transition-colors",
+      active ? "bg-blue-500 text-white" : themeClasses.ghostButton,
+    );
+  const iconButtonClass = cn(
+    "rounded p-1.5 disabled:cursor-not-allowed disabled:opacity-40",
+    themeClasses.ghostButton,
+  );
+  const textButtonClass = cn(
+    "rounded-md px-2 py-1 text-xs disabled:cursor-not-allowed disabled:opacity-40",
+    themeClasses.ghostButton,
+  );
+  const inputClass = cn(
+    "min-w-0 flex-1 rounded-md border px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500",
+    themeClasses.field,
+  );
+
+  const pattern = useMemo(() => createSearchPattern(query, options), [query, options]);
+  const matches = useMemo(
+    () => (pattern ? findMatches(editor, pattern, options) : []),
+    [pattern, options, editor, revision],
+  );
+  const active = matches.length > 0 ? Math.min(activeIndex, matches.length - 1) : -1;
+
+  useEffect(() => {
+    if (initialQuery) setQuery(initialQuery);
+    queryInputRef.current?.focus();
+    queryInputRef.current?.select();
+  }, [openCount]);
+
+  useEffect(() => {
+    const supported = setSearchHighlights(
+      editor,
+      matches.map(match => match.range),
+      active >= 0 ? matches[active].range : null,
+    );
+    if (!supported && active >= 0 && document.activeElement !== queryInputRef.current) {
+      // Without highlights, show the current match as the selection instead.
+      const selection = window.getSelection();
+      selection?.removeAllRanges();
+      selection?.addRange(matches[active].range);
+    }
+  }, [matches, active]);
+
+  useEffect(() => () => {
+    setSearchHighlights(editor, [], null);
+  }, [editor]);
+
+  const goTo = (index: number) => {
+    if (matches.length === 0) return;
+    const next = (index + matches.length) % matches.length;
+    setActiveIndex(next);
+    const node = matches[next].range.startContainer;
+    (node.nodeType === Node.ELEMENT_NODE ? (node as HTMLElement) : node.parentElement)?.scrollIntoView({
+      block: "nearest",
+    });
+  };
+
+  const replaceCurrent = () => {
+    if (active < 0) return;
+    const match = matches[active];
+    // The following match takes this one's place in the list, so the index stays.
+    onReplace(() => replaceMatch(match, match.replace(replacement)));
+  };
+
+  const replaceAll = () => {
+    if (matches.length === 0) return;
+    onReplace(() => {
+      // Back to front, so earlier ranges are not moved by the replacements.
+      [...matches].reverse().forEach(match => replaceMatch(match, match.replace(replacement)));
+    });
+  };
+
+  const toggleOption = (option: keyof SearchOptions) => {
+    setOptions(current => ({ ...current, [option]: !current[option] }));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLElement>, onEnter: () => void) => {
+    if (e.key === "Escape") {
+      e.preventDefault();
+      onClose();
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      onEnter();
+    }
+  };
+
+  const status = !query
+    ? ""
+    : !pattern
+      ? messages.invalidSearchPattern
+      : matches.length === 0
+        ? messages.noResults
+        : messages.matchCount(active + 1, matches.length);
+
+  return (
+    <div
+      role="search"
+      aria-label={messages.findAndReplace}
+      className={cn("absolute end-2 top-2 z-20 w-80 space-y-2 rounded-lg border p-2 shadow-lg", themeClasses.popover)}
+    >
+      <div className="flex items-center gap-1">
+        <input
+          ref={queryInputRef}
+          type="text"
+          value={query}
+          placeholder={messages.find}
+          aria-label={messages.find}
+          onChange={e => {
+            setQuery(e.target.value);
+            setActiveIndex(0);
+          }}
+          onKeyDown={e => handleKeyDown(e, () => goTo(e.shiftKey ? active - 1 : active + 1))}
+          className={cn(inputClass, query && !pattern && "border-red-400")}
+        />
+        <span aria-live="polite" className={cn("whitespace-nowrap text-xs", themeClasses.muted)}>
+          {status}
+        </span>
+        <button
+          type="button"
+          title={messages.previousMatch}
+          aria-label={messages.previousMatch}
+          disabled={matches.length === 0}
+          onClick={() => goTo(active - 1)}
+          className={iconButtonClass}
+        >
+          <FaChevronUp size={12} />
+        </button>
+        <button
+          type="button"
+          title={messages.nextMatch}
+          aria-label={messages.nextMatch}
+          disabled={matches.length === 0}
+          onClick={() => goTo(active + 1)}
+          className={iconButtonClass}
+        >
+          <FaChevronDown size={12} />
+        </button>
+        <button type="button" title={messages.close} aria-label={messages.close} onClick={onClose} className={iconButtonClass}>
+          <FaTimes size={12} />
+        </button>
+      </div>
+
+      <div className="flex items-center gap-1">
+        <button
+          type="button"
+          title={messages.matchCase}
+          aria-pressed={!!options.caseSensitive}
+          onClick={() => toggleOption("caseSensitive")}
+          className={optionButtonClass(!!options.caseSensitive)}
+        >
+          Aa
+        </button>
+        <button
+          type="button"
+          title={messages.wholeWord}
+          aria-pressed={!!options.wholeWord}
+          onClick={() => toggleOption("wholeWord")}
+          className={optionButtonClass(!!options.wholeWord)}
+        >
+          ab
+        </button>
+        <button
+          type="button"
+          title={messages.useRegex}
+          aria-pressed={!!options.regex}
+          onClick={() => toggleOption("regex")}
+          className={optionButtonClass(!!options.regex)}
+        >
+          .*
+        </button>
+      </div>
+
+      {replace && !readOnly && (
+        <div className="flex items-center gap-1">
+          <input
+            type="text"
+            value={replacement}
+            placeholder={messages.replaceWith}
+            aria-label={messages.replaceWith}
+            onChange={e => setReplacement(e.target.value)}
+            onKeyDown={e => handleKeyDown(e, replaceCurrent)}
+            className={inputClass}
+          />
+          <button
+            type="button"
+            disabled={active < 0}
+            onClick={replaceCurrent}
+            className={textButtonClass}
+          >
+            {messages.replace}
+          </button>
+          <button
+            type="button"
+            disabled={matches.length === 0}
+            onClick={replaceAll}
+            className={textButtonClass}
+          >
+            {messages.replaceAll}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FindReplacePanel;
@@ -0,0 +1,265 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from "react";
+import { FaAlignCenter, FaAlignLeft, FaAlignRight, FaPen } from "react-icons/fa";
+import { cn } from "../../lib/utils";
+import { trapFocus } from "../../lib/dom";
+import type { TextEditorMessages } from "../../lib/messages";
+import type { EditorThemeClasses } from "../../lib/theme";
+import {
+  MIN_IMAGE_WIDTH,
+  getImageAlign,
+  getImageCaption,
+  getImageFigure,
+  setImageAlign,
+  setImageCaption,
+  setImageWidth,
+  type ImageAlign,
+} from "../../lib/image";
+
+interface ImageControlsProps {
+  editor: HTMLElement;
+  /** The selected image. */
+  image: HTMLImageElement;
+  messages: TextEditorMessages;
+  themeClasses: EditorThemeClasses;
+  /** Changes whenever the content does, so the controls follow their image. */
+  revision: number;
+  /** The `outputStyle="classes"` alignment classes, for images loaded from class-based content. */
+  alignClassNames: Record<ImageAlign, string>;
+  /** Runs a change to the image as one undo step. */
+  onChange: (change: () => void) => void;
+  /** Selects the image again after the form is closed. */
+  onReturnFocus: () => void;
+}
+
+type Corner = "top-left" | "top-right" | "bottom-left" | "bottom-right";
+
+const CORNERS: Corner[] = ["top-left", "top-right", "bottom-left", "bottom-right"];
+
+const CORNER_CLASSES: Record<Corner, string> = {
+  "top-left": "-left-1.5 -top-1.5 cursor-nwse-resize",
+  "top-right": "-right-1.5 -top-1.5 cursor-nesw-resize",
+  "bottom-left": "-bottom-1.5 -left-1.5 cursor-nesw-resize",
+  "bottom-right": "-bottom-1.5 -right-1.5 cursor-nwse-resize",
+};
+
+/** An outline with resize handles over the selected image, and a toolbar for its alignment, alt text and caption. */
+const ImageControls: React.FC<ImageControlsProps> = ({
+  editor,
+  image,
+  messages,
+  themeClasses,
+  revision,
+  alignClassNames,
+  onChange,
+  onReturnFocus,
+}) => {
+  const altInputRef = useRef<HTMLInputElement>(null);
+  const [rect, setRect] = useState<{ top: number; left: number; width: number; height: number } | null>(null);
+  const [viewport, setViewport] = useState(0);
+  const [editing, setEditing] = useState<{ alt: string; caption: string } | null>(null);
+
+  useLayoutEffect(() => {
+    // Relative to the editor's wrapper, which the controls are rendered in.
+    const origin = editor.parentElement!.getBoundingClientRect();
+    const bounds = editor.getBoundingClientRect();
+    const box = image.getBoundingClientRect();
+    const visible = box.bottom > bounds.top && box.top < bounds.bottom;
+    setRect(
+      visible ? { top: box.top - origin.top, left: box.left - origin.left, width: box.width, height: box.height } : null,
+    );
+  }, [editor, image, revision, viewport]);
+
+  useEffect(() => {
+    const handleViewportChange = () => setViewport(current => current + 1);
+    editor.addEventListener("scroll", handleViewportChange);
+    window.addEventListener("resize", handleViewportChange);
+    // Images that are still loading change size once they arrive.
+    image.addEventListener("load", handleViewportChange);
+    return () => {
+      editor.removeEventListener("scroll", handleViewportChange);
+      window.removeEventListener("resize", handleViewportChange);
+      image.removeEventListener("load", handleViewportChange);
+    };
+  }, [editor, image]);
+
+  useEffect(() => {
+    setEditing(null);
+  }, [image]);
+
+  useEffect(() => {
+    if (editing) altInputRef.current?.focus();
+  }, [!!editing]);
+
+  if (!rect) return null;
+
+  const align = getImageAlign(image, alignClassNames);
+
+  const startResize = (corner: Corner, event: React.PointerEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    const handle = event.currentTarget;
+    handle.setPointerCapture(event.pointerId);
+    const startX = event.clientX;
+    const startWidth = image.getBoundingClientRect().width;
+    const container = (getImageFigure(image) ?? image).parentElement ?? editor;
+    const maxWidth = Math.max(MIN_IMAGE_WIDTH, container.clientWidth);
+    // Handles on the left grow the image when dragged further left.
+    const direction = corner.endsWith("left") ? -1 : 1;
+    let width = startWidth;
+
+    const handleMove = (move: PointerEvent) => {
+      width = Math.min(maxWidth, Math.max(MIN_IMAGE_WIDTH, startWidth + (move.clientX - startX) * direction));
+      setImageWidth(image, width);
+      setViewport(current => current + 1);
+    };
+    const handleUp = () => {
+      handle.removeEventListener("pointermove", handleMove);
+      handle.removeEventListener("pointerup", handleUp);
+      handle.removeEventListener("pointercancel", handleUp);
+      if (Math.round(width) !== Math.round(startWidth)) onChange(() => setImageWidth(image, width));
+    };
+    handle.addEventListener("pointermove", handleMove);
+    handle.addEventListener("pointerup", handleUp);
+    handle.addEventListener("pointercancel", handleUp);
+  };
+
+  const cancel = () => {
+    setEditing(null);
+    onReturnFocus();
+  };
+
+  const save = () => {
+    if (!editing) return;
+    const { alt, caption } = editing;
+    setEditing(null);
+    onChange(() => {
+      image.alt = alt.trim();
+      setImageCaption(image, caption);
+    });
+  };
+
+  const alignButtons: { align: ImageAlign; label: string; icon: React.ReactNode }[] = [
+    { align: "left", label: messages.alignLeft, icon: <FaAlignLeft size={12} /> },
+    { align: "center", label: messages.alignCenter, icon: <FaAlignCenter size={12} /> },
+    { align: "right", label: messages.alignRight, icon: <FaAlignRight size={12} /> },
+  ];
+  const inputClass = cn(
+    "w-full rounded-md border px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500",
+    themeClasses.field,
+  );
+
+  return (
+    <div className="pointer-events-none absolute z-10" style={rect}>
+      <div className="absolute inset-0 rounded ring-2 ring-blue-500" />
+      {CORNERS.map(corner => (
+        <div
+          key={corner}
+          aria-hidden="true"
+          title={messages.resizeImage}
+          onPointerDown={event => startResize(corner, event)}
+          className={cn(
+            "pointer-events-auto absolute h-3 w-3 touch-none rounded-sm border-2 border-white bg-blue-500 shadow",
+            CORNER_CLASSES[corner],
+          )}
+        />
+      ))}
+      <div
+        role="toolbar"
+        aria-label={messages.image}
+        // Keep the image selected while the buttons are used.
+        onMouseDown={event => event.preventDefault()}
+        className={cn(
+          "pointer-events-auto absolute start-2 top-2 flex items-center gap-1 rounded-md border p-1 shadow",
+          themeClasses.popover,
+        )}
+      >
+        {alignButtons.map(button => (
+          <button
+            key={button.align}
+            type="button"
+            aria-label={button.label}
+            aria-pressed={align === button.align}
+            title={button.label}
+            onClick={() => onChange(() => setImageAlign(image, button.align, alignClassNames))}
+            className={cn(
+              "rounded p-1.5",
+              align === button.align ? "bg-blue-500 text-white" : themeClasses.ghostButton,
+            )}
+          >
+            {button.icon}
+          </button>
+        ))}
+        <button
+          type="button"
+          aria-label={messages.editImage}
+          title={messages.editImage}
+          aria-expanded={!!editing}
+          onClick={() => setEditing(editing ? null : { alt: image.alt, caption: getImageCaption(image) })}
+          className={cn("rounded p-1.5", editing ? "bg-blue-500 text-white" : themeClasses.ghostButton)}
+        >
+          <FaPen size={12} />
+        </button>
+      </div>
+      {editing && (
+        <div
+          role="dialog"
+          aria-label={messages.editImage}
+          className={cn(
+            "pointer-events-auto absolute start-2 top-12 w-72 space-y-2 rounded-lg border p-3 shadow-lg",
+            themeClasses.popover,
+          )}
+          onKeyDown={event => {
+            if (event.key === "Escape") {
+              event.preventDefault();
+              cancel();
+            } else if (event.key === "Enter" && event.target instanceof HTMLInputElement) {
+              event.preventDefault();
+              save();
+            } else {
+              trapFocus(event, event.currentTarget);
+            }
+          }}
+        >
+          <div>
+            <label className="mb-1 block text-xs font-medium">{messages.imageAlt}</label>
+            <input
+              ref={altInputRef}
+              type="text"
+              value={editing.alt}
+              onChange={event => setEditing({ ...editing, alt: event.target.value })}
+              placeholder={messages.imageAltPlaceholder}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="mb-1 block text-xs font-medium">{messages.imageCaption}</label>
+            <input
+              type="text"
+              value={editing.caption}
+              onChange={event => setEditing({ ...editing, caption: event.target.value })}
+              placeholder={messages.imageCaptionPlaceholder}
+              className={inputClass}
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={cancel}
+              className={cn("rounded-md px-3 py-1.5 text-sm transition-colors", themeClasses.secondaryButton)}
+            >
+              {messages.cancel}
+            </button>
+            <button
+              type="button"
+              onClick={save}
+              className="rounded-md bg-blue-500 px-3 py-1.5 text-sm text-white transition-colors hover:bg-blue-600"
+            >
+              {messages.save}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImageControls;
@@ -0,0 +1,211 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from "react";
+import { FaExternalLinkAlt, FaPen, FaUnlink } from "react-icons/fa";
+import { cn } from "../../lib/utils";
+import { trapFocus } from "../../lib/dom";
+import type { TextEditorMessages } from "../../lib/messages";
+import type { EditorThemeClasses } from "../../lib/theme";
+
+export interface LinkEdit {
+  url: string;
+  text: string;
+  newTab: boolean;
+}
+
+interface LinkPopoverProps {
+  editor: HTMLElement;
+  /** The link holding the caret. */
+  link: HTMLAnchorElement;
+  messages: TextEditorMessages;
+  themeClasses: EditorThemeClasses;
+  /** Changes whenever the content does, so the popover follows its link. */
+  revision: number;
+  /** Returns false when the URL is rejected, to keep the form open. */
+  onSave: (edit: LinkEdit) => boolean;
+  onRemove: () => void;
+  /** Puts the caret back in the link after the form is closed. */
+  onReturnFocus: () => void;
+}
+
+/** Shows the URL of the link being edited, with actions to edit, open or remove it. */
+const LinkPopover: React.FC<LinkPopoverProps> = ({
+  editor,
+  link,
+  messages,
+  themeClasses,
+  revision,
+  onSave,
+  onRemove,
+  onReturnFocus,
+}) => {
+  const urlInputRef = useRef<HTMLInputElement>(null);
+  const [position, setPosition] = useState<{ top: number; left: number } | null>(null);
+  const [viewport, setViewport] = useState(0);
+  const [editing, setEditing] = useState<LinkEdit | null>(null);
+  const [invalid, setInvalid] = useState(false);
+  const href = link.getAttribute("href") || "";
+
+  useLayoutEffect(() => {
+    // Relative to the editor's wrapper, which the popover is rendered in.
+    const origin = editor.parentElement!.getBoundingClientRect();
+    const bounds = editor.getBoundingClientRect();
+    const rect = link.getBoundingClientRect();
+    const visible = rect.bottom > bounds.top && rect.top < bounds.bottom;
+    setPosition(visible ? { top: rect.bottom - origin.top + 4, left: Math.max(rect.left - origin.left, 0) } : null);
+  }, [editor, link, revision, viewport, editing]);
+
+  useEffect(() => {
+    const handleViewportChange = () => setViewport(current => current + 1);
+    editor.addEventListener("scroll", handleViewportChange);
+    window.addEventListener("resize", handleViewportChange);
+    return () => {
+      editor.removeEventListener("scroll", handleViewportChange);
+      window.removeEventListener("resize", handleViewportChange);
+    };
+  }, [editor]);
+
+  useEffect(() => {
+    setEditing(null);
+    setInvalid(false);
+  }, [link]);
+
+  useEffect(() => {
+    if (editing) urlInputRef.current?.focus();
+  }, [!!editing]);
+
+  if (!position) return null;
+
+  const cancel = () => {
+    setEditing(null);
+    onReturnFocus();
+  };
+
+  const save = () => {
+    if (!editing || !editing.url.trim()) return;
+    if (onSave(editing)) setEditing(null);
+    else setInvalid(true);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (!editing) return;
+    if (event.key === "Escape") {
+      event.preventDefault();
+      cancel();
+    } else if (event.key === "Enter" && event.target instanceof HTMLInputElement) {
+      event.preventDefault();
+      save();
+    } else {
+      trapFocus(event, event.currentTarget);
+    }
+  };
+
+  const iconButtonClass = cn("rounded p-1.5", themeClasses.ghostButton);
+  const inputClass = cn(
+    "w-full rounded-md border px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500",
+    themeClasses.field,
+  );
+
+  return (
+    <div
+      role="dialog"
+      aria-label={messages.link}
+      className={cn("absolute z-20 rounded-lg border shadow-lg", themeClasses.popover, editing ? "w-80 p-3" : "p-1")}
+      style={position}
+      onKeyDown={handleKeyDown}
+    >
+      {editing ? (
+        <div className="space-y-2">
+          <div>
+            <label className="mb-1 block text-xs font-medium">{messages.linkUrl}</label>
+            <input
+              ref={urlInputRef}
+              type="url"
+              value={editing.url}
+              aria-invalid={invalid}
+              onChange={e => {
+                setEditing({ ...editing, url: e.target.value });
+                setInvalid(false);
+              }}
+              placeholder={messages.linkUrlPlaceholder}
+              className={cn(inputClass, invalid && "border-red-500")}
+            />
+            {invalid && <p className="mt-1 text-xs text-red-600">{messages.invalidLinkUrl}</p>}
+          </div>
+          <div>
+            <label className="mb-1 block text-xs font-medium">{messages.linkText}</label>
+            <input
+              type="text"
+              value={editing.text}
+              onChange={e => setEditing({ ...editing, text: e.target.value })}
+              placeholder={messages.linkTextPlaceholder}
+              className={inputClass}
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={editing.newTab}
+              onChange={e => setEditing({ ...editing, newTab: e.target.checked })}
+            />
+            {messages.openInNewTab}
+          </label>
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={cancel}
+              className={cn("rounded-md px-3 py-1.5 text-sm transition-colors", themeClasses.secondaryButton)}
+            >
+              {messages.cancel}
+            </button>
+            <button
+              type="button"
+              onClick={save}
+              disabled={!editing.url.trim()}
+              className="rounded-md bg-blue-500 px-3 py-1.5 text-sm text-white transition-colors hover:bg-blue-600 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {messages.save}
+            </button>
+          </div>
+        </div>
+      ) : (
+        // Buttons keep the caret in the editor, so the popover stays open while they are used.
+        <div className="flex items-center gap-1" onMouseDown={e => e.preventDefault()}>
+          <span dir="ltr" title={href} className="max-w-[16rem] truncate px-2 text-sm">
+            {href}
+          </span>
+          <button
+            type="button"
+            aria-label={messages.editLink}
+            title={messages.editLink}
+            onClick={() => {
+              setInvalid(false);
+              setEditing({ url: href, text: link.textContent || "", newTab: link.target === "_blank" });
+            }}
+            className={iconButtonClass}
+          >
+            <FaPen size={12} />
+          </button>
+          <button
+            type="button"
+            aria-label={messages.openLink}
+            title={messages.openLink}
+            onClick={() => window.open(link.href, "_blank", "noopener,noreferrer")}
+            className={iconButtonClass}
+          >
+            <FaExternalLinkAlt size={12} />
+          </button>
+          <button
+            type="button"
+            aria-label={messages.removeLink}
+            title={messages.removeLink}
+            onClick={onRemove}
+            className={iconButtonClass}
+          >
+            <FaUnlink size={12} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LinkPopover;
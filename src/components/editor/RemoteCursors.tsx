@@ -0,0 +1,134 @@
+import React, { useEffect, useLayoutEffect, useState } from "react";
+import {
+  getCollaborationRange,
+  resolveCollaborationPosition,
+  type CollaborationSelection,
+  type CollaborationUser,
+} from "../../lib/collaboration";
+
+export interface RemotePeer {
+  clientId: string;
+  user: CollaborationUser;
+  selection: CollaborationSelection | null;
+}
+
+interface RemoteCursorsProps {
+  peers: RemotePeer[];
+  editor: HTMLElement | null;
+  /** Changes whenever the content does, so positions are measured again. */
+  revision: number;
+}
+
+interface Box {
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+}
+
+interface CursorLayout {
+  peer: RemotePeer;
+  highlights: Box[];
+  caret: Box;
+}
+
+const measure = (editor: HTMLElement, peer: RemotePeer): CursorLayout | null => {
+  const range = peer.selection && getCollaborationRange(editor, peer.selection);
+  if (!range) return null;
+  // Boxes are relative to the editor element, which the overlay covers.
+  const origin = editor.getBoundingClientRect();
+  const toBox = (rect: DOMRect): Box => ({
+    top: rect.top - origin.top,
+    left: rect.left - origin.left,
+    width: rect.width,
+    height: rect.height,
+  });
+
+  const highlights = range.collapsed
+    ? []
+    : Array.from(range.getClientRects())
+        .filter(rect => rect.width > 0)
+        .map(toBox);
+
+  const focus = resolveCollaborationPosition(editor, peer.selection!.focus);
+  if (!focus) return null;
+  const caretRange = document.createRange();
+  caretRange.setStart(focus.node, focus.offset);
+  let rect: DOMRect | undefined = caretRange.getClientRects()[0];
+  if (!rect) {
+    // Collapsed ranges in empty blocks have no client rects; use the block instead.
+    const node = focus.node;
+    rect = (node.nodeType === Node.ELEMENT_NODE ? (node as HTMLElement) : node.parentElement)?.getBoundingClientRect();
+  }
+  if (!rect) return null;
+  return { peer, highlights, caret: { ...toBox(rect), width: 2, height: rect.height || 20 } };
+};
+
+/** Carets, selections and name tags of the other people editing the document. */
+const RemoteCursors: React.FC<RemoteCursorsProps> = ({ peers, editor, revision }) => {
+  const [layouts, setLayouts] = useState<CursorLayout[]>([]);
+  const [viewport, setViewport] = useState(0);
+
+  useLayoutEffect(() => {
+    if (!editor) return;
+    setLayouts(peers.map(peer => measure(editor, peer)).filter((layout): layout is CursorLayout => !!layout));
+  }, [peers, editor, revision, viewport]);
+
+  useEffect(() => {
+    if (!editor) return;
+    const handleViewportChange = () => setViewport(current => current + 1);
+    editor.addEventListener("scroll", handleViewportChange);
+    window.addEventListener("resize", handleViewportChange);
+    return () => {
+      editor.removeEventListener("scroll", handleViewportChange);
+      window.removeEventListener("resize", handleViewportChange);
+    };
+  }, [editor]);
+
+  if (!editor) return null;
+
+  return (
+    <div
+      aria-hidden="true"
+      className="pointer-events-none absolute z-10 overflow-hidden"
+      style={{ top: editor.offsetTop, left: editor.offsetLeft, width: editor.offsetWidth, height: editor.offsetHeight }}
+    >
+      {layouts.map(({ peer, highlights, caret }) => (
+        <React.Fragment key={peer.clientId}>
+          {highlights.map((box, index) => (
+            <div
+              key={index}
+              className="absolute opacity-25"
+              style={{
+                top: box.top,
+                left: box.left,
+                width: box.width,
+                height: box.height,
+                backgroundColor: peer.user.color,
+              }}
+            />
+          ))}
+          <div
+            className="absolute"
+            style={{
+              top: caret.top,
+              left: caret.left,
+              width: caret.width,
+              height: caret.height,
+              backgroundColor: peer.user.color,
+            }}
+          >
+            <span
+              className="absolute bottom-full start-0 whitespace-nowrap rounded px-1 text-xs leading-4 text-white"
+              style={{ backgroundColor: peer.user.color }}
+            >
+              {peer.user.name}
+            </span>
+          </div>
+        </React.Fragment>
+      ))}
+    </div>
+  );
+};
+
+export default RemoteCursors;
@@ -0,0 +1,85 @@
+import React, { useEffect, useRef } from "react";
+import { cn } from "../../lib/utils";
+import type { EditorThemeClasses } from "../../lib/theme";
+
+export interface SuggestionMenuItem {
+  key: string;
+  label: string;
+  description?: string;
+}
+
+interface SuggestionMenuProps {
+  items: SuggestionMenuItem[];
+  activeIndex: number;
+  position: { top: number; left: number };
+  loading?: boolean;
+  emptyText?: string;
+  loadingText?: string;
+  label: string;
+  themeClasses: EditorThemeClasses;
+  onSelect: (index: number) => void;
+  onActiveIndexChange: (index: number) => void;
+}
+
+const SuggestionMenu: React.FC<SuggestionMenuProps> = ({
+  items,
+  activeIndex,
+  position,
+  loading = false,
+  emptyText = "No results",
+  loadingText = "Loading…",
+  label,
+  themeClasses,
+  onSelect,
+  onActiveIndexChange,
+}) => {
+  const listRef = useRef<HTMLUListElement>(null);
+
+  useEffect(() => {
+    const active = listRef.current?.children[activeIndex] as HTMLElement | undefined;
+    active?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  return (
+    <div
+      className={cn("absolute z-30 w-64 overflow-hidden rounded-lg border shadow-lg", themeClasses.popover)}
+      style={{ top: position.top, left: position.left }}
+      // Keep focus and the caret in the editor while clicking an item.
+      onMouseDown={e => e.preventDefault()}
+    >
+      {items.length === 0 ? (
+        <div className={cn("px-3 py-2 text-sm", themeClasses.muted)}>{loading ? loadingText : emptyText}</div>
+      ) : (
+        <ul ref={listRef} role="listbox" aria-label={label} className="max-h-60 overflow-y-auto py-1">
+          {items.map((item, index) => (
+            <li
+              key={item.key}
+              role="option"
+              aria-selected={index === activeIndex}
+              onMouseEnter={() => onActiveIndexChange(index)}
+              onClick={() => onSelect(index)}
+              className={cn(
+                "cursor-pointer px-3 py-1.5 text-sm",
+                index === activeIndex ? "bg-blue-500 text-white" : themeClasses.menuItem
+              )}
+            >
+              <div className="truncate">{item.label}</div>
+              {item.description && (
+                <div
+                  className={cn(
+                    "truncate text-xs",
+                    index === activeIndex ? "text-blue-100" : themeClasses.muted
+                  )}
+                >
+                  {item.description}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SuggestionMenu;
@@ -0,0 +1,668 @@
+import React from "react";
+import {
+  FaBold,
+  FaItalic,
+  FaUnderline,
+  FaStrikethrough,
+  FaAlignLeft,
+  FaAlignCenter,
+  FaAlignRight,
+  FaListOl,
+  FaListUl,
+  FaQuoteLeft,
+  FaLink,
+  FaImage,
+  FaTable,
+  FaKeyboard,
+  FaSearch,
+} from "react-icons/fa";
+import { MdFormatTextdirectionLToR, MdFormatTextdirectionRToL } from "react-icons/md";
+import type { EditorCommand, EditorExtension, EditorLabel, EditorToolbarState } from "../../lib/extensions";
+import { message, type TextEditorMessages } from "../../lib/messages";
+import { restoreSelection } from "../../lib/selection";
+import { getDirectionBlock } from "../../lib/bidi";
+import { CONTENT_COLORS } from "../../lib/theme";
+import { exitCodeBlock, getCodeBlock, setCodeLanguage } from "../../lib/codeBlock";
+import type { TextDirection } from "../../lib/document";
+import {
+  createTable,
+  deleteColumn,
+  deleteRow,
+  getAdjacentCell,
+  getClosestCell,
+  getSelectedCells,
+  getTable,
+  insertColumn,
+  insertRow,
+  mergeCells,
+  placeCaretInCell,
+  toggleHeaderRow,
+  type TableCell,
+} from "../../lib/table";
+
+const selectContents = (node: Node, collapse = false) => {
+  const range = document.createRange();
+  range.selectNodeContents(node);
+  if (collapse) range.collapse(true);
+  const selection = window.getSelection();
+  selection?.removeAllRanges();
+  selection?.addRange(range);
+};
+
+interface Placeholder {
+  tagName: "div" | "span";
+  /** Selected so the command applies to it; without text the caret goes into an empty line. */
+  text?: (messages: TextEditorMessages) => string;
+}
+
+// `execCommand` needs something to act on, so an empty editor gets placeholder content first.
+const fillEmptyEditor = (element: HTMLElement, placeholder: Placeholder, messages: TextEditorMessages) => {
+  if (element.innerHTML.trim() !== "") return;
+  const block = document.createElement(placeholder.tagName);
+  if (placeholder.text) {
+    block.textContent = placeholder.text(messages);
+  } else {
+    block.appendChild(document.createElement("br"));
+  }
+  element.replaceChildren(block);
+  selectContents(block, !placeholder.text);
+};
+
+const execWithPlaceholder = (command: string, placeholder: Placeholder): EditorCommand => (context, value) => {
+  context.element.focus();
+  fillEmptyEditor(context.element, placeholder, context.messages);
+  context.execCommand(command, value);
+};
+
+const execWithValue = (command: string, placeholder: Placeholder): EditorCommand => (context, value) => {
+  if (!value) return false;
+  return execWithPlaceholder(command, placeholder)(context, value);
+};
+
+const TEXT_PLACEHOLDER: Placeholder = { tagName: "span", text: message("textPlaceholder") };
+
+const toggleInlineTag = (tagName: string): EditorCommand => ({ element, commit }) => {
+  const selection = window.getSelection();
+
+  if (selection && selection.rangeCount > 0) {
+    const range = selection.getRangeAt(0);
+    if (!element.contains(range.commonAncestorContainer)) return;
+
+    const parentElement = range.commonAncestorContainer.parentElement;
+    if (parentElement && parentElement.tagName.toLowerCase() === tagName) {
+      const parent = parentElement.parentNode;
+      if (parent) {
+        while (parentElement.firstChild) {
+          parent.insertBefore(parentElement.firstChild, parentElement);
+        }
+        parent.removeChild(parentElement);
+      }
+    } else if (!range.collapsed) {
+      const newNode = document.createElement(tagName);
+      newNode.appendChild(range.extractContents());
+      range.insertNode(newNode);
+      selectContents(newNode);
+    } else {
+      const newNode = document.createElement(tagName);
+      newNode.innerHTML = "&#8203;";
+      range.insertNode(newNode);
+      selectContents(newNode, true);
+    }
+  } else {
+    element.focus();
+    const newNode = document.createElement(tagName);
+    newNode.innerHTML = "&#8203;";
+    element.appendChild(newNode);
+    selectContents(newNode, true);
+  }
+  commit();
+};
+
+const insertBlockquote: EditorCommand = ({ element, commit, messages }) => {
+  const blockquoteElement = document.createElement("blockquote");
+  blockquoteElement.style.borderInlineStart = `4px solid ${CONTENT_COLORS.accent}`;
+  blockquoteElement.style.paddingInlineStart = "16px";
+  blockquoteElement.style.margin = "16px 0";
+  blockquoteElement.style.fontStyle = "italic";
+  blockquoteElement.style.color = CONTENT_COLORS.muted;
+
+  const selection = window.getSelection();
+  if (selection && selection.rangeCount > 0) {
+    const range = selection.getRangeAt(0);
+    if (!element.contains(range.commonAncestorContainer)) return;
+
+    if (!range.collapsed) {
+      blockquoteElement.appendChild(range.extractContents());
+    } else {
+      blockquoteElement.textContent = messages.quotePlaceholder;
+    }
+    range.deleteContents();
+    range.insertNode(blockquoteElement);
+  } else {
+    element.focus();
+    blockquoteElement.textContent = messages.quotePlaceholder;
+    element.appendChild(blockquoteElement);
+  }
+  selectContents(blockquoteElement);
+  commit();
+};
+
+const insertCodeBlock: EditorCommand = ({ element, commit }, language) => {
+  const preElement = document.createElement("pre");
+  preElement.style.backgroundColor = CONTENT_COLORS.codeBackground;
+  preElement.style.padding = "12px";
+  preElement.style.borderRadius = "6px";
+  preElement.style.overflow = "auto";
+  const codeElement = document.createElement("code");
+  if (language) codeElement.className = `language-${language}`;
+  preElement.appendChild(codeElement);
+
+  const selection = window.getSelection();
+  if (selection && selection.rangeCount > 0) {
+    const range = selection.getRangeAt(0);
+    if (!element.contains(range.commonAncestorContainer)) return;
+
+    if (range.collapsed) {
+      // An empty block, e.g. from the ``` input rule, takes the caret.
+      codeElement.innerHTML = "<br>";
+      range.insertNode(preElement);
+      selectContents(codeElement, true);
+    } else {
+      codeElement.appendChild(range.extractContents());
+      range.deleteContents();
+      range.insertNode(preElement);
+      selectContents(preElement);
+    }
+  } else {
+    codeElement.innerHTML = "<br>";
+    const range = document.createRange();
+    range.setStart(element, element.childNodes.length);
+    range.insertNode(preElement);
+    selectContents(codeElement, true);
+  }
+  commit();
+};
+
+// Sets the language of the code block at the caret; an empty value makes it plain text.
+const setCodeBlockLanguage: EditorCommand = ({ element, getRange, commit }, language = "") => {
+  const pre = getCodeBlock(getRange()?.startContainer ?? null, element);
+  if (!pre) return false;
+  setCodeLanguage(pre, language);
+  commit();
+};
+
+const leaveCodeBlock: EditorCommand = ({ element, getRange, commit }) => {
+  const pre = getCodeBlock(getRange()?.startContainer ?? null, element);
+  if (!pre) return false;
+  element.focus();
+  exitCodeBlock(pre);
+  commit();
+};
+
+// Sets the direction of the block at the caret; choosing its current explicit direction again returns it to auto.
+const setBlockDirection = (direction: TextDirection): EditorCommand => ({ element, getRange, commit }) => {
+  const range = getRange();
+  element.focus();
+  let block = range ? getDirectionBlock(range.startContainer, element) : null;
+  if (!block) {
+    // Bare text directly in the editor has no block to carry the attribute yet.
+    document.execCommand("formatBlock", false, "<div>");
+    block = getDirectionBlock(window.getSelection()?.anchorNode ?? null, element);
+  }
+  if (!block) return false;
+  block.setAttribute("dir", block.getAttribute("dir") === direction ? "auto" : direction);
+  commit();
+};
+
+// Table commands act on the cells at the selection and return the cell to put the caret in.
+const tableCommand = (
+  run: (anchor: TableCell, focus: TableCell) => TableCell | null | void,
+): EditorCommand => ({ element, commit }) => {
+  const cells = getSelectedCells(element);
+  if (!cells) return false;
+  element.focus();
+  const next = run(cells.anchor, cells.focus);
+  if (next) {
+    placeCaretInCell(next);
+  } else if (!cells.anchor.isConnected) {
+    restoreSelection(element, null);
+  }
+  commit();
+};
+
+const insertTable: EditorCommand = ({ element, getRange, commit }, value = "3x3") => {
+  const [rows, columns] = value.split("x").map(Number);
+  if (!rows || !columns) return false;
+  const range = getRange();
+  element.focus();
+
+  const table = createTable(rows, columns);
+  // Tables are blocks, so they go after the top-level block holding the caret.
+  let block: Node | null = range ? range.startContainer : null;
+  while (block && block.parentNode !== element) {
+    block = block.parentNode;
+  }
+  if (block && block !== element) {
+    element.insertBefore(table, block.nextSibling);
+  } else {
+    element.appendChild(table);
+  }
+  if (!table.nextSibling) {
+    const paragraph = document.createElement("div");
+    paragraph.appendChild(document.createElement("br"));
+    element.appendChild(paragraph);
+  }
+
+  placeCaretInCell(table.querySelector<TableCell>("td, th"));
+  commit();
+};
+
+const moveToCell = (direction: 1 | -1): EditorCommand => ({ element, commit }) => {
+  const cell = getClosestCell(window.getSelection()?.anchorNode ?? null, element);
+  if (!cell) return false;
+
+  const next = getAdjacentCell(cell, direction);
+  if (next) {
+    placeCaretInCell(next, true);
+  } else if (direction === 1) {
+    // Tab in the last cell adds a row, like in word processors.
+    placeCaretInCell(insertRow(cell, "after"));
+    commit();
+  }
+};
+
+const historyIcon = (points: string, path: string) => (
+  <svg
+    className="h-4 w-4"
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="2"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+  >
+    <polyline points={points} />
+    <path d={path} />
+  </svg>
+);
+
+export const historyExtension: EditorExtension = {
+  name: "history",
+  commands: {
+    undo: ({ undo }) => undo(),
+    redo: ({ redo }) => redo(),
+  },
+  toolbar: [
+    {
+      type: "button",
+      label: message("undo"),
+      group: "history",
+      command: "undo",
+      icon: historyIcon("1 4 1 10 7 10", "M3.51 15a9 9 0 1 0 2.13-9.36L1 10"),
+      isEnabled: state => state.canUndo,
+    },
+    {
+      type: "button",
+      label: message("redo"),
+      group: "history",
+      command: "redo",
+      icon: historyIcon("23 4 23 10 17 10", "M20.49 15a9 9 0 1 1-2.12-9.36L23 10"),
+      isEnabled: state => state.canRedo,
+    },
+  ],
+  shortcuts: {
+    "Mod-z": "undo",
+    "Mod-y": "redo",
+    "Mod-Shift-z": "redo",
+  },
+};
+
+const HEADING_PLACEHOLDER: Placeholder = { tagName: "div", text: message("headingPlaceholder") };
+
+export const headingsExtension: EditorExtension = {
+  name: "headings",
+  commands: {
+    formatBlock: execWithValue("formatBlock", HEADING_PLACEHOLDER),
+    paragraph: context => execWithPlaceholder("formatBlock", HEADING_PLACEHOLDER)(context, "<p>"),
+    heading1: context => execWithPlaceholder("formatBlock", HEADING_PLACEHOLDER)(context, "<h1>"),
+    heading2: context => execWithPlaceholder("formatBlock", HEADING_PLACEHOLDER)(context, "<h2>"),
+    heading3: context => execWithPlaceholder("formatBlock", HEADING_PLACEHOLDER)(context, "<h3>"),
+  },
+  toolbar: [
+    {
+      type: "dropdown",
+      label: message("textFormat"),
+      group: "text",
+      command: "formatBlock",
+      options: [
+        { label: message("paragraph"), value: "<p>" },
+        { label: message("heading1"), value: "<h1>" },
+        { label: message("heading2"), value: "<h2>" },
+        { label: message("heading3"), value: "<h3>" },
+      ],
+    },
+  ],
+  slashCommands: [
+    { id: "paragraph", label: message("paragraph"), keywords: ["text", "p"], command: "paragraph" },
+    { id: "heading1", label: message("heading1"), keywords: ["h1", "title"], command: "heading1" },
+    { id: "heading2", label: message("heading2"), keywords: ["h2", "subtitle"], command: "heading2" },
+    { id: "heading3", label: message("heading3"), keywords: ["h3"], command: "heading3" },
+  ],
+  shortcuts: {
+    "Mod-Shift-0": "paragraph",
+    "Mod-Shift-1": "heading1",
+    "Mod-Shift-2": "heading2",
+    "Mod-Shift-3": "heading3",
+  },
+};
+
+export const fontSizeExtension: EditorExtension = {
+  name: "fontSize",
+  commands: {
+    fontSize: execWithValue("fontSize", TEXT_PLACEHOLDER),
+  },
+  toolbar: [
+    {
+      type: "dropdown",
+      label: message("fontSize"),
+      group: "text",
+      command: "fontSize",
+      defaultValue: "3",
+      options: [
+        { label: message("fontSizeSmall"), value: "1" },
+        { label: message("fontSizeNormal"), value: "3" },
+        { label: message("fontSizeLarge"), value: "5" },
+        { label: message("fontSizeHuge"), value: "7" },
+      ],
+    },
+  ],
+};
+
+const markExtension = (
+  name: "bold" | "italic" | "underline" | "strikethrough",
+  options: { label: EditorLabel; tagName: string; icon: React.ReactNode; shortcut?: string; isActive: EditorExtension["isActive"] },
+): EditorExtension => ({
+  name,
+  commands: { [name]: toggleInlineTag(options.tagName) },
+  toolbar: [{ type: "button", label: options.label, group: "marks", command: name, icon: options.icon }],
+  shortcuts: options.shortcut ? { [options.shortcut]: name } : undefined,
+  isActive: options.isActive,
+});
+
+export const boldExtension = markExtension("bold", {
+  label: message("bold"),
+  tagName: "strong",
+  icon: <FaBold size={14} />,
+  shortcut: "Mod-b",
+  isActive: { bold: ({ formats }) => formats.bold },
+});
+
+export const italicExtension = markExtension("italic", {
+  label: message("italic"),
+  tagName: "em",
+  icon: <FaItalic size={14} />,
+  shortcut: "Mod-i",
+  isActive: { italic: ({ formats }) => formats.italic },
+});
+
+export const underlineExtension = markExtension("underline", {
+  label: message("underline"),
+  tagName: "u",
+  icon: <FaUnderline size={14} />,
+  shortcut: "Mod-u",
+  isActive: { underline: ({ formats }) => formats.underline },
+});
+
+export const strikethroughExtension = markExtension("strikethrough", {
+  label: message("strikethrough"),
+  tagName: "s",
+  icon: <FaStrikethrough size={14} />,
+  shortcut: "Mod-Shift-x",
+  isActive: { strikethrough: ({ formats }) => formats.strikeThrough },
+});
+
+const ALIGNMENT_PLACEHOLDER: Placeholder = { tagName: "div" };
+
+export const alignmentExtension: EditorExtension = {
+  name: "alignment",
+  commands: {
+    alignLeft: execWithPlaceholder("justifyLeft", ALIGNMENT_PLACEHOLDER),
+    alignCenter: execWithPlaceholder("justifyCenter", ALIGNMENT_PLACEHOLDER),
+    alignRight: execWithPlaceholder("justifyRight", ALIGNMENT_PLACEHOLDER),
+  },
+  toolbar: [
+    { type: "button", label: message("alignLeft"), group: "alignment", command: "alignLeft", icon: <FaAlignLeft size={14} /> },
+    { type: "button", label: message("alignCenter"), group: "alignment", command: "alignCenter", icon: <FaAlignCenter size={14} /> },
+    { type: "button", label: message("alignRight"), group: "alignment", command: "alignRight", icon: <FaAlignRight size={14} /> },
+  ],
+  shortcuts: {
+    "Mod-Shift-l": "alignLeft",
+    "Mod-Shift-e": "alignCenter",
+    "Mod-Shift-r": "alignRight",
+  },
+  isActive: {
+    alignLeft: ({ formats }) => formats.alignLeft,
+    alignCenter: ({ formats }) => formats.alignCenter,
+    alignRight: ({ formats }) => formats.alignRight,
+  },
+};
+
+export const directionExtension: EditorExtension = {
+  name: "direction",
+  commands: {
+    leftToRight: setBlockDirection("ltr"),
+    rightToLeft: setBlockDirection("rtl"),
+  },
+  toolbar: [
+    { type: "button", label: message("leftToRight"), group: "direction", command: "leftToRight", icon: <MdFormatTextdirectionLToR size={16} /> },
+    { type: "button", label: message("rightToLeft"), group: "direction", command: "rightToLeft", icon: <MdFormatTextdirectionRToL size={16} /> },
+  ],
+  isActive: {
+    leftToRight: ({ formats }) => !formats.rtl,
+    rightToLeft: ({ formats }) => formats.rtl,
+  },
+};
+
+const LIST_PLACEHOLDER: Placeholder = { tagName: "div", text: message("listItemPlaceholder") };
+
+export const listsExtension: EditorExtension = {
+  name: "lists",
+  commands: {
+    orderedList: execWithPlaceholder("insertOrderedList", LIST_PLACEHOLDER),
+    bulletList: execWithPlaceholder("insertUnorderedList", LIST_PLACEHOLDER),
+  },
+  toolbar: [
+    { type: "button", label: message("numberedList"), group: "lists", command: "orderedList", icon: <FaListOl size={14} /> },
+    { type: "button", label: message("bulletList"), group: "lists", command: "bulletList", icon: <FaListUl size={14} /> },
+  ],
+  shortcuts: {
+    "Mod-Shift-7": "orderedList",
+    "Mod-Shift-8": "bulletList",
+  },
+  isActive: {
+    orderedList: ({ formats }) => formats.orderedList,
+    bulletList: ({ formats }) => formats.unorderedList,
+  },
+  slashCommands: [
+    { id: "bulletList", label: message("bulletList"), keywords: ["ul", "unordered"], command: "bulletList" },
+    { id: "numberedList", label: message("numberedList"), keywords: ["ol", "ordered"], command: "orderedList" },
+  ],
+};
+
+export const linksExtension: EditorExtension = {
+  name: "links",
+  commands: {
+    link: ({ openDialog }) => openDialog("link"),
+  },
+  toolbar: [{ type: "button", label: message("insertLink"), group: "media", command: "link", icon: <FaLink size={14} />, dialog: "link" }],
+  shortcuts: { "Mod-k": "link" },
+  isActive: { link: ({ ancestors }) => ancestors.some(element => element.tagName === "A") },
+  slashCommands: [{ id: "link", label: message("link"), keywords: ["url"], command: "link" }],
+};
+
+export const imagesExtension: EditorExtension = {
+  name: "images",
+  commands: {
+    image: ({ openDialog }) => openDialog("image"),
+  },
+  toolbar: [{ type: "button", label: message("insertImage"), group: "media", command: "image", icon: <FaImage size={14} />, dialog: "image" }],
+  slashCommands: [{ id: "image", label: message("image"), keywords: ["picture", "photo"], command: "image" }],
+};
+
+export const codeBlocksExtension: EditorExtension = {
+  name: "codeBlocks",
+  commands: { codeBlock: insertCodeBlock, codeLanguage: setCodeBlockLanguage, exitCodeBlock: leaveCodeBlock },
+  toolbar: [
+    {
+      type: "button",
+      label: message("codeBlock"),
+      group: "blocks",
+      command: "codeBlock",
+      icon: (
+        <svg
+          className="h-4 w-4"
+          width="24"
+          height="24"
+          viewBox="0 0 24 24"
+          strokeWidth="2"
+          stroke="currentColor"
+          fill="none"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        >
+          <path stroke="none" d="M0 0h24v24H0z" />
+          <polyline points="7 8 3 12 7 16" />
+          <polyline points="17 8 21 12 17 16" />
+          <line x1="14" y1="4" x2="10" y2="20" />
+        </svg>
+      ),
+    },
+  ],
+  shortcuts: { "Mod-Shift-9": "codeBlock", "Mod-Enter": "exitCodeBlock" },
+  labels: { exitCodeBlock: message("exitCodeBlock") },
+  slashCommands: [{ id: "codeBlock", label: message("codeBlock"), keywords: ["pre", "code"], command: "codeBlock" }],
+};
+
+export const quotesExtension: EditorExtension = {
+  name: "quotes",
+  commands: { quote: insertBlockquote },
+  toolbar: [{ type: "button", label: message("quote"), group: "blocks", command: "quote", icon: <FaQuoteLeft size={14} /> }],
+  shortcuts: { "Mod-Shift-b": "quote" },
+  slashCommands: [{ id: "quote", label: message("quote"), keywords: ["blockquote"], command: "quote" }],
+};
+
+const inTable = (state: EditorToolbarState) => state.formats.inTable;
+
+export const tablesExtension: EditorExtension = {
+  name: "tables",
+  commands: {
+    table: ({ openDialog }) => openDialog("table"),
+    insertTable,
+    addRowBefore: tableCommand(cell => insertRow(cell, "before")),
+    addRowAfter: tableCommand(cell => insertRow(cell, "after")),
+    addColumnBefore: tableCommand(cell => insertColumn(cell, "before")),
+    addColumnAfter: tableCommand(cell => insertColumn(cell, "after")),
+    deleteRow: tableCommand(deleteRow),
+    deleteColumn: tableCommand(deleteColumn),
+    toggleHeaderRow: tableCommand(cell => toggleHeaderRow(getTable(cell)!)),
+    mergeCells: tableCommand((anchor, focus) => mergeCells(anchor, focus)),
+    deleteTable: tableCommand(cell => {
+      getTable(cell)?.remove();
+    }),
+    nextCell: moveToCell(1),
+    previousCell: moveToCell(-1),
+  },
+  toolbar: [
+    { type: "button", label: message("insertTable"), group: "tables", command: "table", icon: <FaTable size={14} />, dialog: "table" },
+    { type: "button", label: message("rowAbove"), group: "tables", command: "addRowBefore", isVisible: inTable },
+    { type: "button", label: message("rowBelow"), group: "tables", command: "addRowAfter", isVisible: inTable },
+    { type: "button", label: message("columnLeft"), group: "tables", command: "addColumnBefore", isVisible: inTable },
+    { type: "button", label: message("columnRight"), group: "tables", command: "addColumnAfter", isVisible: inTable },
+    { type: "button", label: message("deleteRow"), group: "tables", command: "deleteRow", isVisible: inTable },
+    { type: "button", label: message("deleteColumn"), group: "tables", command: "deleteColumn", isVisible: inTable },
+    { type: "button", label: message("headerRow"), group: "tables", command: "toggleHeaderRow", isVisible: inTable },
+    {
+      type: "button",
+      label: message("mergeCells"),
+      group: "tables",
+      command: "mergeCells",
+      isVisible: inTable,
+      isEnabled: state => state.formats.multipleCells,
+    },
+    { type: "button", label: message("deleteTable"), group: "tables", command: "deleteTable", isVisible: inTable },
+  ],
+  shortcuts: {
+    Tab: "nextCell",
+    "Shift-Tab": "previousCell",
+  },
+  labels: {
+    nextCell: message("nextCell"),
+    previousCell: message("previousCell"),
+  },
+  isActive: {
+    table: ({ formats }) => formats.inTable,
+    toggleHeaderRow: ({ formats }) => formats.tableHeaderRow,
+  },
+  slashCommands: [
+    { id: "table", label: message("table"), description: messages => messages.tableDescription(3, 3), keywords: ["grid"], command: "insertTable", value: "3x3" },
+  ],
+};
+
+export const colorsExtension: EditorExtension = {
+  name: "colors",
+  commands: {
+    color: execWithValue("foreColor", TEXT_PLACEHOLDER),
+    backgroundColor: execWithValue("hiliteColor", TEXT_PLACEHOLDER),
+  },
+  toolbar: [
+    { type: "colorPicker", label: message("textColor"), group: "colors", command: "color" },
+    { type: "colorPicker", label: message("backgroundColor"), group: "colors", command: "backgroundColor" },
+  ],
+};
+
+export const searchExtension: EditorExtension = {
+  name: "search",
+  commands: {
+    find: ({ openDialog }) => openDialog("find"),
+    replace: ({ openDialog }) => openDialog("replace"),
+  },
+  toolbar: [
+    { type: "button", label: message("findAndReplace"), group: "help", command: "replace", icon: <FaSearch size={14} /> },
+  ],
+  // Cmd-H hides the window on macOS, so replace also has Cmd-Alt-f there. Ctrl-Alt would be AltGr on Windows.
+  shortcuts: { "Mod-f": "find", "Mod-h": "replace", "Cmd-Alt-f": "replace" },
+  labels: { find: message("find"), replace: message("findAndReplace") },
+};
+
+export const shortcutsExtension: EditorExtension = {
+  name: "shortcuts",
+  commands: {
+    shortcuts: ({ openDialog }) => openDialog("shortcuts"),
+  },
+  toolbar: [
+    { type: "button", label: message("keyboardShortcuts"), group: "help", command: "shortcuts", icon: <FaKeyboard size={14} />, dialog: "shortcuts" },
+  ],
+  shortcuts: { "Mod-/": "shortcuts" },
+};
+
+/** The built-in toolbar, in display order. */
+export const defaultExtensions: EditorExtension[] = [
+  historyExtension,
+  headingsExtension,
+  fontSizeExtension,
+  boldExtension,
+  italicExtension,
+  underlineExtension,
+  strikethroughExtension,
+  alignmentExtension,
+  directionExtension,
+  listsExtension,
+  linksExtension,
+  imagesExtension,
+  codeBlocksExtension,
+  quotesExtension,
+  tablesExtension,
+  colorsExtension,
+  searchExtension,
+  shortcutsExtension,
+];
@@ -1,4 +1,11 @@
 import TextEditor from "./TextEditor";
+import TextEditorViewer from "./TextEditorViewer";
 import TimeTable from "./TimeTable";
 
-export { TextEditor, TimeTable };
+export { TextEditor, TextEditorViewer, TimeTable };
+export type {
+  TextEditorHandle,
+  TextEditorCommand,
+  TextEditorSelectionFormats,
+  TextEditorValueFormat,
+} from "./TextEditor";
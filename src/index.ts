@@ -6,3 +6,123 @@ export * from './components/index';
 
 // Export utilities
 export { cn } from './lib/utils';
+
+// Export HTML sanitization so the same policy can run on the server
+export { sanitizeHtml, isSafeUrl, defaultSanitizeOptions } from './lib/sanitize';
+export type { SanitizeOptions } from './lib/sanitize';
+
+// Export the structured document model and its HTML converters
+export { htmlToDocument, documentToHtml, createEmptyDocument } from './lib/document';
+export type {
+  EditorDocument,
+  EditorBlock,
+  EditorInline,
+  EditorListItem,
+  EditorTableCell,
+  EditorTableRow,
+  EditorMark,
+  EditorMarkType,
+  TextAlign,
+  TextDirection,
+} from './lib/document';
+export type { ImageAlign } from './lib/image';
+export { detectDirection } from './lib/bidi';
+
+// Export Markdown import and export
+export { htmlToMarkdown, markdownToHtml, documentToMarkdown, markdownToDocument } from './lib/markdown';
+
+// Export the paste cleanup used by pasteMode="clean"
+export { cleanPastedHtml } from './lib/paste';
+export type { PasteMode, PasteContent } from './lib/paste';
+
+// Export image upload types
+export type { ImageUploadHandler, ImageUploadContext } from './lib/imageUpload';
+
+// Export mention types
+export type { MentionProvider, MentionItem } from './lib/mention';
+
+// Export slash menu types
+export type { SlashCommand, SlashCommandContext } from './lib/slashCommands';
+
+// Export the extension API and the built-in extensions
+export {
+  defaultExtensions,
+  historyExtension,
+  headingsExtension,
+  fontSizeExtension,
+  boldExtension,
+  italicExtension,
+  underlineExtension,
+  strikethroughExtension,
+  alignmentExtension,
+  directionExtension,
+  listsExtension,
+  linksExtension,
+  imagesExtension,
+  codeBlocksExtension,
+  quotesExtension,
+  tablesExtension,
+  colorsExtension,
+  searchExtension,
+  shortcutsExtension,
+} from './components/editor/defaultExtensions';
+export type {
+  EditorExtension,
+  EditorCommand,
+  EditorCommandContext,
+  EditorDialog,
+  EditorLabel,
+  EditorSelectionContext,
+  EditorToolbarState,
+  ExtensionSlashCommand,
+  ToolbarItem,
+  ToolbarButtonItem,
+  ToolbarDropdownItem,
+  ToolbarColorPickerItem,
+} from './lib/extensions';
+export { formatShortcut, formatAriaShortcut, matchShortcut } from './lib/keymap';
+
+// Export the UI message catalog and the built-in translations
+export { enMessages, arMessages, getMessages, isRtlLocale, message } from './lib/messages';
+export type { TextEditorMessages } from './lib/messages';
+export type { EditorKeymap } from './lib/keymap';
+
+// Export real-time collaboration: the transports and the replicated document
+export { createMemoryTransport, createBroadcastChannelTransport } from './lib/collaboration';
+export type {
+  CollaborationOptions,
+  CollaborationTransport,
+  CollaborationMessage,
+  CollaborationUser,
+  CollaborationSelection,
+  CollaborationPosition,
+} from './lib/collaboration';
+export { createBlockDocument } from './lib/crdt';
+export type { BlockDocument, BlockOperation, Block, Stamp } from './lib/crdt';
+
+// Export the word and character counting used by the status bar and maxLength
+export { getTextStats, countWords, countCharacters } from './lib/textStats';
+export type { TextStats, LengthUnit } from './lib/textStats';
+
+// Export the Markdown-style input rules
+export { defaultInputRules } from './lib/inputRules';
+export type { InputRule } from './lib/inputRules';
+
+// Export the HTML preparation used by TextEditorViewer
+export { prepareViewerHtml, slugify } from './lib/viewer';
+export type { ViewerHtmlOptions } from './lib/viewer';
+
+// Export the editor theme type
+export type { EditorTheme } from './lib/theme';
+
+// Export the code block languages and tokenizer used for syntax highlighting
+export { codeLanguages, tokenizeCode } from './lib/highlight';
+export type { CodeLanguage, CodeToken, CodeTokenType } from './lib/highlight';
+
+// Export the link URL helpers used by the link dialog and popover
+export { normalizeLinkUrl, isValidLinkUrl } from './lib/link';
+export type { LinkOptions, LinkAttribute } from './lib/link';
+
+// Export the class-based output style and the migration for content saved with inline styles
+export { migrateInlineStyles, defaultOutputClassNames, resolveOutputClassNames } from './lib/outputStyle';
+export type { OutputStyle, OutputClassNames, OutputClassNamesOptions, FontSizeKeyword } from './lib/outputStyle';
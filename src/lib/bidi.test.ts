@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { detectDirection } from "./bidi";
+
+describe("detectDirection", () => {
+  it("follows the first letter", () => {
+    expect(detectDirection("مرحبا hello")).toBe("rtl");
+    expect(detectDirection("hello مرحبا")).toBe("ltr");
+    expect(detectDirection("שלום")).toBe("rtl");
+  });
+
+  it("skips combining marks, which are not strongly directional", () => {
+    // Fathatan, shadda and the superscript alef before a Latin word.
+    expect(detectDirection("ًّٰ hello")).toBe("ltr");
+    expect(detectDirection("֑ hello")).toBe("ltr");
+  });
+
+  it("returns null without letters", () => {
+    expect(detectDirection("١٢٣ 123 !")).toBeNull();
+  });
+});
@@ -0,0 +1,54 @@
+import type { TextDirection } from "./document";
+
+// Hebrew, Arabic (including the Persian and Urdu letters), Syriac, Thaana, NKo and the
+// other right-to-left scripts up to Arabic Extended-A, their presentation forms, and the
+// supplementary-plane RTL blocks. Only letters in these ranges count: combining marks such
+// as Arabic harakat are non-spacing, and Arabic-Indic digits are weak, like European digits.
+const RTL_CHAR_REGEX = /[\u0590-\u065F\u066A-\u06EF\u06FA-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF\u{10800}-\u{10FFF}\u{1E800}-\u{1EFFF}]/u;
+const LETTER_REGEX = /\p{L}/u;
+
+// Elements that get their own base direction in the editor.
+const DIRECTION_BLOCK_SELECTOR = "p, div, h1, h2, h3, h4, h5, h6, ul, ol, blockquote, td, th";
+
+/**
+ * The direction of the first strongly directional character, like `dir="auto"`
+ * does in browsers. Returns `null` for text without letters.
+ */
+export const detectDirection = (text: string): TextDirection | null => {
+  for (const char of text) {
+    if (LETTER_REGEX.test(char)) return RTL_CHAR_REGEX.test(char) ? "rtl" : "ltr";
+  }
+  return null;
+};
+
+/**
+ * Gives every block without an explicit direction `dir="auto"`, so each paragraph
+ * follows its own text. Code blocks are always left-to-right.
+ */
+export const applyBlockDirections = (root: HTMLElement): void => {
+  root.querySelectorAll<HTMLElement>(DIRECTION_BLOCK_SELECTOR).forEach(block => {
+    if (!block.hasAttribute("dir")) block.setAttribute("dir", "auto");
+  });
+  root.querySelectorAll<HTMLElement>("pre").forEach(block => {
+    if (!block.hasAttribute("dir")) block.setAttribute("dir", "ltr");
+  });
+};
+
+/** The block whose direction applies at `node`. List items resolve to their list, which owns the indentation. */
+export const getDirectionBlock = (node: Node | null, root: HTMLElement): HTMLElement | null => {
+  const element = node && (node.nodeType === Node.ELEMENT_NODE ? (node as HTMLElement) : node.parentElement);
+  const block = element?.closest<HTMLElement>(`${DIRECTION_BLOCK_SELECTOR}, li`);
+  if (!block || block === root || !root.contains(block)) return null;
+  if (block.tagName === "LI") {
+    const list = block.parentElement;
+    return list && list !== root && root.contains(list) ? list : null;
+  }
+  return block;
+};
+
+/** The direction a block renders in: its explicit `dir`, or the one detected from its text. */
+export const getBlockDirection = (block: HTMLElement): TextDirection => {
+  const dir = block.getAttribute("dir");
+  if (dir === "ltr" || dir === "rtl") return dir;
+  return detectDirection(block.textContent || "") || "ltr";
+};
@@ -0,0 +1,192 @@
+const LANGUAGE_CLASS_REGEX = /^language-([\w+#.-]+)$/;
+const BLOCK_REGEX = /^(DIV|P)$/;
+const INDENT = "  ";
+
+/** The `<pre>` holding `node`, if it is inside a code block in `root`. */
+export const getCodeBlock = (node: Node | null, root: HTMLElement): HTMLPreElement | null => {
+  const element = node && (node.nodeType === Node.ELEMENT_NODE ? (node as Element) : node.parentElement);
+  const pre = element?.closest("pre");
+  return pre && root.contains(pre) ? pre : null;
+};
+
+/** The element the code text lives in: the `<code>` inside the block, or the `<pre>` itself. */
+export const getCodeElement = (pre: HTMLElement): HTMLElement =>
+  Array.from(pre.children).find((child): child is HTMLElement => child.tagName === "CODE") ?? pre;
+
+/** The language from a `language-xxx` class, the convention Markdown converters and highlighters share. */
+export const getLanguageFromClass = (className: string): string => {
+  for (const name of className.split(/\s+/)) {
+    const match = LANGUAGE_CLASS_REGEX.exec(name);
+    if (match) return match[1].toLowerCase();
+  }
+  return "";
+};
+
+export const getCodeLanguage = (pre: HTMLElement): string =>
+  getLanguageFromClass(getCodeElement(pre).className) || getLanguageFromClass(pre.className);
+
+/** Sets the `language-xxx` class on the block's `<code>`; an empty language removes it. */
+export const setCodeLanguage = (pre: HTMLElement, language: string) => {
+  [pre, getCodeElement(pre)].forEach(element => {
+    Array.from(element.classList)
+      .filter(name => LANGUAGE_CLASS_REGEX.test(name))
+      .forEach(name => element.classList.remove(name));
+    if (!element.getAttribute("class")) element.removeAttribute("class");
+  });
+  if (language) getCodeElement(pre).classList.add(`language-${language}`);
+};
+
+const readText = (node: Node): string => {
+  if (node.nodeType === Node.TEXT_NODE) return (node as Text).data;
+  if (node.nodeName === "BR") return "\n";
+  const text = Array.from(node.childNodes).map(readText).join("");
+  // Browsers sometimes split lines in a code block into divs.
+  return BLOCK_REGEX.test(node.nodeName) && node.previousSibling ? `\n${text}` : text;
+};
+
+/**
+ * The text of a code block with `<br>`s as line breaks. A final line break only holds
+ * the caret on an empty last line and is not part of the text.
+ */
+export const getCodeText = (code: HTMLElement): string => readText(code).replace(/\n$/, "");
+
+/** The offset in `getCodeText` of a DOM position inside `code`. */
+export const getCodeOffset = (code: HTMLElement, node: Node, offset: number): number => {
+  const range = document.createRange();
+  range.setStart(code, 0);
+  range.setEnd(node, offset);
+  return readText(range.cloneContents()).length;
+};
+
+/** The DOM position of a `getCodeText` offset, for building ranges over the block's text. */
+export const getCodePosition = (code: HTMLElement, offset: number): { node: Node; offset: number } => {
+  let remaining = offset;
+  let last: { node: Node; offset: number } = { node: code, offset: 0 };
+  const walker = document.createTreeWalker(code, NodeFilter.SHOW_TEXT | NodeFilter.SHOW_ELEMENT);
+  while (walker.nextNode()) {
+    const node = walker.currentNode;
+    if (node.nodeType === Node.TEXT_NODE) {
+      const length = (node as Text).data.length;
+      if (remaining <= length) return { node, offset: remaining };
+      remaining -= length;
+      last = { node, offset: length };
+    } else if (node.nodeName === "BR" || (BLOCK_REGEX.test(node.nodeName) && node.previousSibling)) {
+      const index = Array.from(node.parentNode!.childNodes).indexOf(node as ChildNode);
+      if (remaining === 0) return { node: node.parentNode!, offset: index };
+      remaining -= 1;
+      last = { node: node.parentNode!, offset: index + 1 };
+    }
+  }
+  return last;
+};
+
+/**
+ * Replaces the content of `code` with `text` as a single text node and selects
+ * `start`..`end` in it. A trailing line break keeps an empty last line visible.
+ */
+export const setCodeText = (code: HTMLElement, text: string, start: number, end = start) => {
+  const node = document.createTextNode(text.endsWith("\n") || !text ? `${text}\n` : text);
+  code.replaceChildren(node);
+  const range = document.createRange();
+  range.setStart(node, start);
+  range.setEnd(node, end);
+  const selection = window.getSelection();
+  selection?.removeAllRanges();
+  selection?.addRange(range);
+};
+
+const getCodeSelection = (code: HTMLElement): { start: number; end: number } | null => {
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0) return null;
+  const range = selection.getRangeAt(0);
+  if (!code.contains(range.startContainer) || !code.contains(range.endContainer)) return null;
+  const length = getCodeText(code).length;
+  return {
+    start: Math.min(getCodeOffset(code, range.startContainer, range.startOffset), length),
+    end: Math.min(getCodeOffset(code, range.endContainer, range.endOffset), length),
+  };
+};
+
+/**
+ * Indents, or with `outdent` removes one level of indentation from, the lines in the
+ * selection. A collapsed caret just gets an indent typed at it when indenting.
+ */
+export const indentCode = (pre: HTMLElement, outdent = false): boolean => {
+  const code = getCodeElement(pre);
+  const selected = getCodeSelection(code);
+  if (!selected) return false;
+  const text = getCodeText(code);
+  const { start, end } = selected;
+
+  if (!outdent && start === end) {
+    setCodeText(code, text.slice(0, start) + INDENT + text.slice(end), start + INDENT.length);
+    return true;
+  }
+
+  const lineStart = text.lastIndexOf("\n", start - 1) + 1;
+  // A selection ending at the start of a line does not include that line.
+  const lastLineEnd = end > start && text[end - 1] === "\n" ? end - 1 : end;
+  const lines = text.slice(lineStart, lastLineEnd).split("\n");
+  const edits: { position: number; removed: number; inserted: number }[] = [];
+  let position = lineStart;
+  const changed = lines.map(line => {
+    const removed = outdent ? (/^( {1,2}|\t)/.exec(line)?.[0].length ?? 0) : 0;
+    edits.push({ position, removed, inserted: outdent ? 0 : INDENT.length });
+    position += line.length + 1;
+    return outdent ? line.slice(removed) : INDENT + line;
+  });
+  // Offsets move with the text of their line; ones inside removed indentation move to the line start.
+  const mapOffset = (offset: number) =>
+    edits.reduce(
+      (result, edit) =>
+        offset < edit.position ? result : result - Math.min(edit.removed, offset - edit.position) + edit.inserted,
+      offset,
+    );
+  const result = text.slice(0, lineStart) + changed.join("\n") + text.slice(lastLineEnd);
+  if (result === text) return true;
+  setCodeText(code, result, mapOffset(start), mapOffset(end));
+  return true;
+};
+
+/**
+ * Breaks the line at the caret, carrying over its indentation. Returns `"exit"` instead
+ * when the caret is at the end after two empty lines, after removing them, so the
+ * caller can move the caret out of the block.
+ */
+export const insertCodeNewline = (pre: HTMLElement): boolean | "exit" => {
+  const code = getCodeElement(pre);
+  const selected = getCodeSelection(code);
+  if (!selected) return false;
+  const text = getCodeText(code);
+  const { start, end } = selected;
+  const before = text.slice(0, start);
+  const after = text.slice(end);
+
+  if (!after.trim() && /\n[ \t]*\n[ \t]*$/.test(before)) {
+    const remaining = before.replace(/\n[ \t]*\n[ \t]*$/, "");
+    setCodeText(code, remaining, remaining.length);
+    return "exit";
+  }
+
+  const indentation = /^[ \t]*/.exec(before.slice(before.lastIndexOf("\n") + 1))![0];
+  const inserted = `\n${indentation}`;
+  setCodeText(code, before + inserted + after, start + inserted.length);
+  return true;
+};
+
+/** Puts the caret in a new empty line after the code block, or in the block already there. */
+export const exitCodeBlock = (pre: HTMLElement) => {
+  let next = pre.nextElementSibling;
+  const isEmptyLine = next && next.tagName !== "PRE" && !next.textContent && !next.querySelector("img, table");
+  if (!next || !isEmptyLine) {
+    next = document.createElement("div");
+    next.appendChild(document.createElement("br"));
+    pre.after(next);
+  }
+  const range = document.createRange();
+  range.setStart(next, 0);
+  range.collapse(true);
+  const selection = window.getSelection();
+  selection?.removeAllRanges();
+  selection?.addRange(range);
+};
@@ -0,0 +1,352 @@
+import type { Block, BlockOperation } from "./crdt";
+import type { HistoryEntry } from "./history";
+
+export interface CollaborationUser {
+  id: string;
+  name: string;
+  /** Any CSS color; used for the user's caret, selection and name tag. */
+  color: string;
+}
+
+/** A point in the content as a block id and a text offset inside that block, so it survives edits elsewhere. */
+export interface CollaborationPosition {
+  blockId: string;
+  offset: number;
+}
+
+export interface CollaborationSelection {
+  anchor: CollaborationPosition;
+  focus: CollaborationPosition;
+}
+
+export type CollaborationMessage =
+  | { type: "operations"; clientId: string; operations: BlockOperation[] }
+  /** Sent when joining; peers answer with their `state` and `presence`. */
+  | { type: "hello"; clientId: string }
+  | { type: "state"; clientId: string; operations: BlockOperation[] }
+  | { type: "presence"; clientId: string; user: CollaborationUser; selection: CollaborationSelection | null }
+  | { type: "leave"; clientId: string };
+
+/**
+ * Carries messages between editors on the same document. Messages are plain JSON-safe
+ * objects; a transport only has to deliver each one to every other subscriber, and
+ * may do so asynchronously.
+ */
+export interface CollaborationTransport {
+  send: (message: CollaborationMessage) => void;
+  /** Returns a function that stops delivery to `listener`. */
+  subscribe: (listener: (message: CollaborationMessage) => void) => () => void;
+}
+
+export interface CollaborationOptions {
+  transport: CollaborationTransport;
+  /** Who this editor belongs to, as shown to the others. */
+  user: CollaborationUser;
+  /** Called with the other people connected whenever someone joins or leaves. */
+  onPeersChange?: (users: CollaborationUser[]) => void;
+}
+
+/**
+ * A set of transports that deliver to each other within the page, for tests and demos.
+ * Each `connect()` call returns the transport for one editor.
+ */
+export const createMemoryTransport = (): { connect: () => CollaborationTransport } => {
+  const listeners = new Set<(message: CollaborationMessage) => void>();
+
+  const connect = (): CollaborationTransport => {
+    const own = new Set<(message: CollaborationMessage) => void>();
+    return {
+      send: message => {
+        // Deliver later and as a copy, like a network would.
+        const copy = JSON.parse(JSON.stringify(message)) as CollaborationMessage;
+        setTimeout(() => {
+          listeners.forEach(listener => {
+            if (!own.has(listener)) listener(copy);
+          });
+        }, 0);
+      },
+      subscribe: listener => {
+        listeners.add(listener);
+        own.add(listener);
+        return () => {
+          listeners.delete(listener);
+          own.delete(listener);
+        };
+      },
+    };
+  };
+
+  return { connect };
+};
+
+/** Connects editors in other tabs and windows of the same origin through a `BroadcastChannel`. */
+export const createBroadcastChannelTransport = (name: string): CollaborationTransport & { close: () => void } => {
+  const channel = new BroadcastChannel(name);
+  const listeners = new Set<(message: CollaborationMessage) => void>();
+  channel.onmessage = (event: MessageEvent<CollaborationMessage>) => {
+    listeners.forEach(listener => listener(event.data));
+  };
+
+  return {
+    send: message => channel.postMessage(message),
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    close: () => {
+      listeners.clear();
+      channel.close();
+    },
+  };
+};
+
+export const createClientId = (): string => Math.random().toString(36).slice(2, 10);
+
+// The block id lives on each top-level element while editing and is stripped from output.
+export const BLOCK_ID_ATTRIBUTE = "data-block-id";
+const BLOCK_ID_REGEX = new RegExp(` ${BLOCK_ID_ATTRIBUTE}="[^"]*"`, "g");
+
+const BLOCK_TAGS = [
+  "DIV",
+  "P",
+  "H1",
+  "H2",
+  "H3",
+  "H4",
+  "H5",
+  "H6",
+  "UL",
+  "OL",
+  "BLOCKQUOTE",
+  "PRE",
+  "TABLE",
+  "HR",
+  "FIGURE",
+];
+
+const isBlockElement = (node: Node): node is HTMLElement =>
+  node.nodeType === Node.ELEMENT_NODE && BLOCK_TAGS.includes((node as HTMLElement).tagName);
+
+export const stripBlockIds = (html: string): string => html.replace(BLOCK_ID_REGEX, "");
+
+const getBlockHtml = (element: HTMLElement): string => stripBlockIds(element.outerHTML);
+
+/**
+ * The top-level blocks of `root` with their ids (`null` for new ones). Loose text and
+ * inline elements at the top level are wrapped in a `<div>` first, so every part of the
+ * content belongs to a block.
+ */
+export const readBlocks = (root: HTMLElement): { element: HTMLElement; id: string | null; html: string }[] => {
+  const selection = window.getSelection();
+  const { anchorNode, anchorOffset, focusNode, focusOffset } = selection || {};
+  let wrapped = false;
+  let line: HTMLElement | null = null;
+
+  Array.from(root.childNodes).forEach(node => {
+    if (isBlockElement(node)) {
+      line = null;
+      return;
+    }
+    // Line breaks between blocks in the source HTML are not content.
+    if (node.nodeType === Node.TEXT_NODE && /^\s*\n\s*$/.test(node.textContent || "") && !line) {
+      node.remove();
+      return;
+    }
+    if (!line) {
+      line = document.createElement("div");
+      root.insertBefore(line, node);
+    }
+    line.appendChild(node);
+    wrapped = true;
+  });
+
+  // Moving nodes drops the selection; the nodes themselves are the same, so put it back.
+  if (wrapped && selection && anchorNode && focusNode && root.contains(anchorNode) && root.contains(focusNode)) {
+    selection.setBaseAndExtent(anchorNode, anchorOffset || 0, focusNode, focusOffset || 0);
+  }
+
+  return Array.from(root.children).map(element => ({
+    element: element as HTMLElement,
+    id: element.getAttribute(BLOCK_ID_ATTRIBUTE),
+    html: getBlockHtml(element as HTMLElement),
+  }));
+};
+
+const createBlockElement = (html: string, id: string): HTMLElement => {
+  const template = document.createElement("template");
+  template.innerHTML = html;
+  let element = template.content.firstElementChild as HTMLElement | null;
+  if (!element || template.content.childNodes.length !== 1 || !isBlockElement(element)) {
+    element = document.createElement("div");
+    element.append(...Array.from(template.content.childNodes));
+  }
+  element.setAttribute(BLOCK_ID_ATTRIBUTE, id);
+  return element;
+};
+
+const getTextOffset = (block: Node, node: Node, offset: number): number => {
+  const range = document.createRange();
+  range.selectNodeContents(block);
+  range.setEnd(node, offset);
+  return range.toString().length;
+};
+
+const resolveTextOffset = (block: Node, offset: number): { node: Node; offset: number } => {
+  const walker = document.createTreeWalker(block, NodeFilter.SHOW_TEXT);
+  let remaining = offset;
+  let last: Text | null = null;
+  while (walker.nextNode()) {
+    const text = walker.currentNode as Text;
+    if (remaining <= text.length) return { node: text, offset: remaining };
+    remaining -= text.length;
+    last = text;
+  }
+  return last ? { node: last, offset: last.length } : { node: block, offset: 0 };
+};
+
+const getTopLevelBlock = (root: HTMLElement, node: Node): HTMLElement | null => {
+  let current: Node | null = node;
+  while (current && current.parentNode !== root) current = current.parentNode;
+  return current && current.nodeType === Node.ELEMENT_NODE ? (current as HTMLElement) : null;
+};
+
+const toPosition = (root: HTMLElement, node: Node, offset: number): CollaborationPosition | null => {
+  if (node === root) {
+    // Between blocks: the start of the next one, or the end of the last.
+    const atEnd = offset >= root.children.length;
+    const block = root.children[atEnd ? root.children.length - 1 : offset];
+    const blockId = block?.getAttribute(BLOCK_ID_ATTRIBUTE);
+    return blockId ? { blockId, offset: atEnd ? (block.textContent || "").length : 0 } : null;
+  }
+  const block = getTopLevelBlock(root, node);
+  const blockId = block?.getAttribute(BLOCK_ID_ATTRIBUTE);
+  return block && blockId ? { blockId, offset: getTextOffset(block, node, offset) } : null;
+};
+
+export const resolveCollaborationPosition = (
+  root: HTMLElement,
+  position: CollaborationPosition,
+): { node: Node; offset: number } | null => {
+  const block = Array.from(root.children).find(child => child.getAttribute(BLOCK_ID_ATTRIBUTE) === position.blockId);
+  return block ? resolveTextOffset(block, position.offset) : null;
+};
+
+/** The current selection in block terms, or `null` when it is outside `root`. */
+export const getCollaborationSelection = (root: HTMLElement): CollaborationSelection | null => {
+  const selection = window.getSelection();
+  if (!selection || !selection.anchorNode || !selection.focusNode) return null;
+  if (!root.contains(selection.anchorNode) || !root.contains(selection.focusNode)) return null;
+  const anchor = toPosition(root, selection.anchorNode, selection.anchorOffset);
+  const focus = toPosition(root, selection.focusNode, selection.focusOffset);
+  return anchor && focus ? { anchor, focus } : null;
+};
+
+export const getCollaborationRange = (root: HTMLElement, selection: CollaborationSelection): Range | null => {
+  const anchor = resolveCollaborationPosition(root, selection.anchor);
+  const focus = resolveCollaborationPosition(root, selection.focus);
+  if (!anchor || !focus) return null;
+  const range = document.createRange();
+  range.setStart(anchor.node, anchor.offset);
+  range.setEnd(focus.node, focus.offset);
+  if (range.collapsed && (anchor.node !== focus.node || anchor.offset !== focus.offset)) {
+    // The focus comes first; a range always runs forwards.
+    range.setStart(focus.node, focus.offset);
+    range.setEnd(anchor.node, anchor.offset);
+  }
+  return range;
+};
+
+/**
+ * Makes the top-level children of `root` match `blocks`, touching only blocks that
+ * changed, and keeps the local selection on the same text.
+ */
+export const renderBlocks = (root: HTMLElement, blocks: { id: string; html: string }[]): void => {
+  const hadFocus = root.contains(document.activeElement) || document.activeElement === root;
+  const saved = getCollaborationSelection(root);
+  const existing = new Map<string, HTMLElement>();
+  Array.from(root.children).forEach(element => {
+    const id = element.getAttribute(BLOCK_ID_ATTRIBUTE);
+    if (id && !existing.has(id)) existing.set(id, element as HTMLElement);
+  });
+
+  blocks.forEach((block, index) => {
+    let element = existing.get(block.id);
+    if (!element || getBlockHtml(element) !== block.html) {
+      const replacement = createBlockElement(block.html, block.id);
+      element?.replaceWith(replacement);
+      element = replacement;
+    }
+    if (root.childNodes[index] !== element) root.insertBefore(element, root.childNodes[index] || null);
+  });
+  while (root.childNodes.length > blocks.length) root.lastChild!.remove();
+
+  const anchor = saved && hadFocus ? resolveCollaborationPosition(root, saved.anchor) : null;
+  const focus = saved && hadFocus ? resolveCollaborationPosition(root, saved.focus) : null;
+  if (anchor && focus) {
+    window.getSelection()?.setBaseAndExtent(anchor.node, anchor.offset, focus.node, focus.offset);
+  }
+};
+
+/** Writes back the ids `BlockDocument.update` assigned to the blocks from `readBlocks`. */
+export const setBlockIds = (elements: HTMLElement[], ids: string[]): void => {
+  elements.forEach((element, index) => {
+    if (element.getAttribute(BLOCK_ID_ATTRIBUTE) !== ids[index]) element.setAttribute(BLOCK_ID_ATTRIBUTE, ids[index]);
+  });
+};
+
+/**
+ * Carries a remote change from `before` to `after` into an undo step, so undoing local
+ * edits does not revert other people's. Blocks the change inserted, updated or deleted
+ * take their new state; the step's other blocks stay as they were.
+ */
+export const rebaseHistoryEntry = (entry: HistoryEntry, before: Block[], after: Block[]): HistoryEntry => {
+  const template = document.createElement("template");
+  template.innerHTML = entry.html;
+  const root = template.content;
+  const originalNodes = Array.from(root.childNodes);
+  const elements = new Map<string, Element>();
+  Array.from(root.children).forEach(element => {
+    const id = element.getAttribute(BLOCK_ID_ATTRIBUTE);
+    if (id && !elements.has(id)) elements.set(id, element);
+  });
+  const previous = new Map(before.map(block => [block.id, block.html]));
+  const remaining = new Set(after.map(block => block.id));
+  // Top-level nodes that were swapped out, so the selection can follow them.
+  const replaced = new Map<ChildNode, ChildNode>();
+
+  before.forEach(block => {
+    if (!remaining.has(block.id)) elements.get(block.id)?.remove();
+  });
+  let last: Node | null = null;
+  after.forEach(block => {
+    const element = elements.get(block.id);
+    if (!previous.has(block.id)) {
+      const inserted = createBlockElement(block.html, block.id);
+      root.insertBefore(inserted, last ? last.nextSibling : root.firstChild);
+      last = inserted;
+    } else if (element && previous.get(block.id) !== block.html) {
+      const replacement = createBlockElement(block.html, block.id);
+      element.replaceWith(replacement);
+      replaced.set(element, replacement);
+      last = replacement;
+    } else if (element) {
+      last = element;
+    }
+  });
+
+  const nodes = Array.from(root.childNodes);
+  const movePath = (path: number[]): number[] | null => {
+    const node = originalNodes[path[0]];
+    const index = node ? nodes.indexOf(replaced.get(node) || node) : -1;
+    return index === -1 ? null : [index, ...path.slice(1)];
+  };
+  const { selection } = entry;
+  const anchorPath = selection && movePath(selection.anchorPath);
+  const focusPath = selection && movePath(selection.focusPath);
+  return {
+    html: template.innerHTML,
+    selection: selection && anchorPath && focusPath ? { ...selection, anchorPath, focusPath } : null,
+  };
+};
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { createBlockDocument, createInitialOperations, type BlockDocument } from "./crdt";
+
+const html = (document: BlockDocument) => document.blocks().map(block => block.html);
+
+/** Exchanges full state both ways, the way `hello` and `state` messages do. */
+const sync = (a: BlockDocument, b: BlockDocument) => {
+  const snapshot = a.snapshot();
+  a.apply(b.snapshot());
+  b.apply(snapshot);
+};
+
+describe("createBlockDocument", () => {
+  it("merges replicas that start from the same content", () => {
+    const a = createBlockDocument("a");
+    const b = createBlockDocument("b");
+    a.apply(createInitialOperations(["<p>One</p>", "<p>Two</p>"]));
+    b.apply(createInitialOperations(["<p>One</p>", "<p>Two</p>"]));
+    sync(a, b);
+    expect(html(a)).toEqual(["<p>One</p>", "<p>Two</p>"]);
+    expect(html(b)).toEqual(html(a));
+  });
+
+  it("converges when replicas start from different content", () => {
+    const a = createBlockDocument("a");
+    const b = createBlockDocument("b");
+    a.apply(createInitialOperations(["<p>A</p>"]));
+    b.apply(createInitialOperations(["<p>B</p>"]));
+    sync(a, b);
+    expect(html(a)).toEqual(html(b));
+    expect([...html(a)].sort()).toEqual(["<p>A</p>", "<p>B</p>"]);
+  });
+
+  it("converges when initial inserts collide on an id", () => {
+    const a = createBlockDocument("a");
+    const b = createBlockDocument("b");
+    const [first] = createInitialOperations(["<p>A</p>"]);
+    if (first.type !== "insert") throw new Error("expected an insert");
+    a.apply([first]);
+    b.apply([{ ...first, html: "<p>B</p>" }]);
+    sync(a, b);
+    expect(html(a)).toEqual(html(b));
+  });
+
+  it("merges a value loaded late on both replicas instead of duplicating it", () => {
+    const a = createBlockDocument("a");
+    const b = createBlockDocument("b");
+    a.apply(createInitialOperations(["<p><br></p>"]));
+    b.apply(createInitialOperations(["<p><br></p>"]));
+    sync(a, b);
+
+    const fromA = a.load(["<p>Saved</p>", "<p>Document</p>"]).operations;
+    const fromB = b.load(["<p>Saved</p>", "<p>Document</p>"]).operations;
+    a.apply(fromB);
+    b.apply(fromA);
+    expect(html(a)).toEqual(["<p>Saved</p>", "<p>Document</p>"]);
+    expect(html(b)).toEqual(html(a));
+  });
+
+  it("keeps blocks that peers added before a late value arrived", () => {
+    const a = createBlockDocument("a");
+    const b = createBlockDocument("b");
+    a.apply(createInitialOperations(["<p><br></p>"]));
+    b.apply(createInitialOperations(["<p><br></p>"]));
+    sync(a, b);
+
+    const [empty] = b.blocks();
+    a.apply(b.update([{ id: empty.id, html: "<p><br></p>" }, { id: null, html: "<p>From b</p>" }]).operations);
+    b.apply(a.load(["<p>Saved</p>"]).operations);
+    expect(html(a)).toEqual(["<p>Saved</p>", "<p>From b</p>"]);
+    expect(html(b)).toEqual(html(a));
+  });
+
+  it("keeps concurrent edits to different blocks", () => {
+    const a = createBlockDocument("a");
+    const b = createBlockDocument("b");
+    const initial = createInitialOperations(["<p>One</p>", "<p>Two</p>"]);
+    a.apply(initial);
+    b.apply(initial);
+    const [one, two] = initial.map(operation => operation.id);
+
+    const fromA = a.update([{ id: one, html: "<p>One!</p>" }, { id: two, html: "<p>Two</p>" }]).operations;
+    const fromB = b.update([{ id: one, html: "<p>One</p>" }, { id: two, html: "<p>Two!</p>" }]).operations;
+    a.apply(fromB);
+    b.apply(fromA);
+    expect(html(a)).toEqual(["<p>One!</p>", "<p>Two!</p>"]);
+    expect(html(b)).toEqual(html(a));
+  });
+});
@@ -0,0 +1,258 @@
+/** A Lamport timestamp; the client id breaks ties so every replica orders stamps the same way. */
+export interface Stamp {
+  clock: number;
+  clientId: string;
+}
+
+export type BlockOperation =
+  | { type: "insert"; id: string; after: string | null; html: string; stamp: Stamp }
+  | { type: "update"; id: string; html: string; stamp: Stamp }
+  | { type: "delete"; id: string };
+
+export interface Block {
+  id: string;
+  html: string;
+}
+
+export interface BlockDocument {
+  readonly clientId: string;
+  /**
+   * Applies operations from any replica, in any order and any number of times.
+   * Returns whether the visible blocks changed.
+   */
+  apply: (operations: BlockOperation[]) => boolean;
+  /**
+   * Records local edits: makes the document match `blocks` and returns the operations
+   * to send to other replicas. Blocks without an id, or whose id repeats or moved, are
+   * inserted as new blocks; `ids` lists the id each block ended up with.
+   */
+  update: (blocks: { id: string | null; html: string }[]) => { operations: BlockOperation[]; ids: string[] };
+  /** The visible blocks in document order. */
+  blocks: () => Block[];
+  /** Operations that rebuild this document, parents before children, for replicas that join later. */
+  snapshot: () => BlockOperation[];
+  /**
+   * Replaces the content with initial content, for a value that arrives before any local
+   * edit. The blocks get the ids of `createInitialOperations` and replace the initial
+   * blocks nobody has edited, so replicas that load the same value late still agree on it.
+   * Blocks that other replicas inserted or edited in the meantime are kept.
+   */
+  load: (htmls: string[]) => { operations: BlockOperation[]; ids: string[] };
+}
+
+interface BlockNode {
+  id: string;
+  after: string | null;
+  inserted: Stamp;
+  html: string;
+  updated: Stamp;
+  deleted: boolean;
+  /** Blocks inserted directly after this one, newest first. */
+  children: string[];
+}
+
+export const compareStamps = (a: Stamp, b: Stamp): number =>
+  a.clock - b.clock || (a.clientId < b.clientId ? -1 : a.clientId > b.clientId ? 1 : 0);
+
+const INITIAL_STAMP: Stamp = { clock: 0, clientId: "" };
+
+// 53-bit string hash (cyrb53), enough to tell blocks apart without a crypto dependency.
+const hashString = (text: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let index = 0; index < text.length; index++) {
+    const code = text.charCodeAt(index);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+/**
+ * Operations for content a replica starts from. Each id is a hash of the block's HTML
+ * and the blocks before it, so replicas loading the same content merge it instead of
+ * duplicating it, and replicas loading different content keep both.
+ */
+export const createInitialOperations = (htmls: string[]): BlockOperation[] => {
+  let after: string | null = null;
+  return htmls.map(html => {
+    const id = `initial-${hashString(`${after ?? ""}\n${html}`)}`;
+    const operation: BlockOperation = { type: "insert", id, after, html, stamp: INITIAL_STAMP };
+    after = id;
+    return operation;
+  });
+};
+
+/**
+ * A replicated list of HTML blocks (an RGA sequence of last-writer-wins registers).
+ * Concurrent edits to different blocks all survive; concurrent edits to the same
+ * block keep the one with the later stamp.
+ */
+export const createBlockDocument = (clientId: string): BlockDocument => {
+  const nodes = new Map<string, BlockNode>();
+  const roots: string[] = [];
+  let pending: BlockOperation[] = [];
+  let clock = 0;
+  let counter = 0;
+
+  const nextStamp = (): Stamp => ({ clock: ++clock, clientId });
+
+  // Siblings with equal stamps, which only initial content has, are ordered by id.
+  const compareNodes = (a: BlockNode, b: BlockNode): number =>
+    compareStamps(a.inserted, b.inserted) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+
+  const insertChild = (siblings: string[], node: BlockNode) => {
+    const index = siblings.findIndex(id => compareNodes(nodes.get(id)!, node) < 0);
+    siblings.splice(index === -1 ? siblings.length : index, 0, node.id);
+  };
+
+  const order = (): BlockNode[] => {
+    const result: BlockNode[] = [];
+    // Depth first, without recursion so long documents don't exhaust the stack.
+    const stack = [...roots].reverse();
+    while (stack.length > 0) {
+      const node = nodes.get(stack.pop()!)!;
+      result.push(node);
+      for (let index = node.children.length - 1; index >= 0; index--) stack.push(node.children[index]);
+    }
+    return result;
+  };
+
+  /** Returns `null` when the operation depends on a block this replica has not seen yet. */
+  const applyOne = (operation: BlockOperation): boolean | null => {
+    if (operation.type !== "delete") clock = Math.max(clock, operation.stamp.clock);
+
+    if (operation.type === "insert") {
+      // A repeated insert is a write of its HTML, so colliding ids resolve like updates.
+      const existing = nodes.get(operation.id);
+      if (existing) return write(existing, operation.stamp, operation.html);
+      if (operation.after !== null && !nodes.has(operation.after)) return null;
+      const node: BlockNode = {
+        id: operation.id,
+        after: operation.after,
+        inserted: operation.stamp,
+        html: operation.html,
+        updated: operation.stamp,
+        deleted: false,
+        children: [],
+      };
+      nodes.set(node.id, node);
+      insertChild(operation.after === null ? roots : nodes.get(operation.after)!.children, node);
+      return true;
+    }
+
+    const node = nodes.get(operation.id);
+    if (!node) return null;
+    if (operation.type === "delete") {
+      if (node.deleted) return false;
+      node.deleted = true;
+      return true;
+    }
+
+    return write(node, operation.stamp, operation.html);
+  };
+
+  const write = (node: BlockNode, stamp: Stamp, html: string): boolean => {
+    const comparison = compareStamps(stamp, node.updated);
+    // Equal stamps only come from initial content; prefer the larger HTML so every replica agrees.
+    if (comparison < 0 || (comparison === 0 && html <= node.html)) return false;
+    node.html = html;
+    if (comparison > 0) node.updated = stamp;
+    return !node.deleted;
+  };
+
+  const apply = (operations: BlockOperation[]): boolean => {
+    let changed = false;
+    let queue = [...pending, ...operations];
+    pending = [];
+    let progressed = true;
+    while (queue.length > 0 && progressed) {
+      progressed = false;
+      const waiting: BlockOperation[] = [];
+      for (const operation of queue) {
+        const result = applyOne(operation);
+        if (result === null) {
+          waiting.push(operation);
+        } else {
+          progressed = true;
+          changed = changed || result;
+        }
+      }
+      queue = waiting;
+    }
+    pending = queue;
+    return changed;
+  };
+
+  const update = (blocks: { id: string | null; html: string }[]) => {
+    const operations: BlockOperation[] = [];
+    const record = (operation: BlockOperation) => {
+      applyOne(operation);
+      operations.push(operation);
+    };
+    const visible = order().filter(node => !node.deleted);
+    const positions = new Map(visible.map((node, index) => [node.id, index]));
+    const ids: string[] = [];
+    let lastPosition = -1;
+
+    for (const block of blocks) {
+      const position = block.id === null ? undefined : positions.get(block.id);
+      if (block.id !== null && position !== undefined && position > lastPosition) {
+        lastPosition = position;
+        if (nodes.get(block.id)!.html !== block.html) {
+          record({ type: "update", id: block.id, html: block.html, stamp: nextStamp() });
+        }
+        ids.push(block.id);
+      } else {
+        // The newest stamp puts the insert right after the previous block, ahead of older blocks there.
+        const id = `${clientId}-${++counter}`;
+        record({ type: "insert", id, after: ids[ids.length - 1] ?? null, html: block.html, stamp: nextStamp() });
+        ids.push(id);
+      }
+    }
+
+    const kept = new Set(ids);
+    visible.forEach(node => {
+      if (!kept.has(node.id)) record({ type: "delete", id: node.id });
+    });
+    return { operations, ids };
+  };
+
+  const snapshot = (): BlockOperation[] =>
+    order().flatMap(node => {
+      const operations: BlockOperation[] = [
+        { type: "insert", id: node.id, after: node.after, html: node.html, stamp: node.inserted },
+      ];
+      if (node.updated !== node.inserted) {
+        operations.push({ type: "update", id: node.id, html: node.html, stamp: node.updated });
+      }
+      if (node.deleted) operations.push({ type: "delete", id: node.id });
+      return operations;
+    });
+
+  const load = (htmls: string[]) => {
+    const operations: BlockOperation[] = createInitialOperations(htmls);
+    operations.forEach(operation => applyOne(operation));
+    const ids = operations.map(operation => operation.id);
+    const kept = new Set(ids);
+    order().forEach(node => {
+      const initial = compareStamps(node.updated, INITIAL_STAMP) === 0;
+      if (node.deleted || kept.has(node.id) || !initial) return;
+      const operation: BlockOperation = { type: "delete", id: node.id };
+      applyOne(operation);
+      operations.push(operation);
+    });
+    return { operations, ids };
+  };
+
+  return {
+    clientId,
+    apply,
+    update,
+    blocks: () => order().filter(node => !node.deleted).map(({ id, html }) => ({ id, html })),
+    snapshot,
+    load,
+  };
+};
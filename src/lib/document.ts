@@ -0,0 +1,621 @@
+import {
+  escapeAttribute,
+  escapeText,
+  getTextContent,
+  parseHtml,
+  type HtmlElementNode,
+  type HtmlNode,
+} from "./htmlParser";
+import { getLanguageFromClass } from "./codeBlock";
+import { getImageBoxStyle, parseImageAlign, parseImageWidth, type ImageAlign } from "./image";
+
+export type EditorMark =
+  | { type: "bold" }
+  | { type: "italic" }
+  | { type: "underline" }
+  | { type: "strikethrough" }
+  | { type: "code" }
+  | { type: "link"; href: string; target?: string; rel?: string }
+  | { type: "color"; color: string }
+  | { type: "highlight"; color: string }
+  | { type: "fontSize"; size: string };
+
+export type EditorMarkType = EditorMark["type"];
+
+export type EditorInline =
+  | { type: "text"; text: string; marks?: EditorMark[] }
+  | { type: "image"; src: string; alt?: string; width?: number; align?: ImageAlign }
+  | { type: "mention"; id: string; label: string; trigger: string }
+  | { type: "hardBreak" };
+
+export type TextAlign = "left" | "center" | "right" | "justify";
+
+/** An explicit base direction. Blocks without one follow their first strong character. */
+export type TextDirection = "ltr" | "rtl";
+
+export interface EditorListItem {
+  content: EditorBlock[];
+}
+
+export interface EditorTableCell {
+  header?: boolean;
+  colspan?: number;
+  rowspan?: number;
+  content: EditorBlock[];
+}
+
+export interface EditorTableRow {
+  cells: EditorTableCell[];
+}
+
+export type EditorBlock =
+  | { type: "paragraph"; align?: TextAlign; dir?: TextDirection; content: EditorInline[] }
+  | { type: "heading"; level: 1 | 2 | 3 | 4 | 5 | 6; align?: TextAlign; dir?: TextDirection; content: EditorInline[] }
+  | { type: "blockquote"; dir?: TextDirection; content: EditorBlock[] }
+  | { type: "codeBlock"; language?: string; text: string }
+  | { type: "bulletList"; dir?: TextDirection; items: EditorListItem[] }
+  | { type: "orderedList"; start?: number; dir?: TextDirection; items: EditorListItem[] }
+  | { type: "table"; rows: EditorTableRow[] }
+  | { type: "figure"; src: string; alt?: string; width?: number; align?: ImageAlign; caption: string }
+  | { type: "horizontalRule" };
+
+export interface EditorDocument {
+  type: "doc";
+  content: EditorBlock[];
+}
+
+// Canonical nesting order of marks, outermost first.
+const MARK_ORDER: EditorMarkType[] = [
+  "link",
+  "fontSize",
+  "color",
+  "highlight",
+  "bold",
+  "italic",
+  "underline",
+  "strikethrough",
+  "code",
+];
+
+// Maps the legacy `<font size>` values produced by execCommand("fontSize").
+export const FONT_SIZE_KEYWORDS = ["x-small", "small", "medium", "large", "x-large", "xx-large", "xxx-large"] as const;
+
+const BLOCK_TAGS = new Set([
+  "p",
+  "div",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "blockquote",
+  "pre",
+  "ul",
+  "ol",
+  "li",
+  "hr",
+  "section",
+  "article",
+  "header",
+  "footer",
+  "main",
+  "aside",
+  "nav",
+  "figure",
+  "table",
+]);
+
+export const createEmptyDocument = (): EditorDocument => ({ type: "doc", content: [] });
+
+const parseStyle = (style: string | undefined): Record<string, string> => {
+  const declarations: Record<string, string> = {};
+  (style || "").split(";").forEach(declaration => {
+    const separator = declaration.indexOf(":");
+    if (separator === -1) return;
+    const property = declaration.slice(0, separator).trim().toLowerCase();
+    const value = declaration.slice(separator + 1).trim();
+    if (property && value) declarations[property] = value;
+  });
+  return declarations;
+};
+
+const marksEqual = (a: EditorMark, b: EditorMark): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+const addMark = (marks: EditorMark[], mark: EditorMark): EditorMark[] => {
+  // The innermost mark of a type wins, e.g. a nested color overrides the outer one.
+  const next = marks.filter(existing => existing.type !== mark.type);
+  next.push(mark);
+  return next.sort((a, b) => MARK_ORDER.indexOf(a.type) - MARK_ORDER.indexOf(b.type));
+};
+
+const hasBlockDescendant = (node: HtmlElementNode): boolean => {
+  return node.children.some(
+    child => child.type === "element" && (BLOCK_TAGS.has(child.tagName) || hasBlockDescendant(child)),
+  );
+};
+
+const getAlign = (node: HtmlElementNode): TextAlign | undefined => {
+  const align = (parseStyle(node.attributes.style)["text-align"] || node.attributes.align || "").toLowerCase();
+  return align === "left" || align === "center" || align === "right" || align === "justify" ? align : undefined;
+};
+
+const getDirection = (node: HtmlElementNode): { dir?: TextDirection } => {
+  const dir = (node.attributes.dir || "").toLowerCase();
+  return dir === "ltr" || dir === "rtl" ? { dir } : {};
+};
+
+const marksFromElement = (node: HtmlElementNode, marks: EditorMark[]): EditorMark[] => {
+  let next = marks;
+  const style = parseStyle(node.attributes.style);
+
+  switch (node.tagName) {
+    case "strong":
+    case "b":
+      next = addMark(next, { type: "bold" });
+      break;
+    case "em":
+    case "i":
+      next = addMark(next, { type: "italic" });
+      break;
+    case "u":
+    case "ins":
+      next = addMark(next, { type: "underline" });
+      break;
+    case "s":
+    case "strike":
+    case "del":
+      next = addMark(next, { type: "strikethrough" });
+      break;
+    case "code":
+      next = addMark(next, { type: "code" });
+      break;
+    case "a":
+      if (node.attributes.href) {
+        const link: EditorMark = { type: "link", href: node.attributes.href };
+        if (node.attributes.target) link.target = node.attributes.target;
+        if (node.attributes.rel) link.rel = node.attributes.rel;
+        next = addMark(next, link);
+      }
+      break;
+    case "font": {
+      if (node.attributes.color) {
+        next = addMark(next, { type: "color", color: node.attributes.color });
+      }
+      const size = parseInt(node.attributes.size || "", 10);
+      if (size >= 1 && size <= 7) {
+        next = addMark(next, { type: "fontSize", size: FONT_SIZE_KEYWORDS[size - 1] });
+      }
+      break;
+    }
+  }
+
+  const fontWeight = style["font-weight"];
+  if (fontWeight === "bold" || fontWeight === "bolder" || parseInt(fontWeight, 10) >= 600) {
+    next = addMark(next, { type: "bold" });
+  }
+  if (style["font-style"] === "italic") {
+    next = addMark(next, { type: "italic" });
+  }
+  const decoration = style["text-decoration"] || style["text-decoration-line"] || "";
+  if (decoration.includes("underline") && node.tagName !== "a") {
+    next = addMark(next, { type: "underline" });
+  }
+  if (decoration.includes("line-through")) {
+    next = addMark(next, { type: "strikethrough" });
+  }
+  if (style.color && node.tagName !== "a") {
+    next = addMark(next, { type: "color", color: style.color });
+  }
+  if (style["background-color"]) {
+    next = addMark(next, { type: "highlight", color: style["background-color"] });
+  }
+  if (style["font-size"]) {
+    next = addMark(next, { type: "fontSize", size: style["font-size"] });
+  }
+
+  return next;
+};
+
+const pushText = (inlines: EditorInline[], text: string, marks: EditorMark[]) => {
+  if (!text) return;
+  const last = inlines[inlines.length - 1];
+  const lastMarks = last && last.type === "text" ? last.marks || [] : null;
+  if (
+    last &&
+    last.type === "text" &&
+    lastMarks &&
+    lastMarks.length === marks.length &&
+    lastMarks.every((mark, index) => marksEqual(mark, marks[index]))
+  ) {
+    last.text += text;
+    return;
+  }
+  inlines.push(marks.length ? { type: "text", text, marks } : { type: "text", text });
+};
+
+const parseInlines = (nodes: HtmlNode[], marks: EditorMark[] = [], inlines: EditorInline[] = []): EditorInline[] => {
+  nodes.forEach(node => {
+    if (node.type === "text") {
+      // Zero-width spaces are caret anchors inserted by the editor, not content.
+      pushText(inlines, node.value.replace(/\u200b/g, ""), marks);
+      return;
+    }
+    if (node.tagName === "br") {
+      inlines.push({ type: "hardBreak" });
+      return;
+    }
+    if (node.tagName === "img") {
+      if (!node.attributes.src) return;
+      const style = parseStyle(node.attributes.style);
+      const image: EditorInline = { type: "image", src: node.attributes.src };
+      if (node.attributes.alt) image.alt = node.attributes.alt;
+      const width = parseImageWidth(style.width || node.attributes.width);
+      const align = parseImageAlign(style.margin);
+      if (width) image.width = width;
+      if (align) image.align = align;
+      inlines.push(image);
+      return;
+    }
+    if (node.attributes["data-mention-id"]) {
+      const trigger = node.attributes["data-mention-trigger"] || "";
+      const text = getTextContent(node.children);
+      const label = trigger && text.startsWith(trigger) ? text.slice(trigger.length) : text;
+      inlines.push({ type: "mention", id: node.attributes["data-mention-id"], label, trigger });
+      return;
+    }
+    parseInlines(node.children, marksFromElement(node, marks), inlines);
+  });
+  return inlines;
+};
+
+const trimTrailingBreak = (inlines: EditorInline[]): EditorInline[] => {
+  // Browsers keep a trailing <br> so empty blocks stay selectable; it is not content.
+  const last = inlines[inlines.length - 1];
+  return last && last.type === "hardBreak" ? inlines.slice(0, -1) : inlines;
+};
+
+const isWhitespaceOnly = (nodes: HtmlNode[]): boolean => {
+  return nodes.every(node => node.type === "text" && node.value.trim() === "");
+};
+
+const parseListItems = (list: HtmlElementNode): EditorListItem[] => {
+  const items: EditorListItem[] = [];
+  list.children.forEach(child => {
+    if (child.type === "element" && child.tagName === "li") {
+      items.push({ content: parseBlocks(child.children) });
+      return;
+    }
+    if (child.type === "text" && child.value.trim() === "") return;
+
+    // Nested lists written directly inside a list belong to the previous item.
+    const blocks = parseBlocks([child]);
+    if (items.length) {
+      items[items.length - 1].content.push(...blocks);
+    } else {
+      items.push({ content: blocks });
+    }
+  });
+  return items;
+};
+
+const parseSpan = (value: string | undefined): number | undefined => {
+  const span = parseInt(value || "", 10);
+  return span > 1 ? span : undefined;
+};
+
+const parseTableRows = (node: HtmlElementNode, rows: EditorTableRow[] = []): EditorTableRow[] => {
+  node.children.forEach(child => {
+    if (child.type !== "element") return;
+    if (child.tagName === "thead" || child.tagName === "tbody" || child.tagName === "tfoot") {
+      parseTableRows(child, rows);
+      return;
+    }
+    if (child.tagName !== "tr") return;
+
+    const cells: EditorTableCell[] = [];
+    child.children.forEach(cellNode => {
+      if (cellNode.type !== "element" || (cellNode.tagName !== "td" && cellNode.tagName !== "th")) return;
+      const cell: EditorTableCell = { content: parseBlocks(cellNode.children) };
+      if (cellNode.tagName === "th") cell.header = true;
+      const colspan = parseSpan(cellNode.attributes.colspan);
+      const rowspan = parseSpan(cellNode.attributes.rowspan);
+      if (colspan) cell.colspan = colspan;
+      if (rowspan) cell.rowspan = rowspan;
+      cells.push(cell);
+    });
+    rows.push({ cells });
+  });
+  return rows;
+};
+
+const parseCodeText = (nodes: HtmlNode[]): string => {
+  return nodes
+    .map(node => {
+      if (node.type === "text") return node.value;
+      if (node.tagName === "br") return "\n";
+      const text = parseCodeText(node.children);
+      return node.tagName === "div" || node.tagName === "p" ? `${text}\n` : text;
+    })
+    .join("");
+};
+
+const findElement = (nodes: HtmlNode[], tagName: string): HtmlElementNode | undefined => {
+  for (const node of nodes) {
+    if (node.type !== "element") continue;
+    const found = node.tagName === tagName ? node : findElement(node.children, tagName);
+    if (found) return found;
+  }
+  return undefined;
+};
+
+const parseBlocks = (nodes: HtmlNode[]): EditorBlock[] => {
+  const blocks: EditorBlock[] = [];
+  let run: HtmlNode[] = [];
+
+  const flushRun = () => {
+    if (run.length && !isWhitespaceOnly(run)) {
+      blocks.push({ type: "paragraph", content: trimTrailingBreak(parseInlines(run)) });
+    }
+    run = [];
+  };
+
+  nodes.forEach(node => {
+    if (node.type === "text" || (!BLOCK_TAGS.has(node.tagName) && !hasBlockDescendant(node))) {
+      run.push(node);
+      return;
+    }
+
+    flushRun();
+    const align = getAlign(node);
+    const direction = getDirection(node);
+
+    switch (node.tagName) {
+      case "h1":
+      case "h2":
+      case "h3":
+      case "h4":
+      case "h5":
+      case "h6": {
+        const level = Number(node.tagName[1]) as 1 | 2 | 3 | 4 | 5 | 6;
+        const content = trimTrailingBreak(parseInlines(node.children));
+        blocks.push({ type: "heading", level, ...(align ? { align } : {}), ...direction, content });
+        break;
+      }
+      case "blockquote":
+        blocks.push({ type: "blockquote", ...direction, content: parseBlocks(node.children) });
+        break;
+      case "pre": {
+        const code = node.children.find(
+          (child): child is HtmlElementNode => child.type === "element" && child.tagName === "code",
+        );
+        const language = getLanguageFromClass(code?.attributes.class || node.attributes.class || "");
+        const text = parseCodeText(node.children).replace(/\n$/, "");
+        blocks.push({ type: "codeBlock", ...(language ? { language } : {}), text });
+        break;
+      }
+      case "ul":
+        blocks.push({ type: "bulletList", ...direction, items: parseListItems(node) });
+        break;
+      case "ol": {
+        const start = parseInt(node.attributes.start || "", 10);
+        const items = parseListItems(node);
+        blocks.push({ type: "orderedList", ...(start && start !== 1 ? { start } : {}), ...direction, items });
+        break;
+      }
+      case "li":
+        blocks.push({ type: "bulletList", items: [{ content: parseBlocks(node.children) }] });
+        break;
+      case "hr":
+        blocks.push({ type: "horizontalRule" });
+        break;
+      case "table":
+        blocks.push({ type: "table", rows: parseTableRows(node) });
+        break;
+      case "figure": {
+        const image = findElement(node.children, "img");
+        if (image?.attributes.src) {
+          // The figure holds the size and alignment; the image just fills it.
+          const style = parseStyle(node.attributes.style);
+          const figcaption = findElement(node.children, "figcaption");
+          const width = parseImageWidth(style.width);
+          const imageAlign = parseImageAlign(style.margin);
+          blocks.push({
+            type: "figure",
+            src: image.attributes.src,
+            ...(image.attributes.alt ? { alt: image.attributes.alt } : {}),
+            ...(width ? { width } : {}),
+            ...(imageAlign ? { align: imageAlign } : {}),
+            caption: figcaption ? getTextContent(figcaption.children).trim() : "",
+          });
+          break;
+        }
+        blocks.push(...parseBlocks(node.children));
+        break;
+      }
+      default: {
+        if (hasBlockDescendant(node)) {
+          blocks.push(...parseBlocks(node.children));
+          break;
+        }
+        const content = trimTrailingBreak(parseInlines(node.children));
+        blocks.push({ type: "paragraph", ...(align ? { align } : {}), ...direction, content });
+      }
+    }
+  });
+
+  flushRun();
+  return blocks;
+};
+
+/**
+ * Converts editor HTML into a document tree. Equivalent markup such as
+ * `<b>`/`<strong>` or `<font size>`/`font-size` maps to the same marks.
+ */
+export const htmlToDocument = (html: string): EditorDocument => {
+  return { type: "doc", content: parseBlocks(parseHtml(html)) };
+};
+
+const renderMarkOpen = (mark: EditorMark): string => {
+  switch (mark.type) {
+    case "bold":
+      return "<strong>";
+    case "italic":
+      return "<em>";
+    case "underline":
+      return "<u>";
+    case "strikethrough":
+      return "<s>";
+    case "code":
+      return "<code>";
+    case "link": {
+      let attributes = ` href="${escapeAttribute(mark.href)}"`;
+      if (mark.target) attributes += ` target="${escapeAttribute(mark.target)}"`;
+      if (mark.rel) attributes += ` rel="${escapeAttribute(mark.rel)}"`;
+      return `<a${attributes}>`;
+    }
+    case "color":
+      return `<span style="color: ${escapeAttribute(mark.color)}">`;
+    case "highlight":
+      return `<span style="background-color: ${escapeAttribute(mark.color)}">`;
+    case "fontSize":
+      return `<span style="font-size: ${escapeAttribute(mark.size)}">`;
+  }
+};
+
+const MARK_CLOSE_TAGS: Record<EditorMarkType, string> = {
+  bold: "</strong>",
+  italic: "</em>",
+  underline: "</u>",
+  strikethrough: "</s>",
+  code: "</code>",
+  link: "</a>",
+  color: "</span>",
+  highlight: "</span>",
+  fontSize: "</span>",
+};
+
+const getMarks = (inline: EditorInline): EditorMark[] => (inline.type === "text" ? inline.marks || [] : []);
+
+const renderInlines = (inlines: EditorInline[], depth = 0): string => {
+  let html = "";
+  let index = 0;
+
+  while (index < inlines.length) {
+    const inline = inlines[index];
+    const mark = getMarks(inline)[depth];
+
+    if (mark) {
+      // Group neighbours that share this mark so it is only opened once.
+      let end = index + 1;
+      while (end < inlines.length && getMarks(inlines[end])[depth] && marksEqual(getMarks(inlines[end])[depth], mark)) {
+        end++;
+      }
+      html += renderMarkOpen(mark) + renderInlines(inlines.slice(index, end), depth + 1) + MARK_CLOSE_TAGS[mark.type];
+      index = end;
+      continue;
+    }
+
+    if (inline.type === "text") {
+      html += escapeText(inline.text);
+    } else if (inline.type === "hardBreak") {
+      html += "<br>";
+    } else if (inline.type === "mention") {
+      html += `<span data-mention-id="${escapeAttribute(inline.id)}" data-mention-trigger="${escapeAttribute(inline.trigger)}">${escapeText(inline.trigger + inline.label)}</span>`;
+    } else {
+      const style = getImageBoxStyle(inline.width, inline.align);
+      html += `<img src="${escapeAttribute(inline.src)}" alt="${escapeAttribute(inline.alt || "")}"${style ? ` style="${style}"` : ""}>`;
+    }
+    index++;
+  }
+
+  return html;
+};
+
+const renderDirection = (dir?: TextDirection): string => (dir ? ` dir="${dir}"` : "");
+
+const renderTextBlock = (tagName: string, content: EditorInline[], align?: TextAlign, dir?: TextDirection): string => {
+  const style = (align ? ` style="text-align: ${align}"` : "") + renderDirection(dir);
+  const inner = renderInlines(content);
+  const last = content[content.length - 1];
+  // Keep empty blocks (and blocks ending in a line break) visible in the browser.
+  const filler = !content.length || (last && last.type === "hardBreak") ? "<br>" : "";
+  return `<${tagName}${style}>${inner}${filler}</${tagName}>`;
+};
+
+const renderListItem = (item: EditorListItem): string => {
+  const [first, ...rest] = item.content;
+  if (first && first.type === "paragraph" && !first.align && !first.dir) {
+    return `<li>${renderInlines(first.content)}${renderBlocks(rest)}</li>`;
+  }
+  return `<li>${renderBlocks(item.content)}</li>`;
+};
+
+const renderTableCell = (cell: EditorTableCell): string => {
+  const tagName = cell.header ? "th" : "td";
+  let attributes = "";
+  if (cell.colspan && cell.colspan > 1) attributes += ` colspan="${cell.colspan}"`;
+  if (cell.rowspan && cell.rowspan > 1) attributes += ` rowspan="${cell.rowspan}"`;
+  const [first, ...rest] = cell.content;
+  if (!first) return `<${tagName}${attributes}><br></${tagName}>`;
+  if (first.type === "paragraph" && !first.align && !first.dir && !rest.length) {
+    return renderTextBlock(tagName, first.content).replace(`<${tagName}>`, `<${tagName}${attributes}>`);
+  }
+  return `<${tagName}${attributes}>${renderBlocks(cell.content)}</${tagName}>`;
+};
+
+const renderTable = (rows: EditorTableRow[]): string => {
+  const renderRow = (row: EditorTableRow) => `<tr>${row.cells.map(renderTableCell).join("")}</tr>`;
+  // Leading rows made only of header cells form the table head.
+  let headerCount = 0;
+  while (
+    headerCount < rows.length &&
+    rows[headerCount].cells.length &&
+    rows[headerCount].cells.every(cell => cell.header)
+  ) {
+    headerCount++;
+  }
+  const head = headerCount ? `<thead>${rows.slice(0, headerCount).map(renderRow).join("")}</thead>` : "";
+  const body = rows.length > headerCount ? `<tbody>${rows.slice(headerCount).map(renderRow).join("")}</tbody>` : "";
+  return `<table>${head}${body}</table>`;
+};
+
+const renderBlocks = (blocks: EditorBlock[]): string => {
+  return blocks
+    .map(block => {
+      switch (block.type) {
+        case "paragraph":
+          return renderTextBlock("p", block.content, block.align, block.dir);
+        case "heading":
+          return renderTextBlock(`h${block.level}`, block.content, block.align, block.dir);
+        case "blockquote":
+          return `<blockquote${renderDirection(block.dir)}>${renderBlocks(block.content)}</blockquote>`;
+        case "codeBlock":
+          return block.language
+            ? `<pre><code class="language-${escapeAttribute(block.language)}">${escapeText(block.text)}</code></pre>`
+            : `<pre><code>${escapeText(block.text)}</code></pre>`;
+        case "bulletList":
+          return `<ul${renderDirection(block.dir)}>${block.items.map(renderListItem).join("")}</ul>`;
+        case "orderedList": {
+          const start = block.start && block.start !== 1 ? ` start="${block.start}"` : "";
+          return `<ol${start}${renderDirection(block.dir)}>${block.items.map(renderListItem).join("")}</ol>`;
+        }
+        case "table":
+          return renderTable(block.rows);
+        case "figure": {
+          const style = getImageBoxStyle(block.width, block.align);
+          const image = `<img src="${escapeAttribute(block.src)}" alt="${escapeAttribute(block.alt || "")}" style="width: 100%; margin: 0px">`;
+          const caption = block.caption ? `<figcaption>${escapeText(block.caption)}</figcaption>` : "";
+          return `<figure${style ? ` style="${style}"` : ""}>${image}${caption}</figure>`;
+        }
+        case "horizontalRule":
+          return "<hr>";
+      }
+    })
+    .join("");
+};
+
+/**
+ * Renders a document tree to canonical HTML. Does not depend on the DOM or React.
+ */
+export const documentToHtml = (doc: EditorDocument): string => renderBlocks(doc.content);
@@ -0,0 +1,49 @@
+// Nodes carrying this attribute exist only while editing and are left out of `onChange` output.
+export const TRANSIENT_ATTRIBUTE = "data-editor-transient";
+
+/** Returns the editor HTML without transient editing-only nodes. */
+export const getContentHtml = (root: HTMLElement): string => {
+  if (!root.querySelector(`[${TRANSIENT_ATTRIBUTE}]`)) {
+    return root.innerHTML;
+  }
+  const clone = root.cloneNode(true) as HTMLElement;
+  clone.querySelectorAll(`[${TRANSIENT_ATTRIBUTE}]`).forEach(node => node.remove());
+  return clone.innerHTML;
+};
+
+/** Position of a range's start relative to `container`, for anchoring popups below the caret. */
+export const getRangePosition = (range: Range, container: HTMLElement): { top: number; left: number } | null => {
+  const collapsed = range.cloneRange();
+  collapsed.collapse(true);
+  let rect: DOMRect | undefined = collapsed.getClientRects()[0];
+  if (!rect) {
+    // Collapsed ranges in empty elements have no client rects; use the element instead.
+    const node = collapsed.startContainer;
+    rect = (node.nodeType === Node.ELEMENT_NODE ? (node as HTMLElement) : node.parentElement)?.getBoundingClientRect();
+  }
+  if (!rect) return null;
+  const containerRect = container.getBoundingClientRect();
+  return { top: rect.bottom - containerRect.top + 4, left: rect.left - containerRect.left };
+};
+
+const FOCUSABLE_SELECTOR =
+  'a[href], button:not(:disabled), input:not(:disabled):not([type="hidden"]), select:not(:disabled), textarea:not(:disabled), [tabindex]:not([tabindex="-1"])';
+
+/** Keeps Tab and Shift+Tab cycling through the focusable elements of a dialog instead of leaving it. */
+export const trapFocus = (event: { key: string; shiftKey: boolean; preventDefault: () => void }, container: HTMLElement) => {
+  if (event.key !== "Tab") return;
+  // Hidden elements, like a file input behind its button, have no layout box.
+  const elements = Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR)).filter(
+    element => element.getClientRects().length > 0,
+  );
+  const active = document.activeElement;
+  if (!elements.length) {
+    event.preventDefault();
+  } else if (event.shiftKey && (active === elements[0] || !container.contains(active))) {
+    event.preventDefault();
+    elements[elements.length - 1].focus();
+  } else if (!event.shiftKey && (active === elements[elements.length - 1] || !container.contains(active))) {
+    event.preventDefault();
+    elements[0].focus();
+  }
+};
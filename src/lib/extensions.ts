@@ -0,0 +1,128 @@
+import type { ReactNode } from "react";
+import type { TextEditorMessages } from "./messages";
+
+/** Plain text, or a function reading it from the editor's messages so it follows `locale`. */
+export type EditorLabel = string | ((messages: TextEditorMessages) => string);
+
+export interface TextEditorSelectionFormats {
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  strikeThrough: boolean;
+  alignLeft: boolean;
+  alignCenter: boolean;
+  alignRight: boolean;
+  orderedList: boolean;
+  unorderedList: boolean;
+  inTable: boolean;
+  tableHeaderRow: boolean;
+  multipleCells: boolean;
+  /** The block at the caret reads right-to-left, explicitly or from its text. */
+  rtl: boolean;
+}
+
+/** Dialogs owned by the editor that extensions can open. */
+export type EditorDialog = "link" | "image" | "table" | "shortcuts" | "find" | "replace";
+
+export interface EditorCommandContext {
+  /** The editor's content element. */
+  element: HTMLDivElement;
+  /** The caret range in the editor, or the last one it had, or the end of the content. */
+  getRange: () => Range | null;
+  /** Runs `document.execCommand` on the editor and commits the result. */
+  execCommand: (command: string, value?: string) => void;
+  /** Inserts HTML at the caret (sanitized when `sanitize` is on) and commits the result. */
+  insertHTML: (html: string) => void;
+  /** Records the current content as an undo step and emits `onChange`. Call after editing the DOM directly. */
+  commit: () => void;
+  openDialog: (dialog: EditorDialog) => void;
+  undo: () => void;
+  redo: () => void;
+  /** The UI strings for the editor's `locale`, e.g. for placeholder text a command inserts. */
+  messages: TextEditorMessages;
+}
+
+/**
+ * Runs a command. Returning `false` means the command did not apply, so a
+ * shortcut bound to it falls through to the browser's default behavior.
+ */
+export type EditorCommand = (context: EditorCommandContext, value?: string) => boolean | void;
+
+export interface EditorSelectionContext {
+  element: HTMLDivElement;
+  selection: Selection;
+  /** Elements from the selection anchor up to, but not including, the editor element. */
+  ancestors: HTMLElement[];
+  formats: TextEditorSelectionFormats;
+}
+
+export interface EditorToolbarState {
+  formats: TextEditorSelectionFormats;
+  /** Commands whose `isActive` detector matched the current selection. */
+  active: Record<string, boolean>;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+interface ToolbarItemBase {
+  /** Tooltip text and accessible name. */
+  label: EditorLabel;
+  /** A separator is drawn between neighbouring items of different groups. */
+  group?: string;
+  isVisible?: (state: EditorToolbarState) => boolean;
+  isEnabled?: (state: EditorToolbarState) => boolean;
+}
+
+export interface ToolbarButtonItem extends ToolbarItemBase {
+  type: "button";
+  command: string;
+  value?: string;
+  /** Shown instead of the label text. */
+  icon?: ReactNode;
+  /** Editor dialog the command opens; it is anchored below this button. */
+  dialog?: EditorDialog;
+}
+
+export interface ToolbarDropdownItem extends ToolbarItemBase {
+  type: "dropdown";
+  /** Runs with the chosen option's value. */
+  command: string;
+  options: { label: EditorLabel; value: string }[];
+  defaultValue?: string;
+}
+
+export interface ToolbarColorPickerItem extends ToolbarItemBase {
+  type: "colorPicker";
+  /** Runs with the chosen color as a hex string. */
+  command: string;
+}
+
+export type ToolbarItem = ToolbarButtonItem | ToolbarDropdownItem | ToolbarColorPickerItem;
+
+export interface ExtensionSlashCommand {
+  id: string;
+  label: EditorLabel;
+  description?: EditorLabel;
+  keywords?: string[];
+  command: string;
+  value?: string;
+}
+
+export interface EditorExtension {
+  /** Extensions named like an `allowedFormats` key are left out when that format is off. */
+  name: string;
+  /** Commands by name. A later extension's command replaces an earlier one with the same name. */
+  commands?: Record<string, EditorCommand>;
+  toolbar?: ToolbarItem[];
+  /** Key bindings such as `"Mod-b"` or `"Shift-Tab"`, mapped to command names. */
+  shortcuts?: Record<string, string>;
+  /** Names shown in the shortcut help for commands that have no toolbar item or slash command. */
+  labels?: Record<string, EditorLabel>;
+  /** Active-state detectors by command name, used to highlight toolbar buttons. */
+  isActive?: Record<string, (context: EditorSelectionContext) => boolean>;
+  slashCommands?: ExtensionSlashCommand[];
+  /** Transforms pasted HTML (after clean-up in `pasteMode="clean"`) before it is inserted. */
+  pasteRules?: ((html: string) => string)[];
+  /** Transforms the editor HTML before it is sanitized and emitted through `onChange`. */
+  serializeRules?: ((html: string) => string)[];
+}
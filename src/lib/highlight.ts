@@ -0,0 +1,351 @@
+import { getCodeElement, getCodeLanguage, getCodePosition, getCodeText } from "./codeBlock";
+
+export type CodeTokenType = "comment" | "string" | "keyword" | "number" | "function" | "tag" | "attribute" | "property";
+
+export interface CodeToken {
+  type: CodeTokenType;
+  start: number;
+  end: number;
+}
+
+export interface CodeLanguage {
+  /** Stored in the `language-xxx` class. */
+  id: string;
+  label: string;
+  /** Other names in `language-xxx` classes, e.g. from Markdown fences, highlighted as this language. */
+  aliases?: string[];
+}
+
+interface TokenRule {
+  type: CodeTokenType;
+  /** Must not contain capturing groups. */
+  pattern: string;
+  /** Splits a match further; parts no inner rule matches are left plain. */
+  inside?: TokenRule[];
+}
+
+interface Grammar extends CodeLanguage {
+  rules: TokenRule[];
+  caseInsensitive?: boolean;
+}
+
+const words = (list: string) => `\\b(?:${list.trim().split(/\s+/).join("|")})\\b`;
+
+const C_COMMENT = String.raw`\/\/.*|\/\*[\s\S]*?(?:\*\/|$)`;
+const HASH_COMMENT = String.raw`(?<=^|[\s;])#.*`;
+const DOUBLE_QUOTED = String.raw`"(?:[^"\\\n]|\\.)*"?`;
+const SINGLE_QUOTED = String.raw`'(?:[^'\\\n]|\\.)*'?`;
+const BACKTICK_QUOTED = String.raw`\`(?:[^\`\\]|\\[\s\S])*\`?`;
+const NUMBER = String.raw`\b(?:0[xXbBoO][\da-fA-F_]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?)[a-zA-Z]*\b`;
+const FUNCTION = String.raw`\b[A-Za-z_$][\w$]*(?=\s*\()`;
+
+const JS_KEYWORDS = `
+  async await break case catch class const continue debugger default delete do else export extends false
+  finally for from function if import in instanceof let new null of return static super switch this throw
+  true try typeof undefined var void while with yield`;
+
+const cLike = (keywords: string, extra: TokenRule[] = [], comment = C_COMMENT): TokenRule[] => [
+  { type: "comment", pattern: comment },
+  ...extra,
+  { type: "string", pattern: DOUBLE_QUOTED },
+  { type: "string", pattern: SINGLE_QUOTED },
+  { type: "keyword", pattern: words(keywords) },
+  { type: "number", pattern: NUMBER },
+  { type: "function", pattern: FUNCTION },
+];
+
+const MARKUP_TAG: TokenRule[] = [
+  { type: "tag", pattern: String.raw`^<\/?[^\s/>]*|\/?>$` },
+  { type: "attribute", pattern: String.raw`[^\s=/>"']+(?=\s*=)` },
+  { type: "string", pattern: String.raw`"[^"]*"?|'[^']*'?` },
+];
+
+const grammars: Grammar[] = [
+  {
+    id: "javascript",
+    label: "JavaScript",
+    aliases: ["js", "jsx", "mjs", "cjs"],
+    rules: cLike(JS_KEYWORDS, [{ type: "string", pattern: BACKTICK_QUOTED }]),
+  },
+  {
+    id: "typescript",
+    label: "TypeScript",
+    aliases: ["ts", "tsx"],
+    rules: cLike(
+      `${JS_KEYWORDS} abstract any as asserts boolean declare enum implements interface is keyof namespace never
+      number object private protected public readonly satisfies string symbol type unknown`,
+      [{ type: "string", pattern: BACKTICK_QUOTED }],
+    ),
+  },
+  {
+    id: "python",
+    label: "Python",
+    aliases: ["py"],
+    rules: [
+      { type: "comment", pattern: "#.*" },
+      { type: "string", pattern: String.raw`"""[\s\S]*?(?:"""|$)|'''[\s\S]*?(?:'''|$)` },
+      { type: "string", pattern: DOUBLE_QUOTED },
+      { type: "string", pattern: SINGLE_QUOTED },
+      {
+        type: "keyword",
+        pattern: words(`
+          False None True and as assert async await break class continue def del elif else except finally for
+          from global if import in is lambda nonlocal not or pass raise return self try while with yield`),
+      },
+      { type: "number", pattern: NUMBER },
+      { type: "function", pattern: FUNCTION },
+    ],
+  },
+  {
+    id: "java",
+    label: "Java",
+    rules: cLike(`
+      abstract boolean break byte case catch char class const continue default do double else enum extends
+      false final finally float for if implements import instanceof int interface long new null package private
+      protected public return short static super switch synchronized this throw throws true try var void while`),
+  },
+  {
+    id: "c",
+    label: "C",
+    aliases: ["h"],
+    rules: cLike(
+      `auto break case char const continue default do double else enum extern float for goto if inline int long
+      register return short signed sizeof static struct switch typedef union unsigned void volatile while NULL`,
+      [{ type: "keyword", pattern: String.raw`#\s*[a-z]+` }],
+    ),
+  },
+  {
+    id: "cpp",
+    label: "C++",
+    aliases: ["c++", "cc", "hpp"],
+    rules: cLike(
+      `auto bool break case catch char class const constexpr continue default delete do double else enum
+      explicit extern false float for friend if inline int long namespace new noexcept nullptr operator private
+      protected public return short signed sizeof static struct switch template this throw true try typedef
+      typename union unsigned using virtual void volatile while`,
+      [{ type: "keyword", pattern: String.raw`#\s*[a-z]+` }],
+    ),
+  },
+  {
+    id: "csharp",
+    label: "C#",
+    aliases: ["cs", "c#"],
+    rules: cLike(`
+      abstract as async await base bool break byte case catch char class const continue decimal default
+      delegate do double else enum event false finally float for foreach get if in int interface internal is
+      long namespace new null object out override params private protected public readonly ref return sealed
+      set static string struct switch this throw true try typeof using var virtual void while`),
+  },
+  {
+    id: "go",
+    label: "Go",
+    aliases: ["golang"],
+    rules: cLike(
+      `break case chan const continue default defer else fallthrough false for func go goto if import interface
+      iota map nil package range return select struct switch true type var`,
+      [{ type: "string", pattern: "`[^`]*`?" }],
+    ),
+  },
+  {
+    id: "rust",
+    label: "Rust",
+    aliases: ["rs"],
+    rules: cLike(`
+      as async await break const continue crate dyn else enum extern false fn for if impl in let loop match mod
+      move mut pub ref return self Self static struct super trait true type unsafe use where while`),
+  },
+  {
+    id: "php",
+    label: "PHP",
+    rules: cLike(
+      `abstract and array as break case catch class clone const continue declare default do echo else elseif
+      empty extends false final finally fn for foreach function global if implements include instanceof
+      interface isset list match namespace new null or private protected public require return static switch
+      throw trait true try unset use var while yield`,
+      [{ type: "property", pattern: String.raw`\$\w+` }],
+      `${C_COMMENT}|${HASH_COMMENT}`,
+    ),
+  },
+  {
+    id: "ruby",
+    label: "Ruby",
+    aliases: ["rb"],
+    rules: [
+      { type: "comment", pattern: "#.*" },
+      { type: "string", pattern: DOUBLE_QUOTED },
+      { type: "string", pattern: SINGLE_QUOTED },
+      { type: "property", pattern: String.raw`@{1,2}\w+|:\w+` },
+      {
+        type: "keyword",
+        pattern: words(`
+          alias and begin break case class def defined do else elsif end ensure false for if in module next nil
+          not or redo rescue retry return self super then true undef unless until when while yield`),
+      },
+      { type: "number", pattern: NUMBER },
+      { type: "function", pattern: FUNCTION },
+    ],
+  },
+  {
+    id: "sql",
+    label: "SQL",
+    caseInsensitive: true,
+    rules: [
+      { type: "comment", pattern: String.raw`--.*|\/\*[\s\S]*?(?:\*\/|$)` },
+      { type: "string", pattern: String.raw`'(?:[^']|'')*'?` },
+      { type: "property", pattern: String.raw`"[^"]*"?|\x60[^\x60]*\x60?` },
+      {
+        type: "keyword",
+        pattern: words(`
+          add all alter and as asc between by case check column constraint create cross database default delete
+          desc distinct drop else end exists foreign from full group having if in index inner insert into is join
+          key left like limit not null offset on or order outer primary references right select set table then
+          union unique update values view when where with`),
+      },
+      { type: "number", pattern: NUMBER },
+      { type: "function", pattern: String.raw`\b\w+(?=\s*\()` },
+    ],
+  },
+  {
+    id: "bash",
+    label: "Bash",
+    aliases: ["sh", "shell", "zsh"],
+    rules: [
+      { type: "comment", pattern: HASH_COMMENT },
+      { type: "string", pattern: DOUBLE_QUOTED },
+      { type: "string", pattern: String.raw`'[^']*'?` },
+      { type: "property", pattern: String.raw`\$\{[^}\n]*\}?|\$[\w@#?$!*-]` },
+      {
+        type: "keyword",
+        pattern: words(`
+          case do done elif else esac export fi for function if in local readonly return select then until while`),
+      },
+      { type: "number", pattern: String.raw`\b\d+\b` },
+    ],
+  },
+  {
+    id: "html",
+    label: "HTML",
+    aliases: ["xml", "svg", "xhtml", "vue"],
+    rules: [
+      { type: "comment", pattern: String.raw`<!--[\s\S]*?(?:-->|$)` },
+      { type: "keyword", pattern: String.raw`<![A-Za-z][^>]*>?` },
+      { type: "tag", pattern: String.raw`<\/?[A-Za-z][^\s/>]*(?:[^>"']|"[^"]*"|'[^']*')*>?`, inside: MARKUP_TAG },
+      { type: "keyword", pattern: String.raw`&[#\w]+;` },
+    ],
+  },
+  {
+    id: "css",
+    label: "CSS",
+    aliases: ["scss", "less"],
+    rules: [
+      { type: "comment", pattern: String.raw`\/\*[\s\S]*?(?:\*\/|$)` },
+      { type: "string", pattern: DOUBLE_QUOTED },
+      { type: "string", pattern: SINGLE_QUOTED },
+      { type: "keyword", pattern: String.raw`@[\w-]+|!important\b` },
+      { type: "property", pattern: String.raw`(?<=[{;]\s*)-{0,2}[A-Za-z][\w-]*(?=\s*:)` },
+      { type: "function", pattern: String.raw`[A-Za-z-]+(?=\()` },
+      { type: "number", pattern: String.raw`#[\da-fA-F]{3,8}\b|-?(?:\d*\.)?\d+(?:%|[A-Za-z]+)?` },
+    ],
+  },
+  {
+    id: "json",
+    label: "JSON",
+    rules: [
+      { type: "property", pattern: String.raw`"(?:[^"\\\n]|\\.)*"(?=\s*:)` },
+      { type: "string", pattern: DOUBLE_QUOTED },
+      { type: "keyword", pattern: words("true false null") },
+      { type: "number", pattern: String.raw`-?\b\d+(?:\.\d+)?(?:[eE][+-]?\d+)?\b` },
+    ],
+  },
+];
+
+/** The languages with built-in highlighting, offered in the code block language picker. */
+export const codeLanguages: CodeLanguage[] = grammars.map(({ id, label, aliases }) => ({ id, label, aliases }));
+
+const findGrammar = (language: string): Grammar | undefined => {
+  const name = language.toLowerCase();
+  return grammars.find(grammar => grammar.id === name || grammar.aliases?.includes(name));
+};
+
+/** The built-in language a `language-xxx` name refers to, following aliases like `js`. */
+export const resolveCodeLanguage = (language: string): CodeLanguage | undefined => {
+  const grammar = findGrammar(language);
+  return grammar && codeLanguages.find(candidate => candidate.id === grammar.id);
+};
+
+const compiled = new Map<TokenRule[], RegExp>();
+
+const runRules = (text: string, rules: TokenRule[], caseInsensitive: boolean, offset: number, tokens: CodeToken[]) => {
+  let regex = compiled.get(rules);
+  if (!regex) {
+    regex = new RegExp(rules.map(rule => `(${rule.pattern})`).join("|"), caseInsensitive ? "gi" : "g");
+    compiled.set(rules, regex);
+  }
+  regex.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(text))) {
+    if (!match[0]) {
+      regex.lastIndex++;
+      continue;
+    }
+    const rule = rules[match.slice(1).findIndex(group => group !== undefined)];
+    if (rule.inside) {
+      runRules(match[0], rule.inside, caseInsensitive, offset + match.index, tokens);
+    } else {
+      tokens.push({ type: rule.type, start: offset + match.index, end: offset + match.index + match[0].length });
+    }
+  }
+};
+
+/** Splits code into highlighted tokens; text between tokens is plain. Unknown languages have none. */
+export const tokenizeCode = (text: string, language: string): CodeToken[] => {
+  const grammar = findGrammar(language);
+  if (!grammar) return [];
+  const tokens: CodeToken[] = [];
+  runRules(text, grammar.rules, !!grammar.caseInsensitive, 0, tokens);
+  return tokens;
+};
+
+const TOKEN_TYPES: CodeTokenType[] = ["comment", "string", "keyword", "number", "function", "tag", "attribute", "property"];
+// Per root, so editors and viewers on the same page don't clear each other's highlights.
+const highlightedTokens = new Map<object, Map<CodeTokenType, Range[]>>();
+
+const updateHighlights = () => {
+  const all = Array.from(highlightedTokens.values());
+  TOKEN_TYPES.forEach(type => {
+    CSS.highlights.set(`stockfish-code-${type}`, new Highlight(...all.flatMap(entry => entry.get(type) || [])));
+  });
+};
+
+/**
+ * Highlights the code blocks in `root` that name a built-in language, with the CSS Custom
+ * Highlight API, so the content itself never changes. Returns `false` where the API is
+ * not supported.
+ */
+export const highlightCodeBlocks = (root: HTMLElement): boolean => {
+  if (typeof CSS === "undefined" || !("highlights" in CSS) || typeof Highlight === "undefined") return false;
+
+  const ranges = new Map<CodeTokenType, Range[]>();
+  root.querySelectorAll("pre").forEach(pre => {
+    const code = getCodeElement(pre);
+    tokenizeCode(getCodeText(code), getCodeLanguage(pre)).forEach(token => {
+      const start = getCodePosition(code, token.start);
+      const end = getCodePosition(code, token.end);
+      const range = document.createRange();
+      range.setStart(start.node, start.offset);
+      range.setEnd(end.node, end.offset);
+      if (!ranges.has(token.type)) ranges.set(token.type, []);
+      ranges.get(token.type)!.push(range);
+    });
+  });
+
+  if (ranges.size === 0) highlightedTokens.delete(root);
+  else highlightedTokens.set(root, ranges);
+  updateHighlights();
+  return true;
+};
+
+/** Removes the highlights `highlightCodeBlocks` added for `root`. */
+export const clearCodeHighlights = (root: HTMLElement) => {
+  if (highlightedTokens.delete(root)) updateHighlights();
+};
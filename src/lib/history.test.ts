@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { createHistory } from "./history";
+
+const entry = (html: string) => ({ html, selection: null });
+
+describe("createHistory", () => {
+  it("drops the oldest undo steps when the depth is lowered", () => {
+    const history = createHistory({ depth: 10 });
+    ["a", "b", "c", "d", "e"].forEach(html => history.record(entry(html)));
+    history.setDepth(2);
+    expect(history.undo()?.html).toBe("d");
+    expect(history.undo()?.html).toBe("c");
+    expect(history.undo()).toBeNull();
+  });
+
+  it("keeps the current state and drops redo steps when undo steps alone are not enough", () => {
+    const history = createHistory({ depth: 10 });
+    ["a", "b", "c", "d"].forEach(html => history.record(entry(html)));
+    history.undo();
+    history.undo();
+    history.setDepth(1);
+    expect(history.canUndo()).toBe(false);
+    expect(history.redo()?.html).toBe("c");
+    expect(history.canRedo()).toBe(false);
+  });
+
+  it("applies a raised depth to later records", () => {
+    const history = createHistory({ depth: 1 });
+    history.setDepth(3);
+    ["a", "b", "c", "d"].forEach(html => history.record(entry(html)));
+    expect([history.undo()?.html, history.undo()?.html, history.undo()?.html]).toEqual(["c", "b", "a"]);
+  });
+
+  it("rewrites undo and redo steps in place", () => {
+    const history = createHistory();
+    ["a", "b", "c"].forEach(html => history.record(entry(html)));
+    history.undo();
+    history.map(step => entry(`${step.html}+remote`));
+    expect(history.undo()?.html).toBe("a+remote");
+    expect(history.redo()?.html).toBe("b+remote");
+    expect(history.redo()?.html).toBe("c+remote");
+  });
+});
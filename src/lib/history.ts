@@ -0,0 +1,118 @@
+import type { SelectionSnapshot } from "./selection";
+
+export interface HistoryEntry {
+  html: string;
+  selection: SelectionSnapshot | null;
+}
+
+export interface EditorHistoryOptions {
+  /** Maximum number of undo steps kept. */
+  depth?: number;
+  /** Changes in the same group closer together than this (ms) merge into one step. */
+  groupDelay?: number;
+}
+
+export interface EditorHistory {
+  /** Records a new state. Consecutive records with the same `group` merge into one step. */
+  record: (entry: HistoryEntry, group?: string) => void;
+  /** Ends the current group so the next record starts a new undo step. */
+  breakGroup: () => void;
+  undo: () => HistoryEntry | null;
+  redo: () => HistoryEntry | null;
+  /** Drops all steps and starts over from `entry`. */
+  reset: (entry: HistoryEntry) => void;
+  /** Rewrites every step, e.g. to carry other people's edits into them. */
+  map: (transform: (entry: HistoryEntry) => HistoryEntry) => void;
+  /** Changes the maximum number of steps, dropping the oldest undo steps (then redo steps) that no longer fit. */
+  setDepth: (depth: number) => void;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+}
+
+export const createHistory = ({ depth: initialDepth = 100, groupDelay = 1000 }: EditorHistoryOptions = {}): EditorHistory => {
+  let depth = initialDepth;
+  let entries: HistoryEntry[] = [];
+  let index = -1;
+  let lastGroup: string | undefined;
+  let lastRecordedAt = 0;
+
+  const record = (entry: HistoryEntry, group?: string) => {
+    const now = Date.now();
+    const current = entries[index];
+
+    if (current && current.html === entry.html) {
+      current.selection = entry.selection;
+      return;
+    }
+
+    const merges =
+      group !== undefined &&
+      group === lastGroup &&
+      now - lastRecordedAt < groupDelay &&
+      index > 0 &&
+      index === entries.length - 1;
+
+    if (merges) {
+      entries[index] = entry;
+    } else {
+      entries = entries.slice(0, index + 1);
+      entries.push(entry);
+      if (entries.length > depth + 1) {
+        entries = entries.slice(entries.length - depth - 1);
+      }
+      index = entries.length - 1;
+    }
+
+    lastGroup = group;
+    lastRecordedAt = now;
+  };
+
+  const breakGroup = () => {
+    lastGroup = undefined;
+  };
+
+  const undo = () => {
+    if (index <= 0) return null;
+    index--;
+    lastGroup = undefined;
+    return entries[index];
+  };
+
+  const redo = () => {
+    if (index >= entries.length - 1) return null;
+    index++;
+    lastGroup = undefined;
+    return entries[index];
+  };
+
+  const reset = (entry: HistoryEntry) => {
+    entries = [entry];
+    index = 0;
+    lastGroup = undefined;
+  };
+
+  const map = (transform: (entry: HistoryEntry) => HistoryEntry) => {
+    entries = entries.map(transform);
+  };
+
+  const setDepth = (nextDepth: number) => {
+    depth = nextDepth;
+    const excess = entries.length - depth - 1;
+    if (excess <= 0) return;
+    const dropped = Math.min(excess, index);
+    entries = entries.slice(dropped, dropped + depth + 1);
+    index -= dropped;
+  };
+
+  return {
+    record,
+    breakGroup,
+    undo,
+    redo,
+    reset,
+    map,
+    setDepth,
+    canUndo: () => index > 0,
+    canRedo: () => index < entries.length - 1,
+  };
+};
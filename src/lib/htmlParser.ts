@@ -0,0 +1,275 @@
+export interface HtmlElementNode {
+  type: "element";
+  tagName: string;
+  attributes: Record<string, string>;
+  children: HtmlNode[];
+}
+
+export interface HtmlTextNode {
+  type: "text";
+  value: string;
+}
+
+export type HtmlNode = HtmlElementNode | HtmlTextNode;
+
+export const VOID_TAGS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "source",
+  "track",
+  "wbr",
+]);
+
+const RAW_TEXT_TAGS = new Set(["script", "style", "textarea", "title"]);
+
+const BLOCK_TAGS = new Set([
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "div",
+  "dl",
+  "fieldset",
+  "figure",
+  "footer",
+  "form",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hr",
+  "main",
+  "nav",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "table",
+  "ul",
+]);
+
+// Tags that implicitly close an open element of the given name, the way browsers do.
+const IMPLIED_END: Record<string, (tag: string) => boolean> = {
+  p: tag => BLOCK_TAGS.has(tag),
+  li: tag => tag === "li",
+  td: tag => tag === "td" || tag === "th" || tag === "tr",
+  th: tag => tag === "td" || tag === "th" || tag === "tr",
+  tr: tag => tag === "tr" || tag === "tbody" || tag === "tfoot",
+  thead: tag => tag === "tbody" || tag === "tfoot",
+  tbody: tag => tag === "tbody" || tag === "tfoot",
+};
+
+// Elements that stop the search for an implicitly closed ancestor.
+const SCOPE_TAGS = new Set(["ul", "ol", "table", "blockquote", "td", "th", "div"]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: "\u00a0",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  zwj: "\u200d",
+  zwnj: "\u200c",
+};
+
+export const decodeEntities = (text: string): string => {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const codePoint = entity[1].toLowerCase() === "x"
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      if (!Number.isFinite(codePoint) || codePoint < 0 || codePoint > 0x10ffff) {
+        return match;
+      }
+      return String.fromCodePoint(codePoint);
+    }
+    const decoded = NAMED_ENTITIES[entity.toLowerCase()];
+    return decoded !== undefined ? decoded : match;
+  });
+};
+
+export const escapeText = (text: string): string => {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/\u00a0/g, "&nbsp;");
+};
+
+export const escapeAttribute = (value: string): string => {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/\u00a0/g, "&nbsp;");
+};
+
+const parseAttributes = (source: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  const attributeRegex = /([^\s"'<>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+  let match: RegExpExecArray | null;
+  while ((match = attributeRegex.exec(source)) !== null) {
+    const name = match[1].toLowerCase();
+    if (name in attributes) continue;
+    const rawValue = match[2] ?? match[3] ?? match[4] ?? "";
+    attributes[name] = decodeEntities(rawValue);
+  }
+  return attributes;
+};
+
+/**
+ * Parses an HTML fragment into a lightweight node tree. Works without a DOM,
+ * so the same code runs in the browser and on the server.
+ */
+export const parseHtml = (html: string): HtmlNode[] => {
+  const root: HtmlElementNode = { type: "element", tagName: "#root", attributes: {}, children: [] };
+  const stack: HtmlElementNode[] = [root];
+  const current = () => stack[stack.length - 1];
+
+  const appendText = (value: string) => {
+    if (!value) return;
+    const siblings = current().children;
+    const last = siblings[siblings.length - 1];
+    if (last && last.type === "text") {
+      last.value += value;
+    } else {
+      siblings.push({ type: "text", value });
+    }
+  };
+
+  const closeImplied = (tagName: string) => {
+    for (let i = stack.length - 1; i > 0; i--) {
+      const open = stack[i].tagName;
+      const closes = IMPLIED_END[open];
+      if (closes && closes(tagName)) {
+        stack.length = i;
+        return;
+      }
+      if (SCOPE_TAGS.has(open)) return;
+    }
+  };
+
+  let index = 0;
+  while (index < html.length) {
+    const tagStart = html.indexOf("<", index);
+    if (tagStart === -1) {
+      appendText(decodeEntities(html.slice(index)));
+      break;
+    }
+    if (tagStart > index) {
+      appendText(decodeEntities(html.slice(index, tagStart)));
+    }
+
+    if (html.startsWith("<!--", tagStart)) {
+      const commentEnd = html.indexOf("-->", tagStart + 4);
+      index = commentEnd === -1 ? html.length : commentEnd + 3;
+      continue;
+    }
+
+    const next = html[tagStart + 1] || "";
+    if (next === "!" || next === "?") {
+      const declarationEnd = html.indexOf(">", tagStart);
+      index = declarationEnd === -1 ? html.length : declarationEnd + 1;
+      continue;
+    }
+
+    const closingMatch = /^<\/([a-zA-Z][\w:-]*)[^>]*>/.exec(html.slice(tagStart));
+    if (closingMatch) {
+      const tagName = closingMatch[1].toLowerCase();
+      for (let i = stack.length - 1; i > 0; i--) {
+        if (stack[i].tagName === tagName) {
+          stack.length = i;
+          break;
+        }
+      }
+      index = tagStart + closingMatch[0].length;
+      continue;
+    }
+
+    const openingMatch = /^<([a-zA-Z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/.exec(html.slice(tagStart));
+    if (!openingMatch) {
+      appendText("<");
+      index = tagStart + 1;
+      continue;
+    }
+
+    const tagName = openingMatch[1].toLowerCase();
+    const attributeSource = openingMatch[2].replace(/\/\s*$/, "");
+    const element: HtmlElementNode = {
+      type: "element",
+      tagName,
+      attributes: parseAttributes(attributeSource),
+      children: [],
+    };
+    index = tagStart + openingMatch[0].length;
+
+    closeImplied(tagName);
+    current().children.push(element);
+
+    if (RAW_TEXT_TAGS.has(tagName)) {
+      const closeIndex = html.toLowerCase().indexOf(`</${tagName}`, index);
+      const rawEnd = closeIndex === -1 ? html.length : closeIndex;
+      const raw = html.slice(index, rawEnd);
+      if (raw) {
+        element.children.push({ type: "text", value: tagName === "textarea" || tagName === "title" ? decodeEntities(raw) : raw });
+      }
+      const closeEnd = closeIndex === -1 ? -1 : html.indexOf(">", closeIndex);
+      index = closeEnd === -1 ? html.length : closeEnd + 1;
+      continue;
+    }
+
+    if (!VOID_TAGS.has(tagName) && !/\/\s*$/.test(openingMatch[2])) {
+      stack.push(element);
+    }
+  }
+
+  return root.children;
+};
+
+export const serializeAttributes = (attributes: Record<string, string>): string => {
+  return Object.keys(attributes)
+    .map(name => ` ${name}="${escapeAttribute(attributes[name])}"`)
+    .join("");
+};
+
+export const serializeHtml = (nodes: HtmlNode[]): string => {
+  return nodes
+    .map(node => {
+      if (node.type === "text") {
+        return escapeText(node.value);
+      }
+      const open = `<${node.tagName}${serializeAttributes(node.attributes)}>`;
+      if (VOID_TAGS.has(node.tagName)) {
+        return open;
+      }
+      return `${open}${serializeHtml(node.children)}</${node.tagName}>`;
+    })
+    .join("");
+};
+
+export const getTextContent = (nodes: HtmlNode[]): string => {
+  return nodes
+    .map(node => (node.type === "text" ? node.value : getTextContent(node.children)))
+    .join("");
+};
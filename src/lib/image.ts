@@ -0,0 +1,150 @@
+import { TRANSIENT_ATTRIBUTE } from "./dom";
+import { CONTENT_COLORS } from "./theme";
+
+export type ImageAlign = "left" | "center" | "right";
+
+/** Narrowest width an image can be resized to, in pixels. */
+export const MIN_IMAGE_WIDTH = 40;
+
+// Images are blocks, so `auto` margins place them; `text-align` on their line would not.
+const ALIGN_MARGINS: Record<ImageAlign, string> = {
+  left: "10px auto 10px 0px",
+  center: "10px auto",
+  right: "10px 0px 10px auto",
+};
+
+/** Reads the alignment back from a `margin` shorthand: an `auto` side pushes the image to the other side. */
+export const parseImageAlign = (margin: string | undefined): ImageAlign | undefined => {
+  const values = (margin || "").trim().split(/\s+/);
+  if (!values[0]) return undefined;
+  const [top, right = top, , left = right] = values;
+  if (left === "auto" && right === "auto") return "center";
+  if (left === "auto") return "right";
+  if (right === "auto") return "left";
+  return undefined;
+};
+
+/** Reads a pixel width such as `320px`; other units are left to the browser. */
+export const parseImageWidth = (width: string | undefined): number | undefined => {
+  const match = /^(\d+(?:\.\d+)?)(?:px)?$/.exec((width || "").trim());
+  return match ? Math.round(parseFloat(match[1])) : undefined;
+};
+
+/** The inline style for an image, or the figure holding it, with this width and alignment. */
+export const getImageBoxStyle = (width?: number, align?: ImageAlign): string => {
+  const declarations: string[] = [];
+  if (width) declarations.push(`width: ${width}px`, "max-width: 100%");
+  if (align) declarations.push(`margin: ${ALIGN_MARGINS[align]}`);
+  return declarations.join("; ");
+};
+
+/** The image selected on its own in `root`, the way clicking an image selects it. */
+export const getSelectedImage = (selection: Selection | null, root: HTMLElement): HTMLImageElement | null => {
+  if (!selection || selection.rangeCount === 0) return null;
+  const range = selection.getRangeAt(0);
+  if (range.startContainer !== range.endContainer || range.endOffset - range.startOffset !== 1) return null;
+  const node = range.startContainer.childNodes[range.startOffset];
+  if (!node || node.nodeName !== "IMG" || !root.contains(node)) return null;
+  // Upload placeholders show a preview image that is not content yet.
+  return (node as HTMLElement).closest(`[${TRANSIENT_ATTRIBUTE}]`) ? null : (node as HTMLImageElement);
+};
+
+export const selectImage = (image: HTMLImageElement) => {
+  const range = document.createRange();
+  range.selectNode(image);
+  const selection = window.getSelection();
+  selection?.removeAllRanges();
+  selection?.addRange(range);
+};
+
+export const getImageFigure = (image: HTMLImageElement): HTMLElement | null =>
+  image.parentElement?.tagName === "FIGURE" ? image.parentElement : null;
+
+/** The element that is sized and aligned: the figure for captioned images, otherwise the image itself. */
+const getImageBox = (image: HTMLImageElement): HTMLElement => getImageFigure(image) ?? image;
+
+/**
+ * Reads the alignment from the inline margin, or from one of `classNames` for class-based
+ * content. Images without an alignment sit at the start of their line, which is the right in RTL text.
+ */
+export const getImageAlign = (image: HTMLImageElement, classNames?: Record<ImageAlign, string>): ImageAlign => {
+  const box = getImageBox(image);
+  const classAlign = classNames
+    ? (Object.keys(classNames) as ImageAlign[]).find(align => box.classList.contains(classNames[align]))
+    : undefined;
+  return (
+    parseImageAlign(box.style.margin) ?? classAlign ?? (getComputedStyle(box).direction === "rtl" ? "right" : "left")
+  );
+};
+
+/** Sets the alignment as an inline margin, dropping any of `classNames` it replaces. */
+export const setImageAlign = (image: HTMLImageElement, align: ImageAlign, classNames?: Record<ImageAlign, string>) => {
+  const box = getImageBox(image);
+  if (classNames) box.classList.remove(...Object.values(classNames));
+  if (!box.classList.length) box.removeAttribute("class");
+  box.style.margin = ALIGN_MARGINS[align];
+};
+
+export const setImageWidth = (image: HTMLImageElement, width: number) => {
+  const box = getImageBox(image);
+  box.style.width = `${Math.max(MIN_IMAGE_WIDTH, Math.round(width))}px`;
+  box.style.maxWidth = "100%";
+  // Class-based content sizes images with the `width` attribute, which the style now replaces.
+  image.removeAttribute("width");
+  if (box !== image) image.style.width = "100%";
+};
+
+export const getImageCaption = (image: HTMLImageElement): string =>
+  getImageFigure(image)?.querySelector("figcaption")?.textContent ?? "";
+
+const createCaption = () => {
+  const caption = document.createElement("figcaption");
+  caption.style.color = CONTENT_COLORS.muted;
+  caption.style.fontSize = "0.875em";
+  caption.style.textAlign = "center";
+  caption.style.margin = "6px 0px 0px";
+  return caption;
+};
+
+/**
+ * Sets the caption under an image. A caption wraps the image in a `<figure>` with a
+ * `<figcaption>`, which takes over the image's width and alignment; an empty caption unwraps it.
+ */
+export const setImageCaption = (image: HTMLImageElement, text: string) => {
+  const figure = getImageFigure(image);
+  const caption = text.trim();
+
+  if (!caption) {
+    if (!figure) return;
+    image.style.width = figure.style.width;
+    image.style.maxWidth = "100%";
+    image.style.margin = figure.style.margin || "10px 0px";
+    figure.replaceWith(image);
+    return;
+  }
+
+  if (figure) {
+    let figcaption = figure.querySelector("figcaption");
+    if (!figcaption) {
+      figcaption = createCaption();
+      figure.appendChild(figcaption);
+    }
+    figcaption.textContent = caption;
+    return;
+  }
+
+  const wrapper = document.createElement("figure");
+  // Size the figure to the image so the caption lines up under it.
+  const width = parseImageWidth(image.style.width) ?? Math.round(image.getBoundingClientRect().width);
+  if (width) {
+    wrapper.style.width = `${width}px`;
+    wrapper.style.maxWidth = "100%";
+  }
+  wrapper.style.margin = image.style.margin || "10px 0px";
+  image.replaceWith(wrapper);
+  image.style.width = "100%";
+  image.style.margin = "0px";
+  const figcaption = createCaption();
+  figcaption.textContent = caption;
+  wrapper.append(image, figcaption);
+};
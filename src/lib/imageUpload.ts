@@ -0,0 +1,110 @@
+import { TRANSIENT_ATTRIBUTE } from "./dom";
+import { enMessages, type TextEditorMessages } from "./messages";
+
+export const DEFAULT_ACCEPTED_IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+
+export interface ImageUploadLimits {
+  maxSize?: number;
+  acceptedTypes?: string[];
+}
+
+export interface ImageUploadContext {
+  /** Report upload progress as a percentage from 0 to 100. */
+  onProgress: (percent: number) => void;
+}
+
+export type ImageUploadHandler = (file: File, context: ImageUploadContext) => Promise<string>;
+
+const formatBytes = (bytes: number): string => {
+  if (bytes >= 1024 * 1024) return `${Math.round((bytes / (1024 * 1024)) * 10) / 10} MB`;
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${bytes} B`;
+};
+
+/** Returns an error message when the file breaks the limits, otherwise null. */
+export const validateImageFile = (
+  file: File,
+  { maxSize, acceptedTypes = DEFAULT_ACCEPTED_IMAGE_TYPES }: ImageUploadLimits = {},
+): string | null => {
+  if (!acceptedTypes.includes(file.type)) {
+    return `"${file.name}" is not a supported image type (${acceptedTypes.join(", ")}).`;
+  }
+  if (maxSize !== undefined && file.size > maxSize) {
+    return `"${file.name}" is larger than ${formatBytes(maxSize)}.`;
+  }
+  return null;
+};
+
+export const getImageFiles = (files: FileList | File[] | null | undefined): File[] => {
+  return Array.from(files || []).filter(file => file.type.startsWith("image/"));
+};
+
+type UploadMessages = Pick<TextEditorMessages, "uploadProgress" | "uploadFailed" | "uploadFailedHint">;
+
+export const createUploadPlaceholder = (
+  id: string,
+  previewUrl: string,
+  messages: UploadMessages = enMessages,
+): HTMLSpanElement => {
+  const placeholder = document.createElement("span");
+  placeholder.setAttribute(TRANSIENT_ATTRIBUTE, "");
+  placeholder.setAttribute("data-upload-id", id);
+  placeholder.contentEditable = "false";
+  placeholder.className = "relative my-2 inline-block overflow-hidden rounded-lg border border-gray-300 bg-gray-50 align-middle";
+
+  const preview = document.createElement("img");
+  preview.src = previewUrl;
+  preview.alt = "";
+  preview.className = "block max-h-48 max-w-full opacity-50";
+
+  const track = document.createElement("span");
+  track.className = "absolute inset-x-0 bottom-0 block h-1 bg-gray-200";
+  const bar = document.createElement("span");
+  bar.setAttribute("data-upload-progress", "");
+  bar.className = "block h-full bg-blue-500 transition-all duration-200";
+  bar.style.width = "0%";
+  track.appendChild(bar);
+
+  const label = document.createElement("span");
+  label.setAttribute("data-upload-label", "");
+  label.className = "absolute left-2 top-2 rounded bg-white px-2 py-0.5 text-xs text-gray-700 shadow-sm";
+  label.textContent = messages.uploadProgress(0);
+
+  placeholder.append(preview, track, label);
+  return placeholder;
+};
+
+export const setUploadProgress = (
+  placeholder: HTMLElement,
+  percent: number,
+  messages: UploadMessages = enMessages,
+): void => {
+  const clamped = Math.max(0, Math.min(100, Math.round(percent)));
+  const bar = placeholder.querySelector<HTMLElement>("[data-upload-progress]");
+  const label = placeholder.querySelector<HTMLElement>("[data-upload-label]");
+  if (bar) bar.style.width = `${clamped}%`;
+  if (label) label.textContent = messages.uploadProgress(clamped);
+};
+
+export const markUploadFailed = (
+  placeholder: HTMLElement,
+  message: string,
+  messages: UploadMessages = enMessages,
+): void => {
+  placeholder.setAttribute("data-upload-failed", "");
+  placeholder.classList.remove("border-gray-300");
+  placeholder.classList.add("border-red-500");
+  placeholder.title = messages.uploadFailedHint(message);
+  const bar = placeholder.querySelector<HTMLElement>("[data-upload-progress]");
+  const label = placeholder.querySelector<HTMLElement>("[data-upload-label]");
+  if (bar) {
+    bar.classList.remove("bg-blue-500");
+    bar.classList.add("bg-red-500");
+    bar.style.width = "100%";
+  }
+  if (label) {
+    label.classList.remove("text-gray-700");
+    label.classList.add("text-red-600");
+    label.textContent = messages.uploadFailed;
+  }
+};
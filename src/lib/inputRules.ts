@@ -0,0 +1,108 @@
+export type InputRule =
+  | {
+      /** Replaces a line prefix such as `"## "` and runs an editor command on the line. */
+      type: "block";
+      /** Tested against the line's text up to the caret. */
+      pattern: RegExp;
+      command: string;
+      value?: string;
+      /** The `allowedFormats` switch the rule belongs to; the rule is off when the format is. */
+      format?: string;
+    }
+  | {
+      /** Replaces text such as `"**bold**"` with its first capture group wrapped in `tagName`. */
+      type: "mark";
+      /** Tested against the text before the caret; should end with `$`. */
+      pattern: RegExp;
+      tagName: string;
+      format?: string;
+    };
+
+export interface InputRuleMatch {
+  rule: InputRule;
+  node: Text;
+  /** Offsets of the matched text in `node`. */
+  start: number;
+  end: number;
+  /** The first capture group, for mark rules. */
+  content: string;
+}
+
+export const defaultInputRules: InputRule[] = [
+  { type: "block", pattern: /^#\s$/, command: "heading1", format: "headings" },
+  { type: "block", pattern: /^##\s$/, command: "heading2", format: "headings" },
+  { type: "block", pattern: /^###\s$/, command: "heading3", format: "headings" },
+  { type: "block", pattern: /^[-*]\s$/, command: "bulletList", format: "lists" },
+  { type: "block", pattern: /^\d+[.)]\s$/, command: "orderedList", format: "lists" },
+  { type: "block", pattern: /^>\s$/, command: "quote", format: "quotes" },
+  { type: "block", pattern: /^```$/, command: "codeBlock", format: "codeBlocks" },
+  { type: "mark", pattern: /\*\*([^*\s](?:[^*]*[^*\s])?)\*\*$/, tagName: "strong", format: "bold" },
+  // Not after a word character, so snake_case names are left alone.
+  { type: "mark", pattern: /(?<!\w)_([^_\s](?:[^_]*[^_\s])?)_$/, tagName: "em", format: "italic" },
+  { type: "mark", pattern: /~~([^~\s](?:[^~]*[^~\s])?)~~$/, tagName: "s", format: "strikethrough" },
+];
+
+const LINE_PARENT_REGEX = /^(DIV|P|H[1-6]|BLOCKQUOTE)$/;
+
+/** Finds the first rule matching the text just typed before a collapsed caret. */
+export const findInputRule = (root: HTMLElement, rules: InputRule[]): InputRuleMatch | null => {
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0 || !selection.isCollapsed) return null;
+  const { anchorNode, anchorOffset } = selection;
+  if (!anchorNode || anchorNode.nodeType !== Node.TEXT_NODE || !root.contains(anchorNode)) return null;
+  const parent = anchorNode.parentElement;
+  if (!parent || parent.closest("pre, code, [data-mention-id]")) return null;
+
+  const node = anchorNode as Text;
+  const before = node.data.slice(0, anchorOffset);
+  // Block rules only apply at the start of a line outside lists and tables.
+  const atLineStart =
+    (parent === root || LINE_PARENT_REGEX.test(parent.tagName)) &&
+    !parent.closest("li, td, th") &&
+    (!node.previousSibling || node.previousSibling.nodeName === "BR");
+
+  for (const rule of rules) {
+    if (rule.type === "block" && !atLineStart) continue;
+    const match = rule.pattern.exec(before);
+    if (!match) continue;
+    return { rule, node, start: match.index, end: anchorOffset, content: match[1] || "" };
+  }
+  return null;
+};
+
+/** Applies a mark rule match and puts the caret after the new element. */
+export const applyMarkRule = (match: InputRuleMatch, tagName: string): void => {
+  const range = document.createRange();
+  range.setStart(match.node, match.start);
+  range.setEnd(match.node, match.end);
+  range.deleteContents();
+
+  const element = document.createElement(tagName);
+  element.textContent = match.content;
+  range.insertNode(element);
+  range.setStartAfter(element);
+  range.collapse(true);
+  const selection = window.getSelection();
+  selection?.removeAllRanges();
+  selection?.addRange(range);
+};
+
+/** Removes a block rule's matched prefix and leaves the caret where the line's text now starts. */
+export const removeBlockPrefix = (match: InputRuleMatch): void => {
+  const { node } = match;
+  node.deleteData(match.start, match.end - match.start);
+
+  const range = document.createRange();
+  if (node.data === "" && (!node.nextSibling || node.nextSibling.nodeName === "BR")) {
+    // Keep the now empty line from collapsing.
+    const lineBreak = node.nextSibling || document.createElement("br");
+    node.replaceWith(lineBreak);
+    range.setStartBefore(lineBreak);
+  } else {
+    range.setStart(node, match.start);
+  }
+  range.collapse(true);
+  const selection = window.getSelection();
+  selection?.removeAllRanges();
+  selection?.addRange(range);
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { matchShortcut } from "./keymap";
+
+const keydown = (key: string, code: string, modifiers: Partial<KeyboardEvent> = {}) =>
+  ({ key, code, ctrlKey: false, metaKey: false, shiftKey: false, altKey: false, ...modifiers }) as KeyboardEvent;
+
+describe("matchShortcut", () => {
+  it("matches Ctrl chords off macOS and Cmd chords on it", () => {
+    expect(matchShortcut(keydown("b", "KeyB", { ctrlKey: true }), "Mod-b", false)).toBe(true);
+    expect(matchShortcut(keydown("b", "KeyB", { metaKey: true }), "Mod-b", true)).toBe(true);
+    expect(matchShortcut(keydown("b", "KeyB", { ctrlKey: true }), "Mod-b", true)).toBe(false);
+  });
+
+  it("leaves characters typed with AltGr to the text", () => {
+    // AltGr+0 is "@" on AZERTY and AltGr+C is "ć" on Polish; Windows reports both as Ctrl+Alt.
+    expect(matchShortcut(keydown("@", "Digit0", { ctrlKey: true, altKey: true }), "Ctrl-Alt-0", false)).toBe(false);
+    expect(matchShortcut(keydown("ć", "KeyC", { ctrlKey: true, altKey: true }), "Ctrl-Alt-c", false)).toBe(false);
+    expect(matchShortcut(keydown("c", "KeyC", { ctrlKey: true, altKey: true }), "Ctrl-Alt-c", false)).toBe(true);
+  });
+
+  it("matches the typed letter before the physical key", () => {
+    // On Dvorak, C is on the physical I key and X on the B key.
+    expect(matchShortcut(keydown("c", "KeyI", { ctrlKey: true }), "Mod-i", false)).toBe(false);
+    expect(matchShortcut(keydown("x", "KeyB", { ctrlKey: true }), "Mod-b", false)).toBe(false);
+    expect(matchShortcut(keydown("b", "KeyN", { ctrlKey: true }), "Mod-b", false)).toBe(true);
+  });
+
+  it("falls back to the physical key when the layout changes the character", () => {
+    expect(matchShortcut(keydown("и", "KeyB", { ctrlKey: true }), "Mod-b", false)).toBe(true);
+    expect(matchShortcut(keydown("&", "Digit7", { ctrlKey: true, shiftKey: true }), "Mod-Shift-7", false)).toBe(true);
+  });
+});
@@ -0,0 +1,97 @@
+/** Maps key chords such as `"Mod-Shift-z"` to command names; `null` removes a default binding. */
+export type EditorKeymap = Record<string, string | null>;
+
+const KEY_ALIASES: Record<string, string> = {
+  esc: "escape",
+  space: " ",
+  up: "arrowup",
+  down: "arrowdown",
+  left: "arrowleft",
+  right: "arrowright",
+};
+
+const MAC_SYMBOLS: Record<string, string> = {
+  Mod: "⌘",
+  Cmd: "⌘",
+  Meta: "⌘",
+  Ctrl: "⌃",
+  Alt: "⌥",
+  Shift: "⇧",
+};
+
+export const isMacPlatform = (): boolean =>
+  typeof navigator !== "undefined" && /Mac|iPhone|iPad|iPod/.test(navigator.platform || navigator.userAgent);
+
+/** Matches a key chord like `"Mod-Shift-z"`. `Mod` is Cmd on macOS and Ctrl elsewhere. */
+export const matchShortcut = (event: KeyboardEvent, shortcut: string, mac = isMacPlatform()): boolean => {
+  const parts = shortcut.split("-");
+  // "Mod--" binds the minus key.
+  const key = (parts.pop() || "-").toLowerCase();
+  const modifiers = new Set(parts.map(part => part.toLowerCase()));
+
+  const wantsCtrl = modifiers.has("ctrl") || (modifiers.has("mod") && !mac);
+  const wantsMeta = modifiers.has("meta") || modifiers.has("cmd") || (modifiers.has("mod") && mac);
+  if (event.ctrlKey !== wantsCtrl || event.metaKey !== wantsMeta) return false;
+  if (event.shiftKey !== modifiers.has("shift") || event.altKey !== modifiers.has("alt")) return false;
+
+  const expected = KEY_ALIASES[key] || key;
+  // Windows reports AltGr as Ctrl+Alt, so a Ctrl+Alt chord that types another character,
+  // such as "@" on AZERTY or "ć" on Polish, is text input rather than a shortcut.
+  if (event.ctrlKey && event.altKey && [...event.key].length === 1 && event.key.toLowerCase() !== expected) {
+    return false;
+  }
+  // The typed letter decides, so Ctrl-C on Dvorak copies whichever physical key it is on.
+  const typed = event.key.toLowerCase();
+  if (typed === expected || /^[a-z0-9]$/.test(typed)) return typed === expected;
+  // Non-Latin layouts, and Shift or Alt on digits, change `event.key`; `event.code` keeps the key.
+  const code = event.code.toLowerCase();
+  return code === `key${expected}` || code === `digit${expected}`;
+};
+
+/** Renders a key chord for display, e.g. `"Ctrl+Shift+Z"`, or `"⌘⇧Z"` on macOS. */
+export const formatShortcut = (shortcut: string, mac = isMacPlatform()): string => {
+  const parts = shortcut.split("-").map(part => (part.length === 1 ? part.toUpperCase() : part));
+  if (mac) {
+    return parts.map(part => MAC_SYMBOLS[part] || part).join("");
+  }
+  return parts.map(part => (part === "Mod" ? "Ctrl" : part)).join("+");
+};
+
+const ARIA_KEY_NAMES: Record<string, string> = {
+  esc: "Escape",
+  space: "Space",
+  up: "ArrowUp",
+  down: "ArrowDown",
+  left: "ArrowLeft",
+  right: "ArrowRight",
+};
+
+const ARIA_MODIFIERS: Record<string, string> = { ctrl: "Control", cmd: "Meta", meta: "Meta", alt: "Alt", shift: "Shift" };
+
+/** Renders a key chord for `aria-keyshortcuts`, e.g. `"Control+Shift+Z"`. */
+export const formatAriaShortcut = (shortcut: string, mac = isMacPlatform()): string => {
+  const parts = shortcut.split("-");
+  const key = parts.pop() || "-";
+  const modifiers = parts.filter(Boolean).map(part => {
+    const lower = part.toLowerCase();
+    if (lower === "mod") return mac ? "Meta" : "Control";
+    return ARIA_MODIFIERS[lower] || part;
+  });
+  const keyName = ARIA_KEY_NAMES[key.toLowerCase()] || (key.length === 1 ? key.toUpperCase() : key.charAt(0).toUpperCase() + key.slice(1));
+  return [...modifiers, keyName].join("+");
+};
+
+/** Combines extension bindings with a user keymap, which wins and can unbind chords with `null`. */
+export const mergeKeymaps = (...keymaps: EditorKeymap[]): Record<string, string> => {
+  const merged: Record<string, string> = {};
+  keymaps.forEach(keymap => {
+    Object.entries(keymap).forEach(([shortcut, command]) => {
+      if (command === null) {
+        delete merged[shortcut];
+      } else {
+        merged[shortcut] = command;
+      }
+    });
+  });
+  return merged;
+};
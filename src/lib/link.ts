@@ -0,0 +1,88 @@
+import { isSafeUrl, type SanitizeOptions } from "./sanitize";
+
+/** A fixed value, or one chosen per link from its URL; `null` leaves the attribute off. */
+export type LinkAttribute = string | null | ((url: string) => string | null | undefined);
+
+export interface LinkOptions {
+  /** Scheme added to URLs typed without one, like `example.com` (default `https`). */
+  defaultScheme?: string;
+  /** `target` for new links (default `_blank`). Links can still be switched per link in the link popover. */
+  target?: LinkAttribute;
+  /** `rel` for new and edited links (default `noopener noreferrer`). Links opening in a new tab always get `noopener noreferrer`. */
+  rel?: LinkAttribute;
+  /** Extra validation after the built-in checks; return `false` to reject the URL. */
+  validate?: (url: string) => boolean;
+}
+
+const SCHEME_REGEX = /^[a-z][a-z0-9+.-]*:/i;
+const EMAIL_REGEX = /^[^\s@/:]+@[^\s@/:]+\.[^\s@/:]+$/;
+const PHONE_REGEX = /^\+?\d[\d\s().-]{5,}$/;
+const HOST_PORT_REGEX = /^(?:localhost|[\w-]+(?:\.[\w-]+)+):\d+(?:[/?#]|$)/i;
+
+/**
+ * Completes a URL as typed: `example.com` gets the default scheme, an email address
+ * becomes `mailto:` and a phone number `tel:`. Relative URLs and ones with a scheme are kept.
+ */
+export const normalizeLinkUrl = (input: string, defaultScheme = "https"): string => {
+  const url = input.trim();
+  // `localhost:3000` looks like a scheme but is a host and port.
+  const hasScheme = SCHEME_REGEX.test(url) && !HOST_PORT_REGEX.test(url);
+  if (!url || hasScheme || /^[/#?.]/.test(url)) {
+    // `//host` is protocol-relative; give it the scheme so it doesn't depend on the page.
+    return url.startsWith("//") ? `${defaultScheme}:${url}` : url;
+  }
+  if (EMAIL_REGEX.test(url)) return `mailto:${url}`;
+  if (PHONE_REGEX.test(url)) return `tel:${url.replace(/[\s().-]/g, "")}`;
+  return `${defaultScheme}://${url}`;
+};
+
+/**
+ * Checks a normalized URL: the scheme must pass the sanitizer, and web URLs need a
+ * host that looks real, so typos like `https://example` or `https://exa mple.com` are caught.
+ */
+export const isValidLinkUrl = (url: string, sanitizeOptions?: Partial<SanitizeOptions>): boolean => {
+  if (!url || /\s/.test(url) || !isSafeUrl(url, sanitizeOptions)) return false;
+  if (!/^https?:/i.test(url)) return true;
+  try {
+    const { hostname } = new URL(url);
+    return hostname === "localhost" || /^[^.]+(\.[^.]+)+$/.test(hostname) || /^\[[\da-f:]+\]$/i.test(hostname);
+  } catch {
+    return false;
+  }
+};
+
+const resolveAttribute = (value: LinkAttribute | undefined, url: string, fallback: string | null): string | null => {
+  if (value === undefined) return fallback;
+  return typeof value === "function" ? value(url) ?? null : value;
+};
+
+/**
+ * Sets `href`, `target` and `rel` on a link from `options`. `newTab` overrides the
+ * configured target, for links switched in the link popover.
+ */
+export const applyLinkAttributes = (link: HTMLAnchorElement, url: string, options: LinkOptions = {}, newTab?: boolean) => {
+  link.setAttribute("href", url);
+  const target = newTab === undefined ? resolveAttribute(options.target, url, "_blank") : newTab ? "_blank" : null;
+  const rel = new Set((resolveAttribute(options.rel, url, "noopener noreferrer") || "").split(/\s+/).filter(Boolean));
+  if (target === "_blank") {
+    rel.add("noopener");
+    rel.add("noreferrer");
+  }
+
+  if (target) link.setAttribute("target", target);
+  else link.removeAttribute("target");
+  if (rel.size) link.setAttribute("rel", Array.from(rel).join(" "));
+  else link.removeAttribute("rel");
+};
+
+/** The link holding `node`, if it is inside one in `root`. */
+export const getLinkElement = (node: Node | null, root: HTMLElement): HTMLAnchorElement | null => {
+  const element = node && (node.nodeType === Node.ELEMENT_NODE ? (node as Element) : node.parentElement);
+  const link = element?.closest("a[href]");
+  return link && root.contains(link) ? (link as HTMLAnchorElement) : null;
+};
+
+/** Replaces a link with its content, keeping any formatting inside it. */
+export const removeLink = (link: HTMLAnchorElement) => {
+  link.replaceWith(...Array.from(link.childNodes));
+};
@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { markdownToHtml } from "./markdown";
+
+describe("markdownToHtml", () => {
+  it("drops links with an unsafe URL but keeps their text", () => {
+    const html = markdownToHtml("[x](javascript:alert(1))");
+    expect(html).not.toContain("javascript:");
+    expect(html).toContain("x");
+  });
+
+  it("drops images with an unsafe source", () => {
+    expect(markdownToHtml("![a](javascript:alert(1))")).not.toContain("<img");
+    expect(markdownToHtml('![a](javascript:alert(1) "caption")')).not.toContain("<img");
+  });
+
+  it("keeps safe links and images", () => {
+    expect(markdownToHtml("[x](https://example.com)")).toContain('href="https://example.com"');
+    expect(markdownToHtml("![a](https://example.com/a.png)")).toContain('src="https://example.com/a.png"');
+  });
+});
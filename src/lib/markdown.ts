@@ -0,0 +1,645 @@
+import {
+  documentToHtml,
+  htmlToDocument,
+  type EditorBlock,
+  type EditorDocument,
+  type EditorInline,
+  type EditorListItem,
+  type EditorMark,
+  type EditorTableRow,
+} from "./document";
+import { isSafeUrl } from "./sanitize";
+
+// Marks Markdown can express. Colors and font sizes have no Markdown syntax and are dropped.
+const MARKDOWN_MARKS = new Set(["link", "bold", "italic", "underline", "strikethrough", "code"]);
+
+const escapeMarkdown = (text: string): string => {
+  return text.replace(/[\\`*_~\[\]<>]/g, "\\$&");
+};
+
+// Characters that would start a block construct at the beginning of a line.
+const escapeLineStart = (line: string): string => {
+  return line
+    .replace(/^(\s*)(#{1,6}\s|>|[-+]\s|=+\s*$)/, "$1\\$2")
+    .replace(/^(\s*\d+)([.)]\s)/, "$1\\$2");
+};
+
+const wrapDelimited = (inner: string, open: string, close = open): string => {
+  // Delimiters next to whitespace do not parse, so keep the whitespace outside them.
+  const leading = /^\s*/.exec(inner)![0];
+  const trailing = /\s*$/.exec(inner.slice(leading.length))![0];
+  const core = inner.slice(leading.length, inner.length - trailing.length);
+  return core ? `${leading}${open}${core}${close}${trailing}` : inner;
+};
+
+const marksEqual = (a: EditorMark, b: EditorMark): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+const getMarks = (inline: EditorInline): EditorMark[] =>
+  inline.type === "text" ? (inline.marks || []).filter(mark => MARKDOWN_MARKS.has(mark.type)) : [];
+
+// Percent-encode characters that would end a link destination early.
+const encodeDestination = (url: string): string => {
+  return url.replace(/[()<>\s]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, "0")}`);
+};
+
+const inlineCode = (text: string): string => {
+  const longestRun = Math.max(0, ...(text.match(/`+/g) || []).map(run => run.length));
+  const fence = "`".repeat(longestRun + 1);
+  const padding = text.startsWith("`") || text.endsWith("`") ? " " : "";
+  return `${fence}${padding}${text}${padding}${fence}`;
+};
+
+const serializeInlines = (inlines: EditorInline[], depth = 0): string => {
+  let markdown = "";
+  let index = 0;
+
+  while (index < inlines.length) {
+    const inline = inlines[index];
+    const mark = getMarks(inline)[depth];
+
+    if (mark) {
+      let end = index + 1;
+      while (end < inlines.length && getMarks(inlines[end])[depth] && marksEqual(getMarks(inlines[end])[depth], mark)) {
+        end++;
+      }
+      const group = inlines.slice(index, end);
+      index = end;
+
+      if (mark.type === "code") {
+        markdown += inlineCode(group.map(item => (item.type === "text" ? item.text : "")).join(""));
+        continue;
+      }
+
+      const inner = serializeInlines(group, depth + 1);
+      switch (mark.type) {
+        case "link":
+          markdown += `[${inner}](${encodeDestination(mark.href)})`;
+          break;
+        case "bold":
+          markdown += wrapDelimited(inner, "**");
+          break;
+        case "italic":
+          markdown += wrapDelimited(inner, "*");
+          break;
+        case "strikethrough":
+          markdown += wrapDelimited(inner, "~~");
+          break;
+        case "underline":
+          markdown += wrapDelimited(inner, "<u>", "</u>");
+          break;
+      }
+      continue;
+    }
+
+    if (inline.type === "text") {
+      markdown += escapeMarkdown(inline.text.replace(/\n/g, " "));
+    } else if (inline.type === "hardBreak") {
+      markdown += "\\\n";
+    } else if (inline.type === "mention") {
+      markdown += escapeMarkdown(inline.trigger + inline.label);
+    } else {
+      markdown += `![${escapeMarkdown(inline.alt || "")}](${encodeDestination(inline.src)})`;
+    }
+    index++;
+  }
+
+  return markdown;
+};
+
+const indentLines = (text: string, indent: string, firstLinePrefix = indent): string => {
+  return text
+    .split("\n")
+    .map((line, index) => (index === 0 ? firstLinePrefix + line : line ? indent + line : line))
+    .join("\n");
+};
+
+const serializeItemContent = (blocks: EditorBlock[]): string => {
+  return blocks.reduce((markdown, block) => {
+    const serialized = serializeBlock(block);
+    if (serialized === null) return markdown;
+    if (!markdown) return serialized;
+    // Nested lists stay tight; other blocks need a blank line to remain separate.
+    const isList = block.type === "bulletList" || block.type === "orderedList";
+    return `${markdown}${isList ? "\n" : "\n\n"}${serialized}`;
+  }, "");
+};
+
+const serializeListItems = (items: EditorListItem[], ordered: boolean, start = 1): string => {
+  return items
+    .map((item, index) => {
+      const marker = ordered ? `${start + index}. ` : "- ";
+      const content = serializeItemContent(item.content);
+      return indentLines(content, " ".repeat(marker.length), marker);
+    })
+    .join("\n");
+};
+
+const serializeTableCell = (blocks: EditorBlock[]): string => {
+  return blocks
+    .map(block => (block.type === "paragraph" || block.type === "heading" ? serializeInlines(block.content) : serializeBlock(block) || ""))
+    .join(" ")
+    .replace(/\\?\n/g, " ")
+    .replace(/\|/g, "\\|")
+    .trim();
+};
+
+// GFM tables always have a header row and cannot span cells, so the first row
+// becomes the header and merged cells are padded out with empty ones.
+const serializeTable = (rows: EditorTableRow[]): string | null => {
+  const cellRows = rows.map(row =>
+    row.cells.flatMap(cell => [serializeTableCell(cell.content), ...Array(Math.max(0, (cell.colspan || 1) - 1)).fill("")]),
+  );
+  const columnCount = Math.max(0, ...cellRows.map(cells => cells.length));
+  if (!columnCount) return null;
+
+  const renderRow = (cells: string[]) => {
+    const padded = [...cells, ...Array(columnCount - cells.length).fill("")];
+    return `| ${padded.join(" | ")} |`;
+  };
+  return [renderRow(cellRows[0]), renderRow(Array(columnCount).fill("---")), ...cellRows.slice(1).map(renderRow)].join("\n");
+};
+
+const serializeBlock = (block: EditorBlock): string | null => {
+  switch (block.type) {
+    case "paragraph": {
+      const text = serializeInlines(block.content);
+      return text.trim() ? text.split("\n").map(escapeLineStart).join("\n") : null;
+    }
+    case "heading":
+      return `${"#".repeat(block.level)} ${serializeInlines(block.content)}`;
+    case "blockquote":
+      return serializeBlocks(block.content)
+        .split("\n")
+        .map(line => (line ? `> ${line}` : ">"))
+        .join("\n");
+    case "codeBlock": {
+      const longestFence = Math.max(2, ...(block.text.match(/`{3,}/g) || []).map(run => run.length));
+      const fence = "`".repeat(longestFence + 1);
+      return `${fence}${block.language || ""}\n${block.text}\n${fence}`;
+    }
+    case "bulletList":
+      return serializeListItems(block.items, false);
+    case "orderedList":
+      return serializeListItems(block.items, true, block.start);
+    case "table":
+      return serializeTable(block.rows);
+    case "figure": {
+      const image = `![${escapeMarkdown(block.alt || "")}](${encodeDestination(block.src)}`;
+      const caption = block.caption.replace(/\s*\n\s*/g, " ").replace(/["\\]/g, "\\$&");
+      return caption ? `${image} "${caption}")` : `${image})`;
+    }
+    case "horizontalRule":
+      return "---";
+  }
+};
+
+const serializeBlocks = (blocks: EditorBlock[]): string => {
+  return blocks
+    .map(serializeBlock)
+    .filter((block): block is string => block !== null)
+    .join("\n\n");
+};
+
+export const documentToMarkdown = (doc: EditorDocument): string => {
+  const markdown = serializeBlocks(doc.content);
+  return markdown ? `${markdown}\n` : "";
+};
+
+const isAlphanumeric = (char: string | undefined): boolean => !!char && /[\p{L}\p{N}]/u.test(char);
+
+const skipCodeSpan = (text: string, start: number): number => {
+  const run = /^`+/.exec(text.slice(start))![0];
+  const close = text.indexOf(run, start + run.length);
+  return close === -1 ? start + run.length : close + run.length;
+};
+
+const findClosingDelimiter = (text: string, start: number, delimiter: string): number => {
+  let index = start;
+  while (index < text.length) {
+    const char = text[index];
+    if (char === "\\") {
+      index += 2;
+      continue;
+    }
+    if (char === "`") {
+      index = skipCodeSpan(text, index);
+      continue;
+    }
+    if (text.startsWith(delimiter, index)) {
+      const run = new RegExp(`^\\${delimiter[0]}+`).exec(text.slice(index))![0].length;
+      if (delimiter.length === 2 && run > 2) {
+        // In `***text***` the bold closer is the last two characters of the run.
+        index += run - 2;
+      }
+      const isDoubled = delimiter.length === 1 && text[index + 1] === delimiter;
+      if (isDoubled) {
+        // Skip over a nested double delimiter such as `**bold**` inside `*italic*`.
+        const nestedClose = findClosingDelimiter(text, index + 2, delimiter + delimiter);
+        index = nestedClose === -1 ? index + 2 : nestedClose + 2;
+        continue;
+      }
+      const before = text[index - 1];
+      const after = text[index + delimiter.length];
+      const intraword = delimiter[0] === "_" && isAlphanumeric(after);
+      if (index > start && before && !/\s/.test(before) && !intraword) {
+        return index;
+      }
+    }
+    index++;
+  }
+  return -1;
+};
+
+const findClosingBracket = (text: string, start: number): number => {
+  let depth = 0;
+  for (let index = start; index < text.length; index++) {
+    const char = text[index];
+    if (char === "\\") {
+      index++;
+    } else if (char === "`") {
+      index = skipCodeSpan(text, index) - 1;
+    } else if (char === "[") {
+      depth++;
+    } else if (char === "]") {
+      if (depth === 0) return index;
+      depth--;
+    }
+  }
+  return -1;
+};
+
+// Parses `(destination "optional title")` right after a link or image label.
+const parseDestination = (text: string, start: number): { url: string; title?: string; end: number } | null => {
+  if (text[start] !== "(") return null;
+  const match = /^\(\s*(<[^>]*>|[^\s()]*(?:\([^\s()]*\)[^\s()]*)*)(?:\s+("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'))?\s*\)/.exec(text.slice(start));
+  if (!match) return null;
+  let url = match[1];
+  if (url.startsWith("<") && url.endsWith(">")) url = url.slice(1, -1);
+  try {
+    url = decodeURI(url);
+  } catch {
+    // Keep malformed escapes as written.
+  }
+  const title = match[2] ? match[2].slice(1, -1).replace(/\\([!-\/:-@\[-`{-~])/g, "$1") : undefined;
+  return { url, ...(title !== undefined ? { title } : {}), end: start + match[0].length };
+};
+
+// An image alone in a paragraph with a title is a figure, the title being its caption.
+const parseFigure = (text: string): EditorBlock | null => {
+  if (!text.startsWith("![")) return null;
+  const labelEnd = findClosingBracket(text, 2);
+  const destination = labelEnd === -1 ? null : parseDestination(text, labelEnd + 1);
+  if (!destination || destination.end !== text.length || destination.title === undefined) return null;
+  // Unsafe images are dropped by the inline parser.
+  if (!isSafeUrl(destination.url, {}, "image")) return null;
+  const alt = text.slice(2, labelEnd).replace(/\\([!-\/:-@\[-`{-~])/g, "$1");
+  return { type: "figure", src: destination.url, ...(alt ? { alt } : {}), caption: destination.title };
+};
+
+const addMark = (marks: EditorMark[], mark: EditorMark): EditorMark[] => [...marks.filter(m => m.type !== mark.type), mark];
+
+const parseInlineMarkdown = (text: string, marks: EditorMark[] = [], inlines: EditorInline[] = []): EditorInline[] => {
+  let buffer = "";
+
+  const flush = () => {
+    if (!buffer) return;
+    const last = inlines[inlines.length - 1];
+    if (last && last.type === "text" && JSON.stringify(last.marks || []) === JSON.stringify(marks)) {
+      last.text += buffer;
+    } else {
+      inlines.push(marks.length ? { type: "text", text: buffer, marks: [...marks] } : { type: "text", text: buffer });
+    }
+    buffer = "";
+  };
+
+  const wrap = (inner: string, mark: EditorMark) => {
+    flush();
+    parseInlineMarkdown(inner, addMark(marks, mark), inlines);
+  };
+
+  let index = 0;
+  while (index < text.length) {
+    const char = text[index];
+    const rest = text.slice(index);
+
+    if (char === "\\" && index + 1 < text.length) {
+      if (text[index + 1] === "\n") {
+        flush();
+        inlines.push({ type: "hardBreak" });
+      } else if (/[!-\/:-@\[-`{-~]/.test(text[index + 1])) {
+        buffer += text[index + 1];
+      } else {
+        buffer += char + text[index + 1];
+      }
+      index += 2;
+      continue;
+    }
+
+    if (char === "\n") {
+      // Two trailing spaces mark a hard break; otherwise a soft break is just a space.
+      if (/ {2,}$/.test(buffer)) {
+        buffer = buffer.replace(/ +$/, "");
+        flush();
+        inlines.push({ type: "hardBreak" });
+      } else {
+        buffer = buffer.replace(/ +$/, "") + " ";
+      }
+      index++;
+      continue;
+    }
+
+    if (char === "`") {
+      const run = /^`+/.exec(rest)![0];
+      const close = text.indexOf(run, index + run.length);
+      if (close !== -1 && text[close + run.length] !== "`") {
+        let code = text.slice(index + run.length, close).replace(/\n/g, " ");
+        if (/^ .* $/.test(code) && code.trim()) code = code.slice(1, -1);
+        flush();
+        inlines.push({ type: "text", text: code, marks: addMark(marks, { type: "code" }) });
+        index = close + run.length;
+        continue;
+      }
+      buffer += run;
+      index += run.length;
+      continue;
+    }
+
+    if (rest.startsWith("![")) {
+      const labelEnd = findClosingBracket(text, index + 2);
+      const destination = labelEnd === -1 ? null : parseDestination(text, labelEnd + 1);
+      if (destination) {
+        flush();
+        const alt = text.slice(index + 2, labelEnd).replace(/\\([!-\/:-@\[-`{-~])/g, "$1");
+        // Images with a `javascript:` or other unsafe source are dropped.
+        if (isSafeUrl(destination.url, {}, "image")) {
+          inlines.push(alt ? { type: "image", src: destination.url, alt } : { type: "image", src: destination.url });
+        }
+        index = destination.end;
+        continue;
+      }
+    }
+
+    if (char === "[") {
+      const labelEnd = findClosingBracket(text, index + 1);
+      const destination = labelEnd === -1 ? null : parseDestination(text, labelEnd + 1);
+      if (destination) {
+        const label = text.slice(index + 1, labelEnd);
+        // Links with an unsafe URL keep their text without the link.
+        if (isSafeUrl(destination.url)) {
+          wrap(label, { type: "link", href: destination.url });
+        } else {
+          flush();
+          parseInlineMarkdown(label, marks, inlines);
+        }
+        index = destination.end;
+        continue;
+      }
+    }
+
+    const autolink = /^<((?:https?|mailto):[^\s<>]+)>/i.exec(rest);
+    if (autolink) {
+      flush();
+      inlines.push({ type: "text", text: autolink[1], marks: addMark(marks, { type: "link", href: autolink[1] }) });
+      index += autolink[0].length;
+      continue;
+    }
+
+    const underline = /^<(u|ins)>/i.exec(rest);
+    if (underline) {
+      const closeTag = `</${underline[1].toLowerCase()}>`;
+      const close = text.toLowerCase().indexOf(closeTag, index + underline[0].length);
+      if (close !== -1) {
+        wrap(text.slice(index + underline[0].length, close), { type: "underline" });
+        index = close + closeTag.length;
+        continue;
+      }
+    }
+
+    if (rest.startsWith("<br>") || rest.startsWith("<br/>") || rest.startsWith("<br />")) {
+      flush();
+      inlines.push({ type: "hardBreak" });
+      index += /^<br\s*\/?>/.exec(rest)![0].length;
+      continue;
+    }
+
+    const delimiter = ["**", "__", "~~", "*", "_"].find(candidate => rest.startsWith(candidate));
+    if (delimiter) {
+      const after = text[index + delimiter.length];
+      const leftFlanking = after !== undefined && !/\s/.test(after);
+      const intraword = delimiter[0] === "_" && isAlphanumeric(text[index - 1]);
+      const close = leftFlanking && !intraword ? findClosingDelimiter(text, index + delimiter.length, delimiter) : -1;
+      if (close !== -1) {
+        const mark: EditorMark =
+          delimiter === "~~"
+            ? { type: "strikethrough" }
+            : delimiter.length === 2
+              ? { type: "bold" }
+              : { type: "italic" };
+        wrap(text.slice(index + delimiter.length, close), mark);
+        index = close + delimiter.length;
+        continue;
+      }
+      buffer += delimiter;
+      index += delimiter.length;
+      continue;
+    }
+
+    buffer += char;
+    index++;
+  }
+
+  flush();
+  return inlines;
+};
+
+const FENCE_REGEX = /^ {0,3}(`{3,}|~{3,})\s*([\w+#.-]*)\s*$/;
+const HEADING_REGEX = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const RULE_REGEX = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE_REGEX = /^ {0,3}> ?(.*)$/;
+const LIST_ITEM_REGEX = /^( {0,3})([-*+]|\d{1,9}[.)])(\s+|$)(.*)$/;
+const TABLE_DELIMITER_REGEX = /^ {0,3}\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const splitTableRow = (line: string): string[] => {
+  const trimmed = line.trim().replace(/^\|/, "").replace(/(^|[^\\])\|$/, "$1");
+  const cells: string[] = [];
+  let current = "";
+  for (let index = 0; index < trimmed.length; index++) {
+    if (trimmed[index] === "\\" && index + 1 < trimmed.length) {
+      // `\|` is unescaped here, before inline parsing, so it also works inside code spans.
+      current += trimmed[index + 1] === "|" ? "|" : trimmed[index] + trimmed[index + 1];
+      index++;
+    } else if (trimmed[index] === "|") {
+      cells.push(current.trim());
+      current = "";
+    } else {
+      current += trimmed[index];
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+};
+
+const isTableStart = (lines: string[], index: number): boolean => {
+  const next = lines[index + 1];
+  return lines[index].includes("|") && next !== undefined && next.includes("|") && TABLE_DELIMITER_REGEX.test(next);
+};
+
+const startsBlock = (line: string): boolean => {
+  return FENCE_REGEX.test(line) || HEADING_REGEX.test(line) || RULE_REGEX.test(line) || QUOTE_REGEX.test(line) || LIST_ITEM_REGEX.test(line);
+};
+
+const parseMarkdownBlocks = (lines: string[]): EditorBlock[] => {
+  const blocks: EditorBlock[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (!line.trim()) {
+      index++;
+      continue;
+    }
+
+    const fence = FENCE_REGEX.exec(line);
+    if (fence) {
+      const [, marker, language] = fence;
+      const codeLines: string[] = [];
+      index++;
+      while (index < lines.length && !new RegExp(`^ {0,3}${marker[0]}{${marker.length},}\\s*$`).test(lines[index])) {
+        codeLines.push(lines[index]);
+        index++;
+      }
+      index++;
+      blocks.push({ type: "codeBlock", ...(language ? { language: language.toLowerCase() } : {}), text: codeLines.join("\n") });
+      continue;
+    }
+
+    const heading = HEADING_REGEX.exec(line);
+    if (heading) {
+      const level = heading[1].length as 1 | 2 | 3 | 4 | 5 | 6;
+      blocks.push({ type: "heading", level, content: parseInlineMarkdown(heading[2] || "") });
+      index++;
+      continue;
+    }
+
+    if (RULE_REGEX.test(line)) {
+      blocks.push({ type: "horizontalRule" });
+      index++;
+      continue;
+    }
+
+    if (QUOTE_REGEX.test(line)) {
+      const quoteLines: string[] = [];
+      while (index < lines.length && lines[index].trim()) {
+        const quote = QUOTE_REGEX.exec(lines[index]);
+        // Lines without `>` continue the quote lazily, as in CommonMark.
+        quoteLines.push(quote ? quote[1] : lines[index]);
+        index++;
+      }
+      blocks.push({ type: "blockquote", content: parseMarkdownBlocks(quoteLines) });
+      continue;
+    }
+
+    if (isTableStart(lines, index)) {
+      const toRow = (line: string, header: boolean): EditorTableRow => ({
+        cells: splitTableRow(line).map(cell => {
+          const content: EditorBlock[] = cell ? [{ type: "paragraph", content: parseInlineMarkdown(cell) }] : [];
+          return header ? { header, content } : { content };
+        }),
+      });
+      const rows = [toRow(line, true)];
+      index += 2;
+      while (index < lines.length && lines[index].trim() && lines[index].includes("|")) {
+        rows.push(toRow(lines[index], false));
+        index++;
+      }
+      blocks.push({ type: "table", rows });
+      continue;
+    }
+
+    const listItem = LIST_ITEM_REGEX.exec(line);
+    if (listItem) {
+      const ordered = /\d/.test(listItem[2]);
+      const items: EditorListItem[] = [];
+      const start = ordered ? parseInt(listItem[2], 10) : 1;
+
+      while (index < lines.length) {
+        const item = LIST_ITEM_REGEX.exec(lines[index]);
+        if (!item || /\d/.test(item[2]) !== ordered) break;
+
+        const contentIndent = item[1].length + item[2].length + Math.min(Math.max(item[3].length, 1), 4);
+        const itemLines = [item[4]];
+        index++;
+
+        while (index < lines.length) {
+          const next = lines[index];
+          if (!next.trim()) {
+            const following = lines[index + 1];
+            if (following !== undefined && following.trim() && following.search(/\S/) >= contentIndent) {
+              itemLines.push("");
+              index++;
+              continue;
+            }
+            break;
+          }
+          const indent = next.search(/\S/);
+          if (indent >= contentIndent) {
+            itemLines.push(next.slice(contentIndent));
+          } else if (!startsBlock(next)) {
+            itemLines.push(next.trim());
+          } else {
+            break;
+          }
+          index++;
+        }
+
+        items.push({ content: parseMarkdownBlocks(itemLines) });
+
+        if (index < lines.length && !lines[index].trim()) {
+          const following = lines[index + 1];
+          const nextItem = following !== undefined ? LIST_ITEM_REGEX.exec(following) : null;
+          if (!nextItem || /\d/.test(nextItem[2]) !== ordered) break;
+          index++;
+        }
+      }
+
+      blocks.push(
+        ordered
+          ? start !== 1
+            ? { type: "orderedList", start, items }
+            : { type: "orderedList", items }
+          : { type: "bulletList", items },
+      );
+      continue;
+    }
+
+    const paragraphLines = [line];
+    index++;
+    while (index < lines.length && lines[index].trim() && !startsBlock(lines[index]) && !isTableStart(lines, index)) {
+      paragraphLines.push(lines[index]);
+      index++;
+    }
+    const paragraph = paragraphLines.map(l => l.replace(/^ {0,3}/, "")).join("\n").trim();
+    blocks.push(parseFigure(paragraph) ?? { type: "paragraph", content: parseInlineMarkdown(paragraph) });
+  }
+
+  return blocks;
+};
+
+export const markdownToDocument = (markdown: string): EditorDocument => {
+  const lines = markdown.replace(/\r\n?/g, "\n").replace(/\t/g, "    ").split("\n");
+  return { type: "doc", content: parseMarkdownBlocks(lines) };
+};
+
+/**
+ * Converts editor HTML to Markdown. Underline is written as inline `<u>` HTML,
+ * since Markdown has no syntax for it; colors and alignment are dropped.
+ */
+export const htmlToMarkdown = (html: string): string => documentToMarkdown(htmlToDocument(html));
+
+/**
+ * Converts Markdown to editor HTML. Link and image URLs with a scheme the default sanitizer
+ * blocks, like `javascript:`, are dropped; run the result through `sanitizeHtml` to apply
+ * a stricter policy.
+ */
+export const markdownToHtml = (markdown: string): string => documentToHtml(markdownToDocument(markdown));
@@ -0,0 +1,69 @@
+export interface MentionItem {
+  id: string;
+  label: string;
+  /** Secondary text shown in the suggestion list, e.g. a role or email. */
+  description?: string;
+}
+
+export interface MentionProvider {
+  /** Single character that opens the suggestion list, e.g. `@` or `#`. */
+  trigger: string;
+  search: (query: string) => Promise<MentionItem[]>;
+}
+
+export interface MentionQuery {
+  trigger: string;
+  query: string;
+  /** Text node holding the trigger and the offset of the trigger inside it. */
+  node: Text;
+  offset: number;
+}
+
+const MAX_QUERY_LENGTH = 50;
+
+export const createMentionElement = (item: MentionItem, trigger: string): HTMLSpanElement => {
+  const mention = document.createElement("span");
+  mention.setAttribute("data-mention-id", item.id);
+  mention.setAttribute("data-mention-trigger", trigger);
+  mention.contentEditable = "false";
+  mention.textContent = `${trigger}${item.label}`;
+  return mention;
+};
+
+/** Makes mention nodes loaded from HTML atomic again; `contenteditable` is not kept in output. */
+export const lockMentions = (root: HTMLElement): void => {
+  root.querySelectorAll<HTMLElement>("[data-mention-id]").forEach(mention => {
+    mention.contentEditable = "false";
+  });
+};
+
+export const getMentionIds = (root: HTMLElement): string[] => {
+  const ids = Array.from(root.querySelectorAll("[data-mention-id]")).map(
+    mention => mention.getAttribute("data-mention-id") || "",
+  );
+  return Array.from(new Set(ids.filter(Boolean)));
+};
+
+/**
+ * Looks for a trigger character before the caret that starts a word, with no
+ * whitespace between it and the caret. Returns null when the caret is not in
+ * a mention query.
+ */
+export const findMentionQuery = (root: HTMLElement, triggers: string[]): MentionQuery | null => {
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0 || !selection.isCollapsed) return null;
+  const { anchorNode, anchorOffset } = selection;
+  if (!anchorNode || anchorNode.nodeType !== Node.TEXT_NODE || !root.contains(anchorNode)) return null;
+  if (anchorNode.parentElement?.closest("[data-mention-id], pre, code")) return null;
+
+  const text = (anchorNode.textContent || "").slice(0, anchorOffset);
+  for (let index = text.length - 1; index >= 0 && text.length - index <= MAX_QUERY_LENGTH + 1; index--) {
+    const char = text[index];
+    if (/\s/.test(char)) return null;
+    if (!triggers.includes(char)) continue;
+    const before = text[index - 1];
+    if (before !== undefined && !/[\s\u200b(]/.test(before)) continue;
+    return { trigger: char, query: text.slice(index + 1), node: anchorNode as Text, offset: index };
+  }
+  return null;
+};
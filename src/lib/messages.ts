@@ -0,0 +1,389 @@
+export interface TextEditorMessages {
+  placeholder: string;
+  /** Accessible name of the content area. */
+  editor: string;
+
+  // Toolbar
+  toolbar: string;
+  undo: string;
+  redo: string;
+  textFormat: string;
+  paragraph: string;
+  heading1: string;
+  heading2: string;
+  heading3: string;
+  fontSize: string;
+  fontSizeSmall: string;
+  fontSizeNormal: string;
+  fontSizeLarge: string;
+  fontSizeHuge: string;
+  bold: string;
+  italic: string;
+  underline: string;
+  strikethrough: string;
+  alignLeft: string;
+  alignCenter: string;
+  alignRight: string;
+  leftToRight: string;
+  rightToLeft: string;
+  numberedList: string;
+  bulletList: string;
+  insertLink: string;
+  insertImage: string;
+  codeBlock: string;
+  quote: string;
+  insertTable: string;
+  rowAbove: string;
+  rowBelow: string;
+  columnLeft: string;
+  columnRight: string;
+  deleteRow: string;
+  deleteColumn: string;
+  headerRow: string;
+  mergeCells: string;
+  deleteTable: string;
+  nextCell: string;
+  previousCell: string;
+  textColor: string;
+  backgroundColor: string;
+  keyboardShortcuts: string;
+  close: string;
+
+  // Slash menu
+  link: string;
+  image: string;
+  table: string;
+  tableDescription: (rows: number, columns: number) => string;
+
+  // Text inserted when a command runs on an empty editor
+  headingPlaceholder: string;
+  textPlaceholder: string;
+  listItemPlaceholder: string;
+  quotePlaceholder: string;
+
+  // Dialogs
+  linkText: string;
+  linkTextPlaceholder: string;
+  linkUrl: string;
+  linkUrlPlaceholder: string;
+  invalidLinkUrl: string;
+  openInNewTab: string;
+  editLink: string;
+  openLink: string;
+  removeLink: string;
+  imageUrl: string;
+  imageUrlPlaceholder: string;
+  imageAlt: string;
+  imageAltPlaceholder: string;
+  imageCaption: string;
+  imageCaptionPlaceholder: string;
+  editImage: string;
+  resizeImage: string;
+  uploadFromDevice: string;
+  cancel: string;
+  insert: string;
+  save: string;
+  selectTableSize: string;
+  tableSize: (rows: number, columns: number) => string;
+  tableCellLabel: (rows: number, columns: number) => string;
+
+  // Suggestion menus
+  mentionSuggestions: string;
+  insertBlock: string;
+  noMatchingBlocks: string;
+  noResults: string;
+  loading: string;
+
+  // Image uploads
+  uploadProgress: (percent: number) => string;
+  uploadFailed: string;
+  uploadFailedHint: (error: string) => string;
+
+  // Find and replace
+  findAndReplace: string;
+  find: string;
+  replaceWith: string;
+  replace: string;
+  replaceAll: string;
+  previousMatch: string;
+  nextMatch: string;
+  matchCase: string;
+  wholeWord: string;
+  useRegex: string;
+  matchCount: (current: number, total: number) => string;
+  invalidSearchPattern: string;
+
+  // Code blocks
+  codeLanguage: string;
+  plainText: string;
+  exitCodeBlock: string;
+
+  // Status bar
+  wordCount: (count: number) => string;
+  characterCount: (count: number) => string;
+  readingTime: (minutes: number) => string;
+  lengthLimit: (length: number, limit: number) => string;
+}
+
+export const enMessages: TextEditorMessages = {
+  placeholder: "Start typing...",
+  editor: "Rich text editor",
+
+  toolbar: "Formatting",
+  undo: "Undo",
+  redo: "Redo",
+  textFormat: "Text format",
+  paragraph: "Paragraph",
+  heading1: "Heading 1",
+  heading2: "Heading 2",
+  heading3: "Heading 3",
+  fontSize: "Font size",
+  fontSizeSmall: "Small",
+  fontSizeNormal: "Normal",
+  fontSizeLarge: "Large",
+  fontSizeHuge: "Huge",
+  bold: "Bold",
+  italic: "Italic",
+  underline: "Underline",
+  strikethrough: "Strikethrough",
+  alignLeft: "Align Left",
+  alignCenter: "Align Center",
+  alignRight: "Align Right",
+  leftToRight: "Left to Right",
+  rightToLeft: "Right to Left",
+  numberedList: "Numbered List",
+  bulletList: "Bullet List",
+  insertLink: "Insert Link",
+  insertImage: "Insert Image",
+  codeBlock: "Code Block",
+  quote: "Quote",
+  insertTable: "Insert Table",
+  rowAbove: "Row above",
+  rowBelow: "Row below",
+  columnLeft: "Column left",
+  columnRight: "Column right",
+  deleteRow: "Delete row",
+  deleteColumn: "Delete column",
+  headerRow: "Header row",
+  mergeCells: "Merge cells",
+  deleteTable: "Delete table",
+  nextCell: "Next cell",
+  previousCell: "Previous cell",
+  textColor: "Text Color",
+  backgroundColor: "Background Color",
+  keyboardShortcuts: "Keyboard shortcuts",
+  close: "Close",
+
+  link: "Link",
+  image: "Image",
+  table: "Table",
+  tableDescription: (rows, columns) => `${rows} × ${columns} table`,
+
+  headingPlaceholder: "Heading text",
+  textPlaceholder: "Text",
+  listItemPlaceholder: "List item",
+  quotePlaceholder: "Quote text here...",
+
+  linkText: "Link Text",
+  linkTextPlaceholder: "Enter link text",
+  linkUrl: "URL",
+  linkUrlPlaceholder: "https://example.com",
+  invalidLinkUrl: "Enter a valid URL",
+  openInNewTab: "Open in new tab",
+  editLink: "Edit link",
+  openLink: "Open link",
+  removeLink: "Remove link",
+  imageUrl: "Image URL",
+  imageUrlPlaceholder: "https://example.com/image.jpg",
+  imageAlt: "Alt Text (Optional)",
+  imageAltPlaceholder: "Describe the image",
+  imageCaption: "Caption (Optional)",
+  imageCaptionPlaceholder: "Shown under the image",
+  editImage: "Edit alt text and caption",
+  resizeImage: "Drag to resize",
+  uploadFromDevice: "Upload from device",
+  cancel: "Cancel",
+  insert: "Insert",
+  save: "Save",
+  selectTableSize: "Select table size",
+  tableSize: (rows, columns) => `${rows} × ${columns}`,
+  tableCellLabel: (rows, columns) => `${rows} by ${columns} table`,
+
+  mentionSuggestions: "Mention suggestions",
+  insertBlock: "Insert block",
+  noMatchingBlocks: "No matching blocks",
+  noResults: "No results",
+  loading: "Loading…",
+
+  uploadProgress: percent => `Uploading… ${percent}%`,
+  uploadFailed: "Upload failed",
+  uploadFailedHint: error => `${error} Click to remove.`,
+
+  findAndReplace: "Find and replace",
+  find: "Find",
+  replaceWith: "Replace with",
+  replace: "Replace",
+  replaceAll: "Replace all",
+  previousMatch: "Previous match",
+  nextMatch: "Next match",
+  matchCase: "Match case",
+  wholeWord: "Whole word",
+  useRegex: "Regular expression",
+  matchCount: (current, total) => `${current} of ${total}`,
+  invalidSearchPattern: "Invalid pattern",
+
+  codeLanguage: "Code language",
+  plainText: "Plain text",
+  exitCodeBlock: "Exit code block",
+
+  wordCount: count => `${count} ${count === 1 ? "word" : "words"}`,
+  characterCount: count => `${count} ${count === 1 ? "character" : "characters"}`,
+  readingTime: minutes => `${minutes} min read`,
+  lengthLimit: (length, limit) => `${length} / ${limit}`,
+};
+
+export const arMessages: TextEditorMessages = {
+  placeholder: "ابدأ الكتابة...",
+  editor: "محرر النصوص",
+
+  toolbar: "التنسيق",
+  undo: "تراجع",
+  redo: "إعادة",
+  textFormat: "تنسيق النص",
+  paragraph: "فقرة",
+  heading1: "عنوان 1",
+  heading2: "عنوان 2",
+  heading3: "عنوان 3",
+  fontSize: "حجم الخط",
+  fontSizeSmall: "صغير",
+  fontSizeNormal: "عادي",
+  fontSizeLarge: "كبير",
+  fontSizeHuge: "كبير جدًا",
+  bold: "عريض",
+  italic: "مائل",
+  underline: "تسطير",
+  strikethrough: "يتوسطه خط",
+  alignLeft: "محاذاة لليسار",
+  alignCenter: "توسيط",
+  alignRight: "محاذاة لليمين",
+  leftToRight: "من اليسار إلى اليمين",
+  rightToLeft: "من اليمين إلى اليسار",
+  numberedList: "قائمة مرقمة",
+  bulletList: "قائمة نقطية",
+  insertLink: "إدراج رابط",
+  insertImage: "إدراج صورة",
+  codeBlock: "كتلة برمجية",
+  quote: "اقتباس",
+  insertTable: "إدراج جدول",
+  rowAbove: "صف أعلى",
+  rowBelow: "صف أسفل",
+  columnLeft: "عمود لليسار",
+  columnRight: "عمود لليمين",
+  deleteRow: "حذف الصف",
+  deleteColumn: "حذف العمود",
+  headerRow: "صف العناوين",
+  mergeCells: "دمج الخلايا",
+  deleteTable: "حذف الجدول",
+  nextCell: "الخلية التالية",
+  previousCell: "الخلية السابقة",
+  textColor: "لون النص",
+  backgroundColor: "لون الخلفية",
+  keyboardShortcuts: "اختصارات لوحة المفاتيح",
+  close: "إغلاق",
+
+  link: "رابط",
+  image: "صورة",
+  table: "جدول",
+  tableDescription: (rows, columns) => `جدول ${rows} × ${columns}`,
+
+  headingPlaceholder: "نص العنوان",
+  textPlaceholder: "نص",
+  listItemPlaceholder: "عنصر القائمة",
+  quotePlaceholder: "اكتب الاقتباس هنا...",
+
+  linkText: "نص الرابط",
+  linkTextPlaceholder: "أدخل نص الرابط",
+  linkUrl: "الرابط",
+  linkUrlPlaceholder: "https://example.com",
+  invalidLinkUrl: "أدخل رابطًا صالحًا",
+  openInNewTab: "فتح في علامة تبويب جديدة",
+  editLink: "تعديل الرابط",
+  openLink: "فتح الرابط",
+  removeLink: "إزالة الرابط",
+  imageUrl: "رابط الصورة",
+  imageUrlPlaceholder: "https://example.com/image.jpg",
+  imageAlt: "النص البديل (اختياري)",
+  imageAltPlaceholder: "صف الصورة",
+  imageCaption: "التعليق (اختياري)",
+  imageCaptionPlaceholder: "يظهر أسفل الصورة",
+  editImage: "تعديل النص البديل والتعليق",
+  resizeImage: "اسحب لتغيير الحجم",
+  uploadFromDevice: "رفع من الجهاز",
+  cancel: "إلغاء",
+  insert: "إدراج",
+  save: "حفظ",
+  selectTableSize: "اختر حجم الجدول",
+  tableSize: (rows, columns) => `${rows} × ${columns}`,
+  tableCellLabel: (rows, columns) => `جدول ${rows} في ${columns}`,
+
+  mentionSuggestions: "اقتراحات الإشارة",
+  insertBlock: "إدراج كتلة",
+  noMatchingBlocks: "لا توجد كتل مطابقة",
+  noResults: "لا توجد نتائج",
+  loading: "جارٍ التحميل…",
+
+  uploadProgress: percent => `جارٍ الرفع… ${percent}%`,
+  uploadFailed: "فشل الرفع",
+  uploadFailedHint: error => `${error} انقر للإزالة.`,
+
+  findAndReplace: "بحث واستبدال",
+  find: "بحث",
+  replaceWith: "استبدال بـ",
+  replace: "استبدال",
+  replaceAll: "استبدال الكل",
+  previousMatch: "النتيجة السابقة",
+  nextMatch: "النتيجة التالية",
+  matchCase: "مطابقة حالة الأحرف",
+  wholeWord: "كلمة كاملة",
+  useRegex: "تعبير نمطي",
+  matchCount: (current, total) => `${current} من ${total}`,
+  invalidSearchPattern: "نمط غير صالح",
+
+  codeLanguage: "لغة الشيفرة",
+  plainText: "نص عادي",
+  exitCodeBlock: "الخروج من الكتلة البرمجية",
+
+  wordCount: count => `الكلمات: ${count}`,
+  characterCount: count => `الأحرف: ${count}`,
+  readingTime: minutes => `وقت القراءة: ${minutes} د`,
+  lengthLimit: (length, limit) => `${length} / ${limit}`,
+};
+
+const BUILT_IN_MESSAGES: Record<string, TextEditorMessages> = {
+  en: enMessages,
+  ar: arMessages,
+};
+
+// Languages written right-to-left, by primary language subtag.
+const RTL_LANGUAGES = ["ar", "arc", "ckb", "dv", "fa", "he", "ps", "sd", "syr", "ug", "ur", "yi"];
+
+const getLanguage = (locale: string): string => locale.toLowerCase().split(/[-_]/)[0];
+
+export const isRtlLocale = (locale: string): boolean => RTL_LANGUAGES.includes(getLanguage(locale));
+
+/**
+ * The built-in bundle for `locale` (by language, so `"ar-EG"` uses `ar`), falling
+ * back to English, with `overrides` applied on top.
+ */
+export const getMessages = (locale = "en", overrides: Partial<TextEditorMessages> = {}): TextEditorMessages => ({
+  ...enMessages,
+  ...BUILT_IN_MESSAGES[getLanguage(locale)],
+  ...overrides,
+});
+
+type TextMessageKey = {
+  [Key in keyof TextEditorMessages]: TextEditorMessages[Key] extends string ? Key : never;
+}[keyof TextEditorMessages];
+
+/** A label that reads `key` from the editor's current messages, for toolbar items and slash commands. */
+export const message = (key: TextMessageKey) => (messages: TextEditorMessages): string => messages[key];
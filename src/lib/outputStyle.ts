@@ -0,0 +1,225 @@
+import { parseHtml, serializeHtml, type HtmlElementNode, type HtmlNode } from "./htmlParser";
+import { FONT_SIZE_KEYWORDS, type TextAlign } from "./document";
+import { parseImageAlign, parseImageWidth, type ImageAlign } from "./image";
+import type { SanitizeOptions } from "./sanitize";
+
+/** `inline` writes presentation into `style` attributes; `classes` writes class names for a stylesheet to style. */
+export type OutputStyle = "inline" | "classes";
+
+export type FontSizeKeyword = (typeof FONT_SIZE_KEYWORDS)[number];
+
+export interface OutputClassNames {
+  blockquote: string;
+  codeBlock: string;
+  link: string;
+  image: string;
+  figure: string;
+  figcaption: string;
+  table: string;
+  tableCell: string;
+  tableHeaderCell: string;
+  /** Replace `text-align` on blocks. */
+  align: Record<TextAlign, string>;
+  /** Replace the `auto` margins that align images and figures. */
+  imageAlign: Record<ImageAlign, string>;
+  /** Replace `<font size>` and keyword `font-size`s, by the CSS keyword the size stands for. */
+  fontSize: Record<FontSizeKeyword, string>;
+}
+
+export type OutputClassNamesOptions = Partial<Omit<OutputClassNames, "align" | "imageAlign" | "fontSize">> & {
+  align?: Partial<OutputClassNames["align"]>;
+  imageAlign?: Partial<OutputClassNames["imageAlign"]>;
+  fontSize?: Partial<OutputClassNames["fontSize"]>;
+};
+
+export const defaultOutputClassNames: OutputClassNames = {
+  blockquote: "stockfish-quote",
+  codeBlock: "stockfish-code-block",
+  link: "stockfish-link",
+  image: "stockfish-image",
+  figure: "stockfish-figure",
+  figcaption: "stockfish-caption",
+  table: "stockfish-table",
+  tableCell: "stockfish-cell",
+  tableHeaderCell: "stockfish-header-cell",
+  align: {
+    left: "stockfish-align-left",
+    center: "stockfish-align-center",
+    right: "stockfish-align-right",
+    justify: "stockfish-align-justify",
+  },
+  imageAlign: {
+    left: "stockfish-image-left",
+    center: "stockfish-image-center",
+    right: "stockfish-image-right",
+  },
+  fontSize: {
+    "x-small": "stockfish-text-x-small",
+    small: "stockfish-text-small",
+    medium: "stockfish-text-medium",
+    large: "stockfish-text-large",
+    "x-large": "stockfish-text-x-large",
+    "xx-large": "stockfish-text-xx-large",
+    "xxx-large": "stockfish-text-xxx-large",
+  },
+};
+
+export const resolveOutputClassNames = (options: OutputClassNamesOptions = {}): OutputClassNames => ({
+  ...defaultOutputClassNames,
+  ...options,
+  align: { ...defaultOutputClassNames.align, ...options.align },
+  imageAlign: { ...defaultOutputClassNames.imageAlign, ...options.imageAlign },
+  fontSize: { ...defaultOutputClassNames.fontSize, ...options.fontSize },
+});
+
+const getClassList = (classNames: OutputClassNames): string[] => [
+  classNames.blockquote,
+  classNames.codeBlock,
+  classNames.link,
+  classNames.image,
+  classNames.figure,
+  classNames.figcaption,
+  classNames.table,
+  classNames.tableCell,
+  classNames.tableHeaderCell,
+  ...Object.values(classNames.align),
+  ...Object.values(classNames.imageAlign),
+  ...Object.values(classNames.fontSize),
+];
+
+/** Sanitizer options that keep the output class names, so class-based content survives sanitizing. */
+export const withOutputClasses = (
+  options: Partial<SanitizeOptions> = {},
+  classNames: OutputClassNames = defaultOutputClassNames,
+): Partial<SanitizeOptions> => ({
+  ...options,
+  allowedClasses: [...(options.allowedClasses || []), ...getClassList(classNames)],
+});
+
+/** The alignment a block gets from one of the `align` classes, if any. */
+export const getClassTextAlign = (element: Element, classNames: OutputClassNames): TextAlign | undefined =>
+  (Object.keys(classNames.align) as TextAlign[]).find(align => element.classList.contains(classNames.align[align]));
+
+// The declarations the editor writes for each element, which the class replaces.
+const PRESET_STYLES: Record<string, string[]> = {
+  blockquote: ["border", "border-left", "border-inline-start", "padding", "padding-left", "padding-inline-start", "margin", "font-style", "color"],
+  pre: ["background-color", "padding", "border-radius", "overflow"],
+  a: ["color", "text-decoration"],
+  img: ["max-width", "height", "border-radius", "display"],
+  figure: ["max-width"],
+  figcaption: ["color", "font-size", "text-align", "margin"],
+  table: ["border-collapse", "width", "margin"],
+  td: ["border", "padding", "vertical-align", "min-width"],
+  th: ["border", "padding", "vertical-align", "min-width", "font-weight"],
+};
+
+const SEMANTIC_TAGS: Record<string, string> = { b: "strong", i: "em", strike: "s", font: "span" };
+
+const parseDeclarations = (style: string | undefined): Map<string, string> => {
+  const declarations = new Map<string, string>();
+  (style || "").split(";").forEach(declaration => {
+    const separator = declaration.indexOf(":");
+    if (separator === -1) return;
+    const property = declaration.slice(0, separator).trim().toLowerCase();
+    const value = declaration.slice(separator + 1).trim();
+    if (property && value) declarations.set(property, value);
+  });
+  return declarations;
+};
+
+/**
+ * Turns HTML with the editor's inline styles into the class-based form of
+ * `outputStyle="classes"`: preset styles become class names, alignment and keyword
+ * font sizes become classes, `<font>`, `<b>`, `<i>` and `<strike>` become `<span>`,
+ * `<strong>`, `<em>` and `<s>`, and image widths move to the `width` attribute.
+ * Colors are the user's own values, so they stay inline. Does not need a DOM.
+ */
+export const migrateInlineStyles = (html: string, classNames: OutputClassNamesOptions = {}): string => {
+  const names = resolveOutputClassNames(classNames);
+  const alignClasses = Object.values(names.align);
+  const imageAlignClasses = Object.values(names.imageAlign);
+  const fontSizeClasses = Object.values(names.fontSize);
+  const presetClasses: Record<string, string> = {
+    blockquote: names.blockquote,
+    pre: names.codeBlock,
+    a: names.link,
+    img: names.image,
+    figure: names.figure,
+    figcaption: names.figcaption,
+    table: names.table,
+    td: names.tableCell,
+    th: names.tableHeaderCell,
+  };
+
+  const visit = (node: HtmlNode, parent?: HtmlElementNode): HtmlNode => {
+    if (node.type === "text") return node;
+    const { tagName } = node;
+    const attributes = { ...node.attributes };
+    const style = parseDeclarations(attributes.style);
+    const classes = new Set((attributes.class || "").split(/\s+/).filter(Boolean));
+    if (presetClasses[tagName] && (tagName !== "a" || attributes.href)) classes.add(presetClasses[tagName]);
+    const replaceClass = (group: string[], className: string) => {
+      group.forEach(name => classes.delete(name));
+      classes.add(className);
+    };
+
+    (PRESET_STYLES[tagName] || []).forEach(property => style.delete(property));
+
+    const textAlign = style.get("text-align")?.toLowerCase();
+    style.delete("text-align");
+    // Header cells are left-aligned by the editor's table preset.
+    if (textAlign && textAlign in names.align && !(tagName === "th" && textAlign === "left")) {
+      replaceClass(alignClasses, names.align[textAlign as TextAlign]);
+    }
+
+    const fontSize = style.get("font-size")?.toLowerCase();
+    const fontSizeKeyword = tagName === "font" ? FONT_SIZE_KEYWORDS[parseInt(attributes.size || "", 10) - 1] : fontSize;
+    if (fontSizeKeyword && fontSizeKeyword in names.fontSize) {
+      style.delete("font-size");
+      replaceClass(fontSizeClasses, names.fontSize[fontSizeKeyword as FontSizeKeyword]);
+    }
+    if (tagName === "font") {
+      if (attributes.color) style.set("color", attributes.color);
+      if (attributes.face) style.set("font-family", attributes.face);
+      delete attributes.size;
+      delete attributes.color;
+      delete attributes.face;
+    }
+
+    const inFigure = parent?.tagName === "figure";
+    if ((tagName === "img" && !inFigure) || tagName === "figure") {
+      const align = parseImageAlign(style.get("margin"));
+      style.delete("margin");
+      if (align) replaceClass(imageAlignClasses, names.imageAlign[align]);
+    }
+    if (tagName === "img") {
+      const width = parseImageWidth(style.get("width"));
+      style.delete("width");
+      if (inFigure) style.delete("margin");
+      else if (width) attributes.width = String(width);
+    }
+
+    let children = node.children.map(child => visit(child, node));
+    if (tagName === "figure") {
+      // The figure is sized by its image, so its width goes onto the image.
+      const width = parseImageWidth(style.get("width"));
+      style.delete("width");
+      if (width) {
+        children = children.map(child =>
+          child.type === "element" && child.tagName === "img"
+            ? { ...child, attributes: { ...child.attributes, width: String(width) } }
+            : child,
+        );
+      }
+    }
+
+    if (style.size) attributes.style = Array.from(style, ([property, value]) => `${property}: ${value}`).join("; ");
+    else delete attributes.style;
+    if (classes.size) attributes.class = Array.from(classes).join(" ");
+    else delete attributes.class;
+
+    return { ...node, tagName: SEMANTIC_TAGS[tagName] || tagName, attributes, children };
+  };
+
+  return serializeHtml(parseHtml(html).map(node => visit(node)));
+};
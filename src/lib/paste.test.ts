@@ -0,0 +1,14 @@
+import { describe, expect, it } from "vitest";
+import { cleanPastedHtml } from "./paste";
+
+describe("cleanPastedHtml", () => {
+  it("does not underline the text of pasted Google Docs links", () => {
+    const html =
+      '<a href="https://example.com"><span style="color:#1155cc;text-decoration:underline;">Example</span></a>';
+    expect(cleanPastedHtml(html)).not.toContain("<u>");
+  });
+
+  it("keeps underlines outside links", () => {
+    expect(cleanPastedHtml('<p><span style="text-decoration:underline">Note</span></p>')).toContain("<u>Note</u>");
+  });
+});
@@ -0,0 +1,271 @@
+import { escapeText, parseHtml, serializeHtml, type HtmlElementNode, type HtmlNode } from "./htmlParser";
+import { sanitizeNodes, type SanitizeOptions } from "./sanitize";
+
+export type PasteMode = "plain" | "clean" | "custom";
+
+export interface PasteContent {
+  /** `text/html` from the clipboard, or the cleaned version of it in `clean` mode. */
+  html: string;
+  /** `text/plain` from the clipboard. */
+  text: string;
+  mode: PasteMode;
+}
+
+// What survives a clean paste: the formats the toolbar can produce, plus tables.
+export const pasteSanitizeOptions: Partial<SanitizeOptions> = {
+  allowedTags: [
+    "p",
+    "br",
+    "h1",
+    "h2",
+    "h3",
+    "strong",
+    "em",
+    "u",
+    "s",
+    "a",
+    "ul",
+    "ol",
+    "li",
+    "blockquote",
+    "pre",
+    "code",
+    "table",
+    "thead",
+    "tbody",
+    "tr",
+    "th",
+    "td",
+  ],
+  allowedAttributes: {
+    a: ["href"],
+    td: ["colspan", "rowspan"],
+    th: ["colspan", "rowspan"],
+  },
+  allowedStyles: [],
+};
+
+const BLOCK_TAGS = new Set(["p", "div", "h1", "h2", "h3", "h4", "h5", "h6", "ul", "ol", "li", "blockquote", "pre", "table", "thead", "tbody", "tr", "th", "td"]);
+
+const BULLET_MARKERS = /^[·•▪◦o§\-–*\uf0a7\uf0b7]$/;
+
+const element = (tagName: string, children: HtmlNode[], attributes: Record<string, string> = {}): HtmlElementNode => ({
+  type: "element",
+  tagName,
+  attributes,
+  children,
+});
+
+const parseStyle = (style: string | undefined): Record<string, string> => {
+  const declarations: Record<string, string> = {};
+  (style || "").split(";").forEach(declaration => {
+    const separator = declaration.indexOf(":");
+    if (separator === -1) return;
+    declarations[declaration.slice(0, separator).trim().toLowerCase()] = declaration.slice(separator + 1).trim().toLowerCase();
+  });
+  return declarations;
+};
+
+const isWhitespaceText = (node: HtmlNode): boolean => node.type === "text" && node.value.trim() === "";
+
+const isBlock = (node: HtmlNode): boolean => node.type === "element" && BLOCK_TAGS.has(node.tagName);
+
+const hasBlockDescendant = (node: HtmlElementNode): boolean =>
+  node.children.some(child => child.type === "element" && (BLOCK_TAGS.has(child.tagName) || hasBlockDescendant(child)));
+
+const getText = (nodes: HtmlNode[]): string =>
+  nodes.map(node => (node.type === "text" ? node.value : getText(node.children))).join("");
+
+// Word writes list paragraphs as <p style="mso-list:l0 level2 lfo1"> with the bullet in a span.
+const isWordListParagraph = (node: HtmlNode): node is HtmlElementNode =>
+  node.type === "element" && node.tagName === "p" && /mso-list\s*:\s*l\d/i.test(node.attributes.style || "");
+
+const removeWordListMarker = (nodes: HtmlNode[]): { marker: string; children: HtmlNode[] } => {
+  let marker = "";
+  const strip = (list: HtmlNode[]): HtmlNode[] =>
+    list.flatMap((node): HtmlNode[] => {
+      if (node.type === "text") return [node];
+      if (/mso-list\s*:\s*ignore/i.test(node.attributes.style || "")) {
+        marker += getText(node.children);
+        return [];
+      }
+      return [{ ...node, children: strip(node.children) }];
+    });
+  const children = strip(nodes);
+  return { marker: marker.replace(/\s+/g, ""), children };
+};
+
+const convertWordLists = (nodes: HtmlNode[]): HtmlNode[] => {
+  const result: HtmlNode[] = [];
+  let index = 0;
+
+  while (index < nodes.length) {
+    if (!isWordListParagraph(nodes[index])) {
+      result.push(nodes[index]);
+      index++;
+      continue;
+    }
+
+    const stack: { level: number; list: HtmlElementNode }[] = [];
+    while (index < nodes.length && (isWordListParagraph(nodes[index]) || isWhitespaceText(nodes[index]))) {
+      const node = nodes[index];
+      index++;
+      if (!isWordListParagraph(node)) continue;
+
+      const levelMatch = /level(\d+)/i.exec(node.attributes.style || "");
+      const level = levelMatch ? parseInt(levelMatch[1], 10) : 1;
+      const { marker, children } = removeWordListMarker(node.children);
+      const tagName = marker && !BULLET_MARKERS.test(marker) ? "ol" : "ul";
+
+      while (stack.length && stack[stack.length - 1].level > level) {
+        stack.pop();
+      }
+      const top = stack[stack.length - 1];
+      if (!top || top.level < level || top.list.tagName !== tagName) {
+        if (top && top.level === level) stack.pop();
+        const list = element(tagName, []);
+        const parent = stack[stack.length - 1];
+        const parentItem = parent?.list.children[parent.list.children.length - 1];
+        if (parentItem && parentItem.type === "element") {
+          parentItem.children.push(list);
+        } else {
+          result.push(list);
+        }
+        stack.push({ level, list });
+      }
+      stack[stack.length - 1].list.children.push(element("li", children));
+    }
+  }
+
+  return result;
+};
+
+// Turns inline formatting expressed as CSS (Google Docs, web pages) into semantic tags.
+const wrapStyledInline = (node: HtmlElementNode, children: HtmlNode[], inLink: boolean): HtmlNode[] => {
+  const style = parseStyle(node.attributes.style);
+  let wrapped = children;
+  const weight = style["font-weight"];
+  const decoration = `${style["text-decoration"] || ""} ${style["text-decoration-line"] || ""}`;
+
+  if (style["vertical-align"] === "super" || style["vertical-align"] === "sub") {
+    return wrapped;
+  }
+  if (decoration.includes("line-through")) wrapped = [element("s", wrapped)];
+  // Links are underlined by their own style; Google Docs also underlines the span inside.
+  if (decoration.includes("underline") && !inLink) wrapped = [element("u", wrapped)];
+  if (style["font-style"] === "italic") wrapped = [element("em", wrapped)];
+  if (weight === "bold" || weight === "bolder" || parseInt(weight, 10) >= 600) wrapped = [element("strong", wrapped)];
+  return wrapped;
+};
+
+const isUnboldedWrapper = (node: HtmlElementNode): boolean => {
+  // Google Docs wraps the whole clipboard in <b style="font-weight:normal" id="docs-internal-guid-...">.
+  const weight = parseStyle(node.attributes.style)["font-weight"];
+  return (
+    (node.tagName === "b" || node.tagName === "strong") &&
+    ((node.attributes.id || "").startsWith("docs-internal-guid") || weight === "normal" || weight === "400")
+  );
+};
+
+const transformNodes = (nodes: HtmlNode[], inPre = false, inLink = false): HtmlNode[] => {
+  const output = convertWordLists(nodes).flatMap((node): HtmlNode[] => {
+    if (node.type === "text") {
+      if (inPre) return [node];
+      // Source HTML whitespace is not significant, but the editor renders with pre-wrap.
+      return [{ type: "text", value: node.value.replace(/[\t\n\r ]+/g, " ") }];
+    }
+
+    const { tagName } = node;
+    if (tagName.includes(":") || tagName === "meta" || tagName === "link" || tagName === "xml") {
+      return [];
+    }
+    if (tagName === "br" && /Apple-interchange-newline/.test(node.attributes.class || "")) {
+      return [];
+    }
+
+    const linked = inLink || tagName === "a";
+    const children = transformNodes(node.children, inPre || tagName === "pre", linked);
+
+    if (isUnboldedWrapper(node)) {
+      return children;
+    }
+
+    switch (tagName) {
+      case "b":
+        return [element("strong", children)];
+      case "i":
+        return [element("em", children)];
+      case "strike":
+      case "del":
+        return [element("s", children)];
+      case "h4":
+      case "h5":
+      case "h6":
+        return [element("h3", children)];
+      case "div":
+      case "section":
+      case "article":
+        return hasBlockDescendant(node) ? children : [element("p", children)];
+      case "li": {
+        // Google Docs puts a <p> inside every list item.
+        const meaningful = children.filter(child => !isWhitespaceText(child));
+        if (meaningful.length === 1 && meaningful[0].type === "element" && meaningful[0].tagName === "p") {
+          return [element("li", meaningful[0].children)];
+        }
+        return [element("li", children)];
+      }
+      case "p": {
+        const className = node.attributes.class || "";
+        if (/MsoTitle/i.test(className)) return [element("h1", children)];
+        if (/MsoSubtitle/i.test(className)) return [element("h2", children)];
+        return [{ ...node, children: wrapStyledInline(node, children, linked) }];
+      }
+      case "span":
+      case "font":
+      case "a":
+      case "strong":
+      case "em":
+      case "u":
+      case "s":
+      case "td":
+      case "th":
+        return [{ ...node, children: wrapStyledInline(node, children, linked) }];
+      default:
+        return [{ ...node, children }];
+    }
+  });
+
+  // Whitespace between blocks would show up as stray lines in a pre-wrap editor.
+  return output.filter((node, index) => {
+    if (!isWhitespaceText(node) || inPre) return true;
+    return !isBlock(output[index - 1] ?? node) && !isBlock(output[index + 1] ?? node);
+  });
+};
+
+const extractFragment = (html: string): string => {
+  const start = html.indexOf("<!--StartFragment-->");
+  const end = html.indexOf("<!--EndFragment-->");
+  return start !== -1 && end > start ? html.slice(start + "<!--StartFragment-->".length, end) : html;
+};
+
+const removeEmptyInlines = (nodes: HtmlNode[]): HtmlNode[] =>
+  nodes.flatMap((node): HtmlNode[] => {
+    if (node.type === "text") return [node];
+    const children = removeEmptyInlines(node.children);
+    const isEmptyInline = ["strong", "em", "u", "s", "a"].includes(node.tagName) && !getText(children).trim();
+    return isEmptyInline ? children : [{ ...node, children }];
+  });
+
+/**
+ * Reduces clipboard HTML from Word, Google Docs or web pages to the structure
+ * the editor supports: headings, lists, basic inline formatting, links and tables.
+ * Vendor styles, classes and wrapper elements are removed.
+ */
+export const cleanPastedHtml = (html: string): string => {
+  const nodes = transformNodes(parseHtml(extractFragment(html)));
+  return serializeHtml(removeEmptyInlines(sanitizeNodes(nodes, pasteSanitizeOptions))).trim();
+};
+
+export const plainTextToHtml = (text: string): string => {
+  return escapeText(text.replace(/\r\n?/g, "\n")).replace(/\n/g, "<br>");
+};
@@ -0,0 +1,232 @@
+import { parseHtml, serializeHtml, type HtmlNode } from "./htmlParser";
+
+export interface SanitizeOptions {
+  /** Tags kept in the output. Other tags are unwrapped and their children kept. */
+  allowedTags: string[];
+  /** Attributes allowed per tag; the `*` entry applies to every tag. */
+  allowedAttributes: Record<string, string[]>;
+  /** CSS properties allowed inside `style` attributes. */
+  allowedStyles: string[];
+  /** URL schemes allowed in `href`/`src`. Relative URLs are always allowed. */
+  allowedSchemes: string[];
+  /** Allow `data:image/...` URLs in `img[src]`. */
+  allowDataImages: boolean;
+  /** Tags removed together with everything inside them. */
+  dropContentTags: string[];
+  /** Class names kept on any allowed tag, such as the `outputStyle="classes"` class names. */
+  allowedClasses: string[];
+}
+
+export const defaultSanitizeOptions: SanitizeOptions = {
+  allowedTags: [
+    "p",
+    "div",
+    "br",
+    "hr",
+    "span",
+    "strong",
+    "b",
+    "em",
+    "i",
+    "u",
+    "s",
+    "strike",
+    "del",
+    "sub",
+    "sup",
+    "h1",
+    "h2",
+    "h3",
+    "h4",
+    "h5",
+    "h6",
+    "ul",
+    "ol",
+    "li",
+    "blockquote",
+    "pre",
+    "code",
+    "a",
+    "img",
+    "figure",
+    "figcaption",
+    "font",
+    "table",
+    "thead",
+    "tbody",
+    "tfoot",
+    "tr",
+    "th",
+    "td",
+  ],
+  allowedAttributes: {
+    "*": ["style", "dir", "title"],
+    a: ["href", "target", "rel"],
+    img: ["src", "alt", "width", "height"],
+    font: ["color", "size", "face"],
+    span: ["data-mention-id", "data-mention-trigger"],
+    code: ["class"],
+    ol: ["start"],
+    td: ["colspan", "rowspan"],
+    th: ["colspan", "rowspan"],
+  },
+  allowedStyles: [
+    "color",
+    "background-color",
+    "font-size",
+    "font-style",
+    "font-weight",
+    "text-align",
+    "text-decoration",
+    "direction",
+    "border",
+    "border-left",
+    "border-inline-start",
+    "border-collapse",
+    "border-radius",
+    "padding",
+    "padding-left",
+    "padding-inline-start",
+    "margin",
+    "max-width",
+    "width",
+    "height",
+    "display",
+    "overflow",
+    "vertical-align",
+    "min-width",
+  ],
+  allowedSchemes: ["http", "https", "mailto", "tel"],
+  allowDataImages: true,
+  dropContentTags: ["script", "style", "iframe", "object", "embed", "noscript", "template", "svg", "math", "head", "title", "textarea", "select"],
+  allowedClasses: [],
+};
+
+const URL_ATTRIBUTES = new Set(["href", "src", "cite", "action", "formaction", "poster", "background", "xlink:href"]);
+
+const DATA_IMAGE_REGEX = /^data:image\/(png|jpe?g|gif|webp|avif|bmp);/i;
+
+const LANGUAGE_CLASS_REGEX = /^language-[\w+#.-]+$/;
+
+const UNSAFE_STYLE_VALUE_REGEX = /url\s*\(|expression\s*\(|javascript:|vbscript:|@import|[<>\\]/i;
+
+const resolveOptions = (options: Partial<SanitizeOptions> = {}): SanitizeOptions => ({
+  ...defaultSanitizeOptions,
+  ...options,
+});
+
+/**
+ * Returns true when the URL is relative or uses one of the allowed schemes.
+ * Control characters and whitespace are ignored the way browsers ignore them,
+ * so `java\tscript:` is still recognized.
+ */
+export const isSafeUrl = (
+  url: string,
+  options: Partial<SanitizeOptions> = {},
+  context: "link" | "image" = "link",
+): boolean => {
+  const { allowedSchemes, allowDataImages } = resolveOptions(options);
+  const normalized = url.replace(/[\u0000-\u0020\u007f-\u009f]/g, "");
+  const schemeMatch = /^([a-z][a-z0-9+.-]*):/i.exec(normalized);
+
+  if (!schemeMatch) {
+    return true;
+  }
+
+  const scheme = schemeMatch[1].toLowerCase();
+  if (scheme === "data") {
+    return context === "image" && allowDataImages && DATA_IMAGE_REGEX.test(normalized);
+  }
+
+  return allowedSchemes.map(s => s.toLowerCase()).includes(scheme);
+};
+
+export const sanitizeStyle = (style: string, allowedStyles: string[] = defaultSanitizeOptions.allowedStyles): string => {
+  return style
+    .split(";")
+    .map(declaration => {
+      const separator = declaration.indexOf(":");
+      if (separator === -1) return null;
+      const property = declaration.slice(0, separator).trim().toLowerCase();
+      const value = declaration.slice(separator + 1).trim();
+      if (!property || !value || !allowedStyles.includes(property) || UNSAFE_STYLE_VALUE_REGEX.test(value)) {
+        return null;
+      }
+      return `${property}: ${value}`;
+    })
+    .filter((declaration): declaration is string => declaration !== null)
+    .join("; ");
+};
+
+export const sanitizeNodes = (nodes: HtmlNode[], options: Partial<SanitizeOptions> = {}): HtmlNode[] => {
+  const resolved = resolveOptions(options);
+  const globalAttributes = resolved.allowedAttributes["*"] || [];
+
+  const visit = (node: HtmlNode): HtmlNode[] => {
+    if (node.type === "text") {
+      return [node];
+    }
+
+    const { tagName } = node;
+    if (resolved.dropContentTags.includes(tagName)) {
+      return [];
+    }
+
+    const children = node.children.flatMap(visit);
+    if (!resolved.allowedTags.includes(tagName)) {
+      return children;
+    }
+
+    const allowedForTag = [...globalAttributes, ...(resolved.allowedAttributes[tagName] || [])];
+    const attributes: Record<string, string> = {};
+
+    Object.keys(node.attributes).forEach(name => {
+      const value = node.attributes[name];
+      if (name === "class") {
+        // Only `language-xxx` and allowed classes, so content can't pick up the host page's class names.
+        const classes = value
+          .split(/\s+/)
+          .filter(
+            className =>
+              resolved.allowedClasses.includes(className) ||
+              (allowedForTag.includes("class") && LANGUAGE_CLASS_REGEX.test(className)),
+          );
+        if (classes.length) attributes.class = classes.join(" ");
+        return;
+      }
+      if (name.startsWith("on") || !allowedForTag.includes(name)) {
+        return;
+      }
+      if (URL_ATTRIBUTES.has(name)) {
+        if (!isSafeUrl(value, resolved, tagName === "img" ? "image" : "link")) return;
+        attributes[name] = value.trim();
+        return;
+      }
+      if (name === "style") {
+        const style = sanitizeStyle(value, resolved.allowedStyles);
+        if (style) attributes.style = style;
+        return;
+      }
+      attributes[name] = value;
+    });
+
+    if (tagName === "a" && attributes.target === "_blank") {
+      const rel = new Set((attributes.rel || "").split(/\s+/).filter(Boolean));
+      rel.add("noopener");
+      rel.add("noreferrer");
+      attributes.rel = Array.from(rel).join(" ");
+    }
+
+    return [{ ...node, attributes, children }];
+  };
+
+  return nodes.flatMap(visit);
+};
+
+/**
+ * Cleans an HTML string against an allowlist policy. Safe to call on the
+ * server: it does not depend on `document` or `DOMParser`.
+ */
+export const sanitizeHtml = (html: string, options: Partial<SanitizeOptions> = {}): string => {
+  return serializeHtml(sanitizeNodes(parseHtml(html), options));
+};
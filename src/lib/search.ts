@@ -0,0 +1,127 @@
+export interface SearchOptions {
+  caseSensitive?: boolean;
+  wholeWord?: boolean;
+  /** Treat the query as a regular expression; replacements can then use `$1`, `$<name>` and `$&`. */
+  regex?: boolean;
+}
+
+export interface SearchMatch {
+  range: Range;
+  /** The replacement for this match, with `$1` and the like filled in when searching by regex. */
+  replace: (replacement: string) => string;
+}
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** Compiles a query into a global regex, or returns `null` for an empty query or an invalid pattern. */
+export const createSearchPattern = (query: string, { caseSensitive, wholeWord, regex }: SearchOptions = {}) => {
+  if (!query) return null;
+  let source = regex ? query : escapeRegExp(query);
+  if (wholeWord) source = `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])`;
+  try {
+    return new RegExp(source, `gu${caseSensitive ? "" : "i"}`);
+  } catch {
+    return null;
+  }
+};
+
+const getBlock = (node: Node, root: HTMLElement): Element | null =>
+  node.parentElement?.closest("p, div, h1, h2, h3, h4, h5, h6, li, blockquote, pre, td, th") ?? root;
+
+/**
+ * Every match of `pattern` in the text of `root`. Matches can span formatting, like
+ * `wo<b>rd</b>`, but not blocks or line breaks.
+ */
+export const findMatches = (root: HTMLElement, pattern: RegExp, { regex }: SearchOptions = {}): SearchMatch[] => {
+  const segments: { node: Text; start: number }[] = [];
+  let text = "";
+  let lastBlock: Element | null = null;
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT | NodeFilter.SHOW_ELEMENT);
+  while (walker.nextNode()) {
+    const node = walker.currentNode;
+    if (node.nodeName === "BR") {
+      text += "\n";
+    } else if (node.nodeType === Node.TEXT_NODE) {
+      const block = getBlock(node, root);
+      if (lastBlock && block !== lastBlock) text += "\n";
+      lastBlock = block;
+      segments.push({ node: node as Text, start: text.length });
+      text += (node as Text).data;
+    }
+  }
+
+  const locate = (index: number, end: boolean): { node: Text; offset: number } => {
+    // The last segment starting at or before `index`; a match end prefers the segment it ends in.
+    let low = 0;
+    let high = segments.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (segments[middle].start < index || (!end && segments[middle].start === index)) low = middle;
+      else high = middle - 1;
+    }
+    const segment = segments[low];
+    return { node: segment.node, offset: index - segment.start };
+  };
+
+  const matches: SearchMatch[] = [];
+  pattern.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    if (match[0].length === 0) {
+      pattern.lastIndex++;
+      continue;
+    }
+    const { index } = match;
+    const matchText = match[0];
+    if (matchText.includes("\n")) continue;
+    const start = locate(index, false);
+    const end = locate(index + matchText.length, true);
+    const range = document.createRange();
+    range.setStart(start.node, start.offset);
+    range.setEnd(end.node, end.offset);
+
+    // A sticky copy of the pattern at this index expands `$1` etc. with the same lookarounds.
+    const sticky = new RegExp(pattern.source, pattern.flags.replace("g", "") + "y");
+    matches.push({
+      range,
+      replace: replacement => {
+        if (!regex) return replacement;
+        sticky.lastIndex = index;
+        const replaced = text.replace(sticky, replacement);
+        return replaced.slice(index, replaced.length - (text.length - index - matchText.length));
+      },
+    });
+  }
+  return matches;
+};
+
+/** Replaces the text of `match` with `text`, leaving surrounding formatting alone. Returns the new text node. */
+export const replaceMatch = (match: SearchMatch, text: string): Text => {
+  const { range } = match;
+  const node = document.createTextNode(text);
+  range.deleteContents();
+  range.insertNode(node);
+  range.setStartAfter(node);
+  range.collapse(true);
+  return node;
+};
+
+const SEARCH_HIGHLIGHT = "stockfish-search";
+const ACTIVE_SEARCH_HIGHLIGHT = "stockfish-search-active";
+const highlightedRanges = new Map<object, { ranges: Range[]; active: Range | null }>();
+
+/**
+ * Marks `ranges` with the CSS Custom Highlight API, so matches are painted without
+ * changing the content. `owner` keeps editors on the same page from clearing each
+ * other's highlights. Returns `false` where the API is not supported.
+ */
+export const setSearchHighlights = (owner: object, ranges: Range[], active: Range | null): boolean => {
+  if (typeof CSS === "undefined" || !("highlights" in CSS) || typeof Highlight === "undefined") return false;
+  if (ranges.length === 0) highlightedRanges.delete(owner);
+  else highlightedRanges.set(owner, { ranges, active });
+
+  const all = Array.from(highlightedRanges.values());
+  CSS.highlights.set(SEARCH_HIGHLIGHT, new Highlight(...all.flatMap(entry => entry.ranges.filter(range => range !== entry.active))));
+  CSS.highlights.set(ACTIVE_SEARCH_HIGHLIGHT, new Highlight(...all.flatMap(entry => (entry.active ? [entry.active] : []))));
+  return true;
+};
@@ -0,0 +1,78 @@
+export interface SelectionSnapshot {
+  anchorPath: number[];
+  anchorOffset: number;
+  focusPath: number[];
+  focusOffset: number;
+}
+
+export const getNodePath = (root: Node, node: Node): number[] | null => {
+  const path: number[] = [];
+  let current: Node | null = node;
+  while (current && current !== root) {
+    const parent: Node | null = current.parentNode;
+    if (!parent) return null;
+    path.unshift(Array.prototype.indexOf.call(parent.childNodes, current));
+    current = parent;
+  }
+  return current === root ? path : null;
+};
+
+export const getNodeFromPath = (root: Node, path: number[]): Node | null => {
+  let current: Node | null = root;
+  for (const index of path) {
+    if (!current || !current.childNodes[index]) return null;
+    current = current.childNodes[index];
+  }
+  return current;
+};
+
+const clampOffset = (node: Node, offset: number): number => {
+  const length = node.nodeType === Node.TEXT_NODE ? (node.textContent || "").length : node.childNodes.length;
+  return Math.min(offset, length);
+};
+
+/**
+ * Records the current selection as child-index paths relative to `root`, so it
+ * can be restored after the content has been re-rendered from HTML.
+ */
+export const captureSelection = (root: HTMLElement): SelectionSnapshot | null => {
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0 || !selection.anchorNode || !selection.focusNode) {
+    return null;
+  }
+  const anchorPath = getNodePath(root, selection.anchorNode);
+  const focusPath = getNodePath(root, selection.focusNode);
+  if (!anchorPath || !focusPath) return null;
+
+  return {
+    anchorPath,
+    anchorOffset: selection.anchorOffset,
+    focusPath,
+    focusOffset: selection.focusOffset,
+  };
+};
+
+export const restoreSelection = (root: HTMLElement, snapshot: SelectionSnapshot | null): void => {
+  const selection = window.getSelection();
+  if (!selection) return;
+
+  const anchorNode = snapshot ? getNodeFromPath(root, snapshot.anchorPath) : null;
+  const focusNode = snapshot ? getNodeFromPath(root, snapshot.focusPath) : null;
+
+  if (!snapshot || !anchorNode || !focusNode) {
+    // Fall back to placing the caret at the end of the content.
+    const range = document.createRange();
+    range.selectNodeContents(root);
+    range.collapse(false);
+    selection.removeAllRanges();
+    selection.addRange(range);
+    return;
+  }
+
+  selection.setBaseAndExtent(
+    anchorNode,
+    clampOffset(anchorNode, snapshot.anchorOffset),
+    focusNode,
+    clampOffset(focusNode, snapshot.focusOffset),
+  );
+};
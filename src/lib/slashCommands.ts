@@ -0,0 +1,53 @@
+export interface SlashCommandContext {
+  /** The editor's content element, with the caret where the command was typed. */
+  element: HTMLDivElement;
+  /** Inserts sanitized HTML at the caret. */
+  insertHTML: (html: string) => void;
+}
+
+export interface SlashCommand {
+  id: string;
+  label: string;
+  description?: string;
+  /** Extra words the menu filter matches, e.g. `["h1", "title"]`. */
+  keywords?: string[];
+  run: (context: SlashCommandContext) => void;
+}
+
+export interface SlashQuery {
+  node: Text;
+  query: string;
+}
+
+const MAX_QUERY_LENGTH = 30;
+
+/**
+ * Returns the filter text when the caret sits right after `/query` typed at
+ * the start of an otherwise empty line.
+ */
+export const findSlashQuery = (root: HTMLElement): SlashQuery | null => {
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0 || !selection.isCollapsed) return null;
+  const { anchorNode, anchorOffset } = selection;
+  if (!anchorNode || anchorNode.nodeType !== Node.TEXT_NODE || !root.contains(anchorNode)) return null;
+  if (anchorNode.parentElement?.closest("pre, code, td, th, [data-mention-id]")) return null;
+
+  const text = anchorNode.textContent || "";
+  if (!text.startsWith("/") || anchorOffset !== text.length || text.length > MAX_QUERY_LENGTH + 1 || text.includes("\n")) {
+    return null;
+  }
+  const parent = anchorNode.parentElement;
+  if (!parent || (parent !== root && !/^(DIV|P|H[1-6]|LI|BLOCKQUOTE)$/.test(parent.tagName))) return null;
+  const previous = anchorNode.previousSibling;
+  if (previous && previous.nodeName !== "BR") return null;
+
+  return { node: anchorNode as Text, query: text.slice(1) };
+};
+
+export const filterSlashCommands = (commands: SlashCommand[], query: string): SlashCommand[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return commands;
+  return commands.filter(command =>
+    [command.label, ...(command.keywords || [])].some(word => word.toLowerCase().includes(needle)),
+  );
+};
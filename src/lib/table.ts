@@ -0,0 +1,351 @@
+import { CONTENT_COLORS } from "./theme";
+
+export type TableCell = HTMLTableCellElement;
+
+interface TableGrid {
+  rows: HTMLTableRowElement[];
+  // grid[row][column] is the cell covering that slot, spans included.
+  grid: TableCell[][];
+  columnCount: number;
+}
+
+const CELL_STYLE = `border: 1px solid ${CONTENT_COLORS.border}; padding: 6px 8px; vertical-align: top; min-width: 48px;`;
+const TABLE_STYLE = "border-collapse: collapse; width: 100%; margin: 12px 0;";
+
+export const createTableCell = (tagName: "td" | "th"): TableCell => {
+  const cell = document.createElement(tagName);
+  cell.setAttribute("style", CELL_STYLE);
+  if (tagName === "th") {
+    cell.style.fontWeight = "600";
+    cell.style.textAlign = "left";
+  }
+  cell.appendChild(document.createElement("br"));
+  return cell;
+};
+
+export const createTable = (rowCount: number, columnCount: number, withHeaderRow = false): HTMLTableElement => {
+  const table = document.createElement("table");
+  table.setAttribute("style", TABLE_STYLE);
+
+  if (withHeaderRow) {
+    const thead = table.createTHead();
+    const headerRow = thead.insertRow();
+    for (let column = 0; column < columnCount; column++) {
+      headerRow.appendChild(createTableCell("th"));
+    }
+  }
+
+  const tbody = table.createTBody();
+  for (let row = withHeaderRow ? 1 : 0; row < rowCount; row++) {
+    const tableRow = tbody.insertRow();
+    for (let column = 0; column < columnCount; column++) {
+      tableRow.appendChild(createTableCell("td"));
+    }
+  }
+
+  return table;
+};
+
+export const getClosestCell = (node: Node | null, root?: HTMLElement): TableCell | null => {
+  let current: Node | null = node;
+  while (current && current !== root) {
+    if (current.nodeType === Node.ELEMENT_NODE) {
+      const tagName = (current as HTMLElement).tagName;
+      if (tagName === "TD" || tagName === "TH") return current as TableCell;
+    }
+    current = current.parentNode;
+  }
+  return null;
+};
+
+export const getTable = (cell: TableCell): HTMLTableElement | null => cell.closest("table");
+
+export const buildTableGrid = (table: HTMLTableElement): TableGrid => {
+  const rows = Array.from(table.rows);
+  const grid: TableCell[][] = rows.map(() => []);
+
+  rows.forEach((row, rowIndex) => {
+    let column = 0;
+    Array.from(row.cells).forEach(cell => {
+      while (grid[rowIndex][column]) column++;
+      for (let r = 0; r < Math.max(1, cell.rowSpan); r++) {
+        for (let c = 0; c < Math.max(1, cell.colSpan); c++) {
+          if (grid[rowIndex + r]) grid[rowIndex + r][column + c] = cell;
+        }
+      }
+      column += Math.max(1, cell.colSpan);
+    });
+  });
+
+  const columnCount = Math.max(0, ...grid.map(row => row.length));
+  return { rows, grid, columnCount };
+};
+
+const getCellPosition = (grid: TableCell[][], cell: TableCell): { row: number; column: number } | null => {
+  for (let row = 0; row < grid.length; row++) {
+    const column = grid[row].indexOf(cell);
+    if (column !== -1) return { row, column };
+  }
+  return null;
+};
+
+const cellTagForRow = (row: HTMLTableRowElement): "td" | "th" =>
+  row.parentElement && row.parentElement.tagName === "THEAD" ? "th" : "td";
+
+export const insertRow = (cell: TableCell, placement: "before" | "after"): TableCell | null => {
+  const table = getTable(cell);
+  if (!table) return null;
+  const { rows, grid, columnCount } = buildTableGrid(table);
+  const position = getCellPosition(grid, cell);
+  if (!position) return null;
+
+  const targetIndex = placement === "before" ? position.row : position.row + Math.max(1, cell.rowSpan);
+  const referenceRow = rows[Math.min(targetIndex, rows.length - 1)];
+  const newRow = document.createElement("tr");
+  const extended = new Set<TableCell>();
+
+  for (let column = 0; column < columnCount; column++) {
+    const above = grid[targetIndex - 1]?.[column];
+    const below = grid[targetIndex]?.[column];
+    if (above && above === below) {
+      // A cell spanning across the new row grows instead of getting a neighbour.
+      if (!extended.has(above)) {
+        above.rowSpan = Math.max(1, above.rowSpan) + 1;
+        extended.add(above);
+      }
+      column += Math.max(1, above.colSpan) - 1;
+      continue;
+    }
+    newRow.appendChild(createTableCell(targetIndex < rows.length ? cellTagForRow(referenceRow) : "td"));
+  }
+
+  if (targetIndex < rows.length) {
+    referenceRow.parentNode!.insertBefore(newRow, referenceRow);
+  } else {
+    const lastRow = rows[rows.length - 1];
+    const section = lastRow.parentElement?.tagName === "THEAD" ? table.tBodies[0] || table.createTBody() : lastRow.parentNode!;
+    section.appendChild(newRow);
+  }
+
+  return newRow.cells[0] || null;
+};
+
+export const deleteRow = (cell: TableCell): TableCell | null => {
+  const table = getTable(cell);
+  if (!table) return null;
+  const { rows, grid } = buildTableGrid(table);
+  const position = getCellPosition(grid, cell);
+  if (!position) return null;
+
+  const rowIndex = position.row;
+  const row = rows[rowIndex];
+  const handled = new Set<TableCell>();
+
+  grid[rowIndex].forEach((spanningCell, column) => {
+    if (handled.has(spanningCell)) return;
+    handled.add(spanningCell);
+    if (spanningCell.rowSpan <= 1) return;
+
+    const start = getCellPosition(grid, spanningCell)!;
+    spanningCell.rowSpan -= 1;
+    if (start.row === rowIndex) {
+      // Move a cell that starts in the deleted row down into the next one.
+      const nextRow = rows[rowIndex + 1];
+      const following = Array.from(nextRow.cells).find(next => getCellPosition(grid, next)!.column > column);
+      nextRow.insertBefore(spanningCell, following || null);
+    }
+  });
+
+  const neighbour = rows[rowIndex + 1] || rows[rowIndex - 1];
+  row.remove();
+
+  if (table.rows.length === 0) {
+    table.remove();
+    return null;
+  }
+  Array.from(table.tBodies).concat(table.tHead ? [table.tHead] : []).forEach(section => {
+    if (section.rows.length === 0) section.remove();
+  });
+  return neighbour && neighbour.isConnected ? neighbour.cells[0] || null : null;
+};
+
+export const insertColumn = (cell: TableCell, placement: "before" | "after"): TableCell | null => {
+  const table = getTable(cell);
+  if (!table) return null;
+  const { rows, grid } = buildTableGrid(table);
+  const position = getCellPosition(grid, cell);
+  if (!position) return null;
+
+  const targetColumn = placement === "before" ? position.column : position.column + Math.max(1, cell.colSpan);
+  const extended = new Set<TableCell>();
+  let firstNewCell: TableCell | null = null;
+
+  rows.forEach((row, rowIndex) => {
+    const left = grid[rowIndex][targetColumn - 1];
+    const right = grid[rowIndex][targetColumn];
+    if (left && left === right) {
+      if (!extended.has(left)) {
+        left.colSpan = Math.max(1, left.colSpan) + 1;
+        extended.add(left);
+      }
+      return;
+    }
+    const newCell = createTableCell(cellTagForRow(row));
+    const following = Array.from(row.cells).find(existing => getCellPosition(grid, existing)!.column >= targetColumn);
+    row.insertBefore(newCell, following || null);
+    if (rowIndex === position.row) firstNewCell = newCell;
+  });
+
+  return firstNewCell;
+};
+
+export const deleteColumn = (cell: TableCell): TableCell | null => {
+  const table = getTable(cell);
+  if (!table) return null;
+  const { rows, grid } = buildTableGrid(table);
+  const position = getCellPosition(grid, cell);
+  if (!position) return null;
+
+  const handled = new Set<TableCell>();
+  rows.forEach((_, rowIndex) => {
+    const covering = grid[rowIndex][position.column];
+    if (!covering || handled.has(covering)) return;
+    handled.add(covering);
+    if (covering.colSpan > 1) {
+      covering.colSpan -= 1;
+    } else {
+      covering.remove();
+    }
+  });
+
+  rows.forEach(row => {
+    if (row.cells.length === 0) row.remove();
+  });
+  if (table.querySelectorAll("td, th").length === 0) {
+    table.remove();
+    return null;
+  }
+  const row = rows[position.row];
+  return row.isConnected ? row.cells[Math.min(position.column, row.cells.length - 1)] || null : null;
+};
+
+const convertCell = (cell: TableCell, tagName: "td" | "th"): TableCell => {
+  const replacement = document.createElement(tagName);
+  Array.from(cell.attributes).forEach(attribute => replacement.setAttribute(attribute.name, attribute.value));
+  replacement.style.fontWeight = tagName === "th" ? "600" : "";
+  replacement.style.textAlign = tagName === "th" ? "left" : "";
+  while (cell.firstChild) replacement.appendChild(cell.firstChild);
+  cell.replaceWith(replacement);
+  return replacement;
+};
+
+export const hasHeaderRow = (table: HTMLTableElement): boolean => !!table.tHead && table.tHead.rows.length > 0;
+
+export const toggleHeaderRow = (table: HTMLTableElement): void => {
+  if (hasHeaderRow(table)) {
+    const thead = table.tHead!;
+    const tbody = table.tBodies[0] || table.createTBody();
+    Array.from(thead.rows)
+      .reverse()
+      .forEach(row => {
+        Array.from(row.cells).forEach(cell => convertCell(cell, "td"));
+        tbody.insertBefore(row, tbody.firstChild);
+      });
+    thead.remove();
+    return;
+  }
+
+  const firstRow = table.rows[0];
+  if (!firstRow) return;
+  const thead = table.createTHead();
+  thead.appendChild(firstRow);
+  Array.from(firstRow.cells).forEach(cell => convertCell(cell, "th"));
+};
+
+/**
+ * Merges the rectangle spanned by two cells into the top-left one. The
+ * rectangle grows until no spanning cell sticks out of it.
+ */
+export const mergeCells = (startCell: TableCell, endCell: TableCell): TableCell | null => {
+  const table = getTable(startCell);
+  if (!table || table !== getTable(endCell) || startCell === endCell) return null;
+  const { grid } = buildTableGrid(table);
+  const start = getCellPosition(grid, startCell);
+  const end = getCellPosition(grid, endCell);
+  if (!start || !end) return null;
+
+  let top = Math.min(start.row, end.row);
+  let left = Math.min(start.column, end.column);
+  let bottom = Math.max(start.row + startCell.rowSpan - 1, end.row + endCell.rowSpan - 1);
+  let right = Math.max(start.column + startCell.colSpan - 1, end.column + endCell.colSpan - 1);
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (let row = top; row <= bottom; row++) {
+      for (let column = left; column <= right; column++) {
+        const cell = grid[row]?.[column];
+        if (!cell) continue;
+        const position = getCellPosition(grid, cell)!;
+        const cellBottom = position.row + Math.max(1, cell.rowSpan) - 1;
+        const cellRight = position.column + Math.max(1, cell.colSpan) - 1;
+        if (position.row < top || position.column < left || cellBottom > bottom || cellRight > right) {
+          top = Math.min(top, position.row);
+          left = Math.min(left, position.column);
+          bottom = Math.max(bottom, cellBottom);
+          right = Math.max(right, cellRight);
+          changed = true;
+        }
+      }
+    }
+  }
+
+  const target = grid[top][left];
+  const merged = new Set<TableCell>([target]);
+  for (let row = top; row <= bottom; row++) {
+    for (let column = left; column <= right; column++) {
+      const cell = grid[row]?.[column];
+      if (!cell || merged.has(cell)) continue;
+      merged.add(cell);
+      const hasContent = (cell.textContent || "").trim() !== "" || cell.querySelector("img");
+      if (hasContent) {
+        target.appendChild(document.createElement("br"));
+        while (cell.firstChild) target.appendChild(cell.firstChild);
+      }
+      cell.remove();
+    }
+  }
+
+  target.rowSpan = bottom - top + 1;
+  target.colSpan = right - left + 1;
+  Array.from(table.rows).forEach(row => {
+    if (row.cells.length === 0) row.remove();
+  });
+  return target;
+};
+
+export const getAdjacentCell = (cell: TableCell, direction: 1 | -1): TableCell | null => {
+  const table = getTable(cell);
+  if (!table) return null;
+  const cells = Array.from(table.querySelectorAll<TableCell>("td, th")).filter(candidate => getTable(candidate) === table);
+  return cells[cells.indexOf(cell) + direction] || null;
+};
+
+export const placeCaretInCell = (cell: TableCell | null, selectContents = false): void => {
+  if (!cell) return;
+  const range = document.createRange();
+  range.selectNodeContents(cell);
+  if (!selectContents) range.collapse(true);
+  const selection = window.getSelection();
+  selection?.removeAllRanges();
+  selection?.addRange(range);
+};
+
+/** The cells at the selection's anchor and focus; both are the same cell for a caret. */
+export const getSelectedCells = (root: HTMLElement): { anchor: TableCell; focus: TableCell } | null => {
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0) return null;
+  const anchor = getClosestCell(selection.anchorNode, root);
+  const focus = getClosestCell(selection.focusNode, root) || anchor;
+  return anchor && focus ? { anchor, focus } : null;
+};
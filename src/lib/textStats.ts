@@ -0,0 +1,148 @@
+import { getNodeFromPath, getNodePath } from "./selection";
+
+export type LengthUnit = "characters" | "words";
+
+export interface TextStats {
+  words: number;
+  /** User-perceived characters, so an emoji or a letter with combining marks counts once. Line breaks don't count. */
+  characters: number;
+  /** Estimated minutes to read, rounded up; 0 for empty text. */
+  readingTime: number;
+}
+
+const WORDS_PER_MINUTE = 200;
+
+const BLOCK_REGEX = /^(P|DIV|H[1-6]|LI|UL|OL|BLOCKQUOTE|PRE|TABLE|TR|FIGURE|FIGCAPTION)$/;
+
+// Without Intl.Segmenter: each Han character is a word, runs of kana are one, and
+// anything else is split on spaces and punctuation.
+const FALLBACK_WORD_REGEX =
+  /\p{Script=Han}|[\p{Script=Hiragana}\p{Script=Katakana}]+|(?:(?![\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}])[\p{L}\p{M}\p{N}'’])+/gu;
+
+/**
+ * The text of `node` with a line break after every block and `<br>`, so words in
+ * neighbouring paragraphs or table cells are not run together.
+ */
+export const getPlainText = (node: Node): string => {
+  if (node.nodeType === Node.TEXT_NODE) return node.textContent || "";
+  if (node.nodeName === "BR") return "\n";
+  const text = Array.from(node.childNodes).map(getPlainText).join("");
+  return node.nodeType === Node.ELEMENT_NODE && BLOCK_REGEX.test(node.nodeName) ? `${text}\n` : text;
+};
+
+/** The plain text `root` would have if `range` were replaced with `text`, without touching the document. */
+export const replaceRangeText = (root: HTMLElement, range: AbstractRange, text: string): string => {
+  const clone = root.cloneNode(true) as HTMLElement;
+  const startPath = getNodePath(root, range.startContainer);
+  const endPath = getNodePath(root, range.endContainer);
+  const start = startPath && getNodeFromPath(clone, startPath);
+  const end = endPath && getNodeFromPath(clone, endPath);
+  if (start && end) {
+    const cloneRange = document.createRange();
+    cloneRange.setStart(start, range.startOffset);
+    cloneRange.setEnd(end, range.endOffset);
+    cloneRange.deleteContents();
+    if (text) cloneRange.insertNode(document.createTextNode(text));
+  }
+  return getPlainText(clone);
+};
+
+const getWordSegments = (text: string, locale?: string): { index: number; length: number }[] => {
+  if (typeof Intl.Segmenter === "function") {
+    // Dictionary-based, so Chinese, Japanese and Thai text without spaces splits into real words.
+    return Array.from(new Intl.Segmenter(locale, { granularity: "word" }).segment(text))
+      .filter(segment => segment.isWordLike)
+      .map(segment => ({ index: segment.index, length: segment.segment.length }));
+  }
+  return Array.from(text.matchAll(FALLBACK_WORD_REGEX), match => ({ index: match.index!, length: match[0].length }));
+};
+
+const getGraphemes = (text: string, locale?: string): string[] =>
+  typeof Intl.Segmenter === "function"
+    ? Array.from(new Intl.Segmenter(locale, { granularity: "grapheme" }).segment(text), segment => segment.segment)
+    : Array.from(text);
+
+export const countWords = (text: string, locale?: string): number => getWordSegments(text, locale).length;
+
+export const countCharacters = (text: string, locale?: string): number =>
+  getGraphemes(text.replace(/[\r\n]/g, ""), locale).length;
+
+export const countLength = (text: string, unit: LengthUnit, locale?: string): number =>
+  unit === "words" ? countWords(text, locale) : countCharacters(text, locale);
+
+export const getTextStats = (text: string, locale?: string): TextStats => {
+  const words = countWords(text, locale);
+  return {
+    words,
+    characters: countCharacters(text, locale),
+    readingTime: Math.ceil(words / WORDS_PER_MINUTE),
+  };
+};
+
+/** The longest start of `text` that is at most `limit` characters or words long. */
+export const truncateText = (text: string, limit: number, unit: LengthUnit, locale?: string): string => {
+  if (limit <= 0) return "";
+  if (unit === "words") {
+    const next = getWordSegments(text, locale)[limit];
+    return next ? text.slice(0, next.index).trimEnd() : text;
+  }
+
+  let result = "";
+  let count = 0;
+  for (const grapheme of getGraphemes(text, locale)) {
+    if (!/^[\r\n]+$/.test(grapheme)) {
+      if (count === limit) break;
+      count++;
+    }
+    result += grapheme;
+  }
+  return result;
+};
+
+/**
+ * Cuts `html` after `limit` characters or words of text, dropping everything that follows.
+ * Counts over the text of the whole fragment, so a word split by markup such as
+ * `<b>foo</b>bar` is one word, as in `countWords(getPlainText(...))`.
+ */
+export const truncateHtml = (html: string, limit: number, unit: LengthUnit, locale?: string): string => {
+  const template = document.createElement("template");
+  template.innerHTML = html;
+
+  // The text `getPlainText` gives, with where each text node starts in it.
+  const starts = new Map<Node, number>();
+  let text = "";
+  const collect = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      starts.set(node, text.length);
+      text += node.textContent || "";
+    } else if (node.nodeName === "BR") {
+      text += "\n";
+    } else {
+      node.childNodes.forEach(collect);
+      if (node.nodeType === Node.ELEMENT_NODE && BLOCK_REGEX.test(node.nodeName)) text += "\n";
+    }
+  };
+  collect(template.content);
+  const cut = truncateText(text, limit, unit, locale).length;
+  let done = false;
+
+  const walk = (node: Node) => {
+    Array.from(node.childNodes).forEach(child => {
+      if (done) {
+        child.remove();
+      } else if (child.nodeType === Node.TEXT_NODE) {
+        const start = starts.get(child)!;
+        const value = child.textContent || "";
+        if (start + value.length > cut) {
+          child.textContent = value.slice(0, Math.max(0, cut - start));
+          done = true;
+        }
+      } else {
+        walk(child);
+      }
+    });
+  };
+
+  walk(template.content);
+  return template.innerHTML;
+};
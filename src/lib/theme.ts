@@ -0,0 +1,96 @@
+export type EditorTheme = "light" | "dark" | "auto";
+
+/**
+ * Colors written into inserted content. They read the CSS variables the theme sets, and
+ * fall back to the light colors where the content is shown without the stylesheet.
+ */
+export const CONTENT_COLORS = {
+  accent: "var(--stockfish-content-accent, #3b82f6)",
+  muted: "var(--stockfish-content-muted, #6b7280)",
+  codeBackground: "var(--stockfish-content-code-background, #f3f4f6)",
+  border: "var(--stockfish-content-border, #d1d5db)",
+};
+
+const pick = (theme: EditorTheme, light: string, dark: string, auto: string) =>
+  theme === "dark" ? dark : theme === "light" ? light : auto;
+
+/** Class names for the editor UI, in the style of TimeTable: `auto` follows the system color scheme. */
+export const getEditorThemeClasses = (theme: EditorTheme) => ({
+  toolbar: pick(
+    theme,
+    "border-gray-300 bg-gray-50",
+    "border-gray-700 bg-gray-800",
+    "border-gray-300 bg-gray-50 dark:border-gray-700 dark:bg-gray-800",
+  ),
+  divider: pick(theme, "bg-gray-300", "bg-gray-600", "bg-gray-300 dark:bg-gray-600"),
+  button: pick(
+    theme,
+    "bg-gray-100 hover:bg-gray-200 text-gray-700",
+    "bg-gray-700 hover:bg-gray-600 text-gray-200",
+    "bg-gray-100 hover:bg-gray-200 text-gray-700 dark:bg-gray-700 dark:hover:bg-gray-600 dark:text-gray-200",
+  ),
+  field: pick(
+    theme,
+    "border-gray-300 bg-white text-gray-900",
+    "border-gray-600 bg-gray-900 text-gray-100",
+    "border-gray-300 bg-white text-gray-900 dark:border-gray-600 dark:bg-gray-900 dark:text-gray-100",
+  ),
+  content: pick(
+    theme,
+    "border-gray-300 bg-white text-gray-900",
+    "border-gray-700 bg-gray-900 text-gray-100",
+    "border-gray-300 bg-white text-gray-900 dark:border-gray-700 dark:bg-gray-900 dark:text-gray-100",
+  ),
+  contentDisabled: pick(
+    theme,
+    "border-gray-300 bg-gray-100 text-gray-900",
+    "border-gray-700 bg-gray-800 text-gray-100",
+    "border-gray-300 bg-gray-100 text-gray-900 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-100",
+  ),
+  placeholder: pick(theme, "text-gray-400", "text-gray-500", "text-gray-400 dark:text-gray-500"),
+  popover: pick(
+    theme,
+    "border-gray-300 bg-white text-gray-700",
+    "border-gray-600 bg-gray-800 text-gray-200",
+    "border-gray-300 bg-white text-gray-700 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-200",
+  ),
+  secondaryButton: pick(
+    theme,
+    "bg-gray-200 text-gray-700 hover:bg-gray-300",
+    "bg-gray-700 text-gray-200 hover:bg-gray-600",
+    "bg-gray-200 text-gray-700 hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600",
+  ),
+  ghostButton: pick(
+    theme,
+    "text-gray-600 hover:bg-gray-200",
+    "text-gray-300 hover:bg-gray-700",
+    "text-gray-600 hover:bg-gray-200 dark:text-gray-300 dark:hover:bg-gray-700",
+  ),
+  outlineButton: pick(
+    theme,
+    "border-gray-300 text-gray-700 hover:bg-gray-50",
+    "border-gray-600 text-gray-200 hover:bg-gray-700",
+    "border-gray-300 text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-200 dark:hover:bg-gray-700",
+  ),
+  menuItem: pick(
+    theme,
+    "text-gray-700 hover:bg-gray-100",
+    "text-gray-200 hover:bg-gray-700",
+    "text-gray-700 hover:bg-gray-100 dark:text-gray-200 dark:hover:bg-gray-700",
+  ),
+  muted: pick(theme, "text-gray-500", "text-gray-400", "text-gray-500 dark:text-gray-400"),
+  kbd: pick(
+    theme,
+    "border-gray-300 bg-gray-50",
+    "border-gray-600 bg-gray-900",
+    "border-gray-300 bg-gray-50 dark:border-gray-600 dark:bg-gray-900",
+  ),
+  statusBar: pick(
+    theme,
+    "border-gray-300 bg-gray-50 text-gray-500",
+    "border-gray-700 bg-gray-800 text-gray-400",
+    "border-gray-300 bg-gray-50 text-gray-500 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-400",
+  ),
+});
+
+export type EditorThemeClasses = ReturnType<typeof getEditorThemeClasses>;
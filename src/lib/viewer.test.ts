@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { prepareViewerHtml } from "./viewer";
+
+describe("prepareViewerHtml", () => {
+  it("prefixes heading ids so they can't clash with the page", () => {
+    const html = prepareViewerHtml("<h2>Constructor</h2><h2>Constructor</h2>", { headingAnchors: true });
+    expect(html).toContain('id="heading-constructor"');
+    expect(html).toContain('id="heading-constructor-2"');
+    expect(html).toContain('href="#heading-constructor"');
+  });
+
+  it("takes a custom prefix", () => {
+    const html = prepareViewerHtml("<h2>Setup</h2>", { headingAnchors: true, headingIdPrefix: "docs-" });
+    expect(html).toContain('id="docs-setup"');
+  });
+});
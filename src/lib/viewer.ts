@@ -0,0 +1,79 @@
+import { getTextContent, parseHtml, serializeHtml, type HtmlElementNode, type HtmlNode } from "./htmlParser";
+
+export interface ViewerHtmlOptions {
+  /** Give headings an `id` from their text and a `#` link to it. */
+  headingAnchors?: boolean;
+  /**
+   * Put before every heading `id`, so ids from user text can't clash with the page's own
+   * or shadow globals such as `window.constructor` (default `"heading-"`).
+   */
+  headingIdPrefix?: string;
+  /** Open links to other pages in a new tab. Links always get `rel="noopener noreferrer"`. */
+  openLinksInNewTab?: boolean;
+}
+
+const HEADING_REGEX = /^h[1-6]$/;
+const DIRECTION_BLOCKS = new Set(["p", "div", "h1", "h2", "h3", "h4", "h5", "h6", "ul", "ol", "blockquote", "td", "th"]);
+
+/** A URL fragment for `text`; letters in any script are kept, so Arabic headings get readable anchors too. */
+export const slugify = (text: string): string =>
+  text
+    .normalize("NFKC")
+    .toLowerCase()
+    .trim()
+    .replace(/[^\p{L}\p{M}\p{N}\s-]/gu, "")
+    .replace(/[\s-]+/g, "-")
+    .replace(/^-|-$/g, "");
+
+/**
+ * Prepares sanitized editor output for display: blocks get the per-block direction the
+ * editor gives them, links are made safe to open, and headings optionally get anchors.
+ * Works on the parsed tree, so it runs on the server too.
+ */
+export const prepareViewerHtml = (
+  html: string,
+  { headingAnchors = false, headingIdPrefix = "heading-", openLinksInNewTab = true }: ViewerHtmlOptions = {},
+): string => {
+  const usedIds = new Map<string, number>();
+
+  const uniqueId = (text: string): string => {
+    const base = slugify(text) || "section";
+    const count = usedIds.get(base) || 0;
+    usedIds.set(base, count + 1);
+    return `${headingIdPrefix}${count === 0 ? base : `${base}-${count + 1}`}`;
+  };
+
+  const visit = (node: HtmlNode): HtmlNode => {
+    if (node.type === "text") return node;
+    const attributes = { ...node.attributes };
+    let children = node.children.map(visit);
+
+    if (!attributes.dir) {
+      if (node.tagName === "pre") attributes.dir = "ltr";
+      else if (DIRECTION_BLOCKS.has(node.tagName)) attributes.dir = "auto";
+    }
+
+    if (node.tagName === "a" && attributes.href) {
+      if (openLinksInNewTab && !attributes.href.startsWith("#")) attributes.target = "_blank";
+      const rel = new Set((attributes.rel || "").split(/\s+/).filter(Boolean));
+      rel.add("noopener");
+      rel.add("noreferrer");
+      attributes.rel = Array.from(rel).join(" ");
+    }
+
+    if (headingAnchors && HEADING_REGEX.test(node.tagName)) {
+      attributes.id = uniqueId(getTextContent(node.children));
+      const anchor: HtmlElementNode = {
+        type: "element",
+        tagName: "a",
+        attributes: { href: `#${attributes.id}`, class: "heading-anchor", "aria-hidden": "true", tabindex: "-1" },
+        children: [{ type: "text", value: "#" }],
+      };
+      children = [...children, anchor];
+    }
+
+    return { ...node, attributes, children };
+  };
+
+  return serializeHtml(parseHtml(html).map(visit));
+};